@@ -19,6 +19,10 @@ app.use(express.json());
 // Configuration
 const PORT = process.env.SERVER_PORT || 4000;
 const FACILITATOR_URL = process.env.FACILITATOR_URL || 'http://localhost:3001';
+// Merchant API key, needed unless the facilitator runs with REQUIRE_API_KEY=false
+const FACILITATOR_HEADERS = process.env.FACILITATOR_API_KEY
+  ? { 'X-API-Key': process.env.FACILITATOR_API_KEY }
+  : {};
 const MERCHANT_ADDRESS = process.env.MERCHANT_ADDRESS!;
 const USDC_ADDRESS = process.env.USDC_ADDRESS!;
 const PAYMENT_NETWORK = process.env.PAYMENT_NETWORK || 'ethereum-sepolia';
@@ -92,7 +96,7 @@ function requirePayment(resource: string) {
           maxTimeoutSeconds: 3600,
           asset: USDC_ADDRESS,
         },
-      });
+      }, { headers: FACILITATOR_HEADERS });
 
       if (!verifyResponse.data.isValid) {
         return res.status(402).json({
@@ -118,7 +122,7 @@ function requirePayment(resource: string) {
           maxTimeoutSeconds: 3600,
           asset: USDC_ADDRESS,
         },
-      });
+      }, { headers: FACILITATOR_HEADERS });
 
       if (!settleResponse.data.success) {
         return res.status(500).json({
@@ -12,6 +12,10 @@ app.use(express.json());
 
 // Configuration
 const FACILITATOR_URL = 'http://localhost:3001';
+// Merchant API key, needed unless the facilitator runs with REQUIRE_API_KEY=false
+const FACILITATOR_HEADERS = process.env.FACILITATOR_API_KEY
+  ? { 'X-API-Key': process.env.FACILITATOR_API_KEY }
+  : {};
 const MERCHANT_ADDRESS = '0x10a5E9659AE16cDAaD7A31391CFcDc49D6B93952';
 const USDC_ADDRESS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
 
@@ -60,7 +64,7 @@ async function x402Protect(req: any, res: any, next: any) {
         maxTimeoutSeconds: 3600,
         asset: USDC_ADDRESS,
       },
-    });
+    }, { headers: FACILITATOR_HEADERS });
 
     if (!verifyResponse.data.isValid) {
       return res.status(402).json({
@@ -84,7 +88,7 @@ async function x402Protect(req: any, res: any, next: any) {
         maxTimeoutSeconds: 3600,
         asset: USDC_ADDRESS,
       },
-    });
+    }, { headers: FACILITATOR_HEADERS });
 
     if (!settleResponse.data.success) {
       return res.status(500).json({
@@ -0,0 +1,50 @@
+import { ethers } from 'ethers';
+import { NetworkConfig, TokenDomainConfig } from '../types';
+
+/**
+ * Load the token domain registry
+ *
+ * `EIP712_DOMAINS` may hold a JSON array of `{ network, asset, name, version }`
+ * entries. They take precedence over the domain read from the token contract.
+ */
+export function loadTokenDomains(): TokenDomainConfig[] {
+  if (!process.env.EIP712_DOMAINS) {
+    return [];
+  }
+
+  let entries: TokenDomainConfig[];
+  try {
+    entries = JSON.parse(process.env.EIP712_DOMAINS);
+  } catch (error) {
+    throw new Error('EIP712_DOMAINS must be a JSON array of domain entries');
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error('EIP712_DOMAINS must be a JSON array of domain entries');
+  }
+
+  return entries;
+}
+
+/**
+ * Describe what is wrong with a token domain entry, if anything
+ */
+export function validateTokenDomain(
+  domain: TokenDomainConfig,
+  networks: readonly NetworkConfig[]
+): string[] {
+  const errors: string[] = [];
+  const prefix = `EIP-712 domain ${domain.network}:${domain.asset}:`;
+
+  if (!networks.some((network) => network.id === domain.network || network.caip2 === domain.network)) {
+    errors.push(`${prefix} unknown network`);
+  }
+  if (!ethers.isAddress(domain.asset)) {
+    errors.push(`${prefix} asset must be an address`);
+  }
+  if (typeof domain.name !== 'string' || typeof domain.version !== 'string') {
+    errors.push(`${prefix} name and version are required`);
+  }
+
+  return errors;
+}
@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import { loadNetworks, validateNetwork } from './networks';
+import { loadTokenDomains, validateTokenDomain } from './domains';
 
 dotenv.config();
 
@@ -7,12 +9,18 @@ export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
 
-  // Push Chain
-  pushChain: {
-    rpc: process.env.PUSH_CHAIN_RPC || 'https://evm.rpc-testnet-donut-node1.push.org/',
-    chainId: parseInt(process.env.PUSH_CHAIN_CHAIN_ID || '42101', 10),
+  // Logging: JSON lines on stdout (warnings and errors on stderr)
+  logging: {
+    // debug, info, warn, error or silent; tests (NODE_ENV=test, set by vitest) log nothing
+    level: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'test' ? 'silent' : 'info'),
   },
 
+  // Network registry (see config/networks.ts)
+  networks: loadNetworks(),
+
+  // EIP-712 domains for tokens that don't expose one on-chain (see config/domains.ts)
+  tokenDomains: loadTokenDomains(),
+
   // Contracts
   contracts: {
     registry: process.env.REGISTRY_ADDRESS || '0xE1ED01e0623BBae51df78341297F16eE75a0009B',
@@ -20,16 +28,113 @@ export const config = {
     tokenManager: process.env.TOKEN_MANAGER_ADDRESS || '0xc5Ab8Ae7F08a4786Af22C4A0DebBa8A0C72F24E9',
   },
 
-  // Facilitator
+  // Facilitator signers: the first key is the facilitator address (holds escrowed funds),
+  // further keys take turns sending gas-only transactions
   facilitator: {
-    privateKey: process.env.FACILITATOR_PRIVATE_KEY || '',
+    signer: process.env.FACILITATOR_SIGNER || 'privateKey', // privateKey, keystore or remote
+    privateKey: process.env.FACILITATOR_PRIVATE_KEY || '', // Comma-separated for several keys
+    privateKeyFile: process.env.FACILITATOR_PRIVATE_KEY_FILE || '', // Re-read on reload
+    keystores: splitList(process.env.FACILITATOR_KEYSTORES), // Encrypted JSON keystore files
+    keystorePassword: process.env.FACILITATOR_KEYSTORE_PASSWORD || '',
+    keystorePasswordFile: process.env.FACILITATOR_KEYSTORE_PASSWORD_FILE || '', // Re-read on reload
+    remoteSigner: {
+      url: process.env.REMOTE_SIGNER_URL || '',
+      token: process.env.REMOTE_SIGNER_TOKEN || '', // Sent as a bearer token
+      addresses: splitList(process.env.REMOTE_SIGNER_ADDRESSES), // Default: GET /accounts
+      timeoutMs: parseInt(process.env.REMOTE_SIGNER_TIMEOUT_MS || '10000', 10),
+    },
   },
 
   // API
   api: {
     keyHeader: process.env.API_KEY_HEADER || 'X-API-Key',
+    requireApiKey: process.env.REQUIRE_API_KEY !== 'false', // Keys persist only with DATABASE_URL
+    adminKey: process.env.ADMIN_API_KEY || '',
     rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
-    rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10), // Per client IP
+    verifyRateLimitMaxRequests: parseInt(process.env.VERIFY_RATE_LIMIT_MAX_REQUESTS || '300', 10), // Per API key
+    settleRateLimitMaxRequests: parseInt(process.env.SETTLE_RATE_LIMIT_MAX_REQUESTS || '10', 10), // Per API key
+    trustProxy: parseInt(process.env.TRUST_PROXY || '0', 10), // Number of proxy hops in front of the API
+  },
+
+  // Escrow settlement mode
+  escrow: {
+    defaultTimeoutSeconds: parseInt(process.env.ESCROW_DEFAULT_TIMEOUT_SECONDS || '604800', 10), // 7 days
+    maxTimeoutSeconds: parseInt(process.env.ESCROW_MAX_TIMEOUT_SECONDS || '2592000', 10), // 30 days
+  },
+
+  // Source-chain transaction verification
+  verification: {
+    // Strict: require a receipt with the network's confirmations; optimistic: accept
+    // transactions that can't be found. Strict by default in production
+    strictSourceChain: process.env.STRICT_SOURCE_VERIFICATION
+      ? process.env.STRICT_SOURCE_VERIFICATION === 'true'
+      : process.env.NODE_ENV === 'production',
+    sourceDeadlineMs: parseInt(process.env.SOURCE_VERIFICATION_DEADLINE_MS || '30000', 10),
+    sourceRetryBaseDelayMs: parseInt(process.env.SOURCE_VERIFICATION_RETRY_DELAY_MS || '1000', 10),
+    // Accept authorizations above maxAmountRequired; rejected with AMOUNT_NOT_EXACT otherwise
+    allowOverpayment: process.env.ALLOW_OVERPAYMENT === 'true',
+    // Factories `exact` settlement may call to deploy counterfactual (ERC-6492) payers;
+    // undeployed payers of other factories are rejected
+    erc6492Factories: splitList(process.env.ERC6492_FACTORIES),
+    erc6492MaxDeployGas: parseInt(process.env.ERC6492_MAX_DEPLOY_GAS || '500000', 10),
+  },
+
+  // Payment requirement checks against X402PaymentRegistry
+  registryRequirements: {
+    validate: process.env.VALIDATE_REGISTRY_REQUIREMENTS === 'true', // Default for /verify and /settle
+    cacheTtlSeconds: parseInt(process.env.REGISTRY_REQUIREMENT_CACHE_TTL_SECONDS || '300', 10),
+  },
+
+  // Async settlement worker
+  settlement: {
+    workerPollIntervalMs: parseInt(process.env.SETTLEMENT_WORKER_POLL_INTERVAL_MS || '5000', 10),
+    workerBatchSize: parseInt(process.env.SETTLEMENT_WORKER_BATCH_SIZE || '10', 10),
+    // A payment left settling this long without progress is reclaimed by the worker
+    settlingTimeoutSeconds: parseInt(process.env.SETTLEMENT_SETTLING_TIMEOUT_SECONDS || '600', 10),
+  },
+
+  // Facilitator transactions: nonce management and stuck-transaction replacement
+  transactions: {
+    pollIntervalMs: parseInt(process.env.TX_POLL_INTERVAL_MS || '2000', 10),
+    stuckAfterSeconds: parseInt(process.env.TX_STUCK_AFTER_SECONDS || '60', 10),
+    feeBumpPercent: parseInt(process.env.TX_FEE_BUMP_PERCENT || '20', 10), // Nodes require at least 10
+    maxReplacements: parseInt(process.env.TX_MAX_REPLACEMENTS || '3', 10),
+  },
+
+  // Idempotent settlement (Idempotency-Key)
+  idempotency: {
+    ttlSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10), // 24 hours
+    lockTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '60', 10), // Renewed while running
+    waitTimeoutMs: parseInt(process.env.IDEMPOTENCY_WAIT_TIMEOUT_MS || '60000', 10),
+  },
+
+  // Discovery (/api/v1/supported)
+  supported: {
+    cacheTtlMs: parseInt(process.env.SUPPORTED_CACHE_TTL_MS || '60000', 10),
+    rpcTimeoutMs: parseInt(process.env.SUPPORTED_RPC_TIMEOUT_MS || '5000', 10),
+  },
+
+  // Webhooks
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+    retryBaseDelaySeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_SECONDS || '30', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    allowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true', // Local testing only
+  },
+
+  // Readiness checks (/health/ready)
+  health: {
+    timeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000', 10), // Per RPC call
+    cacheTtlMs: parseInt(process.env.HEALTH_CACHE_TTL_MS || '5000', 10),
+    maxBlockLagSeconds: parseInt(process.env.HEALTH_MAX_BLOCK_LAG_SECONDS || '120', 10),
+    minWalletBalance: process.env.HEALTH_MIN_WALLET_BALANCE || '0.01', // Native currency units
+  },
+
+  // Prometheus metrics (/metrics)
+  metrics: {
+    enabled: process.env.METRICS_ENABLED !== 'false',
+    token: process.env.METRICS_TOKEN || '', // Bearer token required to scrape, if set
   },
 
   // Database (optional)
@@ -47,8 +152,27 @@ export const config = {
 export function validateConfig() {
   const errors: string[] = [];
 
-  if (!config.facilitator.privateKey) {
-    errors.push('FACILITATOR_PRIVATE_KEY is required');
+  switch (config.facilitator.signer) {
+    case 'privateKey':
+      if (!config.facilitator.privateKey && !config.facilitator.privateKeyFile) {
+        errors.push('FACILITATOR_PRIVATE_KEY or FACILITATOR_PRIVATE_KEY_FILE is required');
+      }
+      break;
+    case 'keystore':
+      if (config.facilitator.keystores.length === 0) {
+        errors.push('FACILITATOR_KEYSTORES is required for keystore signers');
+      }
+      if (!config.facilitator.keystorePassword && !config.facilitator.keystorePasswordFile) {
+        errors.push('FACILITATOR_KEYSTORE_PASSWORD or FACILITATOR_KEYSTORE_PASSWORD_FILE is required');
+      }
+      break;
+    case 'remote':
+      if (!config.facilitator.remoteSigner.url) {
+        errors.push('REMOTE_SIGNER_URL is required for remote signers');
+      }
+      break;
+    default:
+      errors.push('FACILITATOR_SIGNER must be privateKey, keystore or remote');
   }
 
   if (!config.contracts.registry) {
@@ -63,7 +187,43 @@ export function validateConfig() {
     errors.push('TOKEN_MANAGER_ADDRESS is required');
   }
 
+  if (!config.networks.some((network) => network.id === 'push-chain')) {
+    errors.push('NETWORKS must include push-chain');
+  }
+
+  const caip2Ids = new Set<string>();
+  for (const network of config.networks) {
+    errors.push(...validateNetwork(network));
+    if (caip2Ids.has(network.caip2)) {
+      errors.push(`Network ${network.id}: duplicate CAIP-2 ID ${network.caip2}`);
+    }
+    caip2Ids.add(network.caip2);
+  }
+
+  for (const domain of config.tokenDomains) {
+    errors.push(...validateTokenDomain(domain, config.networks));
+  }
+
+  // Issued keys would be lost on restart, locking every merchant out
+  if (config.api.requireApiKey && !config.database.url && config.nodeEnv === 'production') {
+    errors.push('API keys require DATABASE_URL in production (or REQUIRE_API_KEY=false)');
+  }
+
+  if (!['debug', 'info', 'warn', 'error', 'silent'].includes(config.logging.level)) {
+    errors.push('LOG_LEVEL must be debug, info, warn, error or silent');
+  }
+
   if (errors.length > 0) {
     throw new Error(`Configuration errors:\n${errors.join('\n')}`);
   }
 }
+
+/**
+ * Parse a comma-separated environment variable
+ */
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
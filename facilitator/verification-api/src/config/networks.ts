@@ -0,0 +1,115 @@
+import { NetworkConfig } from '../types';
+
+/**
+ * Built-in networks
+ * Push Chain's RPC and chain ID follow PUSH_CHAIN_RPC / PUSH_CHAIN_CHAIN_ID
+ */
+function defaultNetworks(): NetworkConfig[] {
+  const pushChainId = parseInt(process.env.PUSH_CHAIN_CHAIN_ID || '42101', 10);
+
+  return [
+    {
+      id: 'push-chain',
+      name: 'Push Chain Donut Testnet',
+      chainId: pushChainId,
+      caip2: `eip155:${pushChainId}`,
+      type: 'testnet',
+      rpcUrls: [process.env.PUSH_CHAIN_RPC || 'https://evm.rpc-testnet-donut-node1.push.org/'],
+      confirmations: 1,
+      blockTimeSeconds: 1,
+      nativeCurrency: { symbol: 'PC', decimals: 18 },
+    },
+    {
+      id: 'ethereum-sepolia',
+      name: 'Ethereum Sepolia Testnet',
+      chainId: 11155111,
+      caip2: 'eip155:11155111',
+      type: 'testnet',
+      rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com'],
+      confirmations: 3,
+      blockTimeSeconds: 12,
+      nativeCurrency: { symbol: 'ETH', decimals: 18 },
+    },
+    {
+      id: 'base-sepolia',
+      name: 'Base Sepolia Testnet',
+      chainId: 84532,
+      caip2: 'eip155:84532',
+      type: 'testnet',
+      rpcUrls: ['https://sepolia.base.org'],
+      confirmations: 3,
+      blockTimeSeconds: 2,
+      nativeCurrency: { symbol: 'ETH', decimals: 18 },
+    },
+  ];
+}
+
+/**
+ * Load the network registry
+ *
+ * `NETWORKS` may hold a JSON array of network entries. Entries whose `id`
+ * matches a built-in network override its fields; others are added. Omitted
+ * `caip2` defaults to `eip155:<chainId>`.
+ */
+export function loadNetworks(): NetworkConfig[] {
+  const networks = new Map(defaultNetworks().map((network) => [network.id, network]));
+
+  if (process.env.NETWORKS) {
+    let entries: Partial<NetworkConfig>[];
+    try {
+      entries = JSON.parse(process.env.NETWORKS);
+    } catch (error) {
+      throw new Error('NETWORKS must be a JSON array of network entries');
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error('NETWORKS must be a JSON array of network entries');
+    }
+
+    for (const entry of entries) {
+      if (!entry.id) {
+        throw new Error('NETWORKS entries require an id');
+      }
+
+      const merged = { ...networks.get(entry.id), ...entry } as NetworkConfig;
+      networks.set(entry.id, {
+        ...merged,
+        caip2: entry.caip2 ?? (entry.chainId ? `eip155:${entry.chainId}` : merged.caip2),
+      });
+    }
+  }
+
+  return [...networks.values()];
+}
+
+/**
+ * Describe what is wrong with a network entry, if anything
+ */
+export function validateNetwork(network: NetworkConfig): string[] {
+  const errors: string[] = [];
+  const prefix = `Network ${network.id}:`;
+
+  if (!network.name) {
+    errors.push(`${prefix} name is required`);
+  }
+  if (!Number.isInteger(network.chainId) || network.chainId <= 0) {
+    errors.push(`${prefix} chainId must be a positive integer`);
+  }
+  if (network.type !== 'testnet' && network.type !== 'mainnet') {
+    errors.push(`${prefix} type must be testnet or mainnet`);
+  }
+  if (!Array.isArray(network.rpcUrls) || network.rpcUrls.length === 0) {
+    errors.push(`${prefix} at least one RPC URL is required`);
+  }
+  if (!Number.isInteger(network.confirmations) || network.confirmations < 1) {
+    errors.push(`${prefix} confirmations must be at least 1`);
+  }
+  if (!(network.blockTimeSeconds > 0)) {
+    errors.push(`${prefix} blockTimeSeconds must be positive`);
+  }
+  if (!network.nativeCurrency?.symbol || !Number.isInteger(network.nativeCurrency?.decimals)) {
+    errors.push(`${prefix} nativeCurrency needs a symbol and integer decimals`);
+  }
+
+  return errors;
+}
@@ -1,35 +1,49 @@
 import { ethers } from 'ethers';
 import { config } from '../config';
-import { REGISTRY_ABI, ESCROW_ABI, TOKEN_MANAGER_ABI } from './abis';
+import { REGISTRY_ABI, ESCROW_ABI, TOKEN_MANAGER_ABI, EIP3009_ABI, ERC20_ABI } from './abis';
+import { EscrowStatus } from '../types';
+import { getNetworkProvider, SETTLEMENT_NETWORK } from '../networks';
+import { timeTransaction } from '../metrics';
+import { logger } from '../logger';
+import { FacilitatorSigner, getSignerPool, SignerPool } from '../signers';
+import { getTransactionManager } from './TransactionManager';
+
+// Role the registry and escrow contracts require for recordPayment, createEscrow, ...
+const FACILITATOR_ROLE = ethers.id('FACILITATOR_ROLE');
+
+// X402PaymentEscrow.EscrowStatus enum order
+const ESCROW_STATUSES: EscrowStatus[] = ['active', 'released', 'refunded', 'disputed'];
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
 
 /**
  * Contract interaction service
  */
 export class ContractService {
-  private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private provider: ethers.AbstractProvider;
+  private signers: SignerPool;
   private registryContract: ethers.Contract;
   private escrowContract: ethers.Contract;
   private tokenManagerContract: ethers.Contract;
 
   constructor() {
     // Initialize provider
-    this.provider = new ethers.JsonRpcProvider(config.pushChain.rpc);
+    this.provider = getNetworkProvider(SETTLEMENT_NETWORK);
 
-    // Initialize wallet
-    this.wallet = new ethers.Wallet(config.facilitator.privateKey, this.provider);
+    // Facilitator signers, loaded at startup
+    this.signers = getSignerPool();
 
-    // Initialize contracts
+    // Initialize contracts; transactions are signed through the transaction manager
     this.registryContract = new ethers.Contract(
       config.contracts.registry,
       REGISTRY_ABI,
-      this.wallet
+      this.provider
     );
 
     this.escrowContract = new ethers.Contract(
       config.contracts.escrow,
       ESCROW_ABI,
-      this.wallet
+      this.provider
     );
 
     this.tokenManagerContract = new ethers.Contract(
@@ -60,6 +74,29 @@ export class ContractService {
     };
   }
 
+  /**
+   * Subscribe to payment requirements being created or updated in the registry
+   * @returns Function that removes the subscription
+   */
+  onPaymentRequirementChanged(
+    listener: (merchant: string, resource: string) => void
+  ): () => void {
+    const events = ['PaymentRequirementCreated', 'PaymentRequirementUpdated'];
+    const handler = (merchant: string, resource: string) => listener(merchant, resource);
+
+    for (const event of events) {
+      this.registryContract
+        .on(event, handler)
+        .catch((error) => logger.error('Failed to subscribe to registry event', { event, error }));
+    }
+
+    return () => {
+      for (const event of events) {
+        this.registryContract.off(event, handler).catch(() => undefined);
+      }
+    };
+  }
+
   /**
    * Record payment in registry
    */
@@ -70,17 +107,19 @@ export class ContractService {
     amount: bigint,
     txHash: string
   ): Promise<string> {
-    const tx = await this.registryContract.recordPayment(
-      merchant,
-      resource,
-      payer,
-      amount,
-      txHash
-    );
-    const receipt = await tx.wait();
+    const receipt = await timeTransaction('recordPayment', async () => {
+      const tx = await this.registryContract.recordPayment.populateTransaction(
+        merchant,
+        resource,
+        payer,
+        amount,
+        txHash
+      );
+      return this.sendAndConfirm('recordPayment', tx);
+    });
     
     // Extract payment ID from event logs
-    const event = receipt.logs.find((log: any) => {
+    const event = receipt.logs.find((log) => {
       try {
         const parsed = this.registryContract.interface.parseLog(log);
         return parsed?.name === 'PaymentRecorded';
@@ -97,12 +136,121 @@ export class ContractService {
     throw new Error('Payment ID not found in transaction receipt');
   }
 
+  /**
+   * Simulate recordPayment and return its gas cost
+   */
+  async estimateRecordPayment(
+    merchant: string,
+    resource: string,
+    payer: string,
+    amount: bigint,
+    txHash: string
+  ): Promise<bigint> {
+    return await this.registryContract.recordPayment.estimateGas(
+      merchant,
+      resource,
+      payer,
+      amount,
+      txHash,
+      { from: this.getFacilitatorAddress() }
+    );
+  }
+
+  /**
+   * Simulate markPaymentSettled and return its gas cost
+   * Reverts unless the payment is already recorded and unsettled
+   */
+  async estimateMarkPaymentSettled(paymentId: string, settlementTxHash: string): Promise<bigint> {
+    return await this.registryContract.markPaymentSettled.estimateGas(
+      paymentId,
+      settlementTxHash,
+      { from: this.getFacilitatorAddress() }
+    );
+  }
+
+  /**
+   * Simulate the token approval createEscrow needs and return its gas cost
+   */
+  async estimateEscrowApproval(asset: string, amount: bigint): Promise<bigint> {
+    const token = new ethers.Contract(asset, ERC20_ABI, this.provider);
+    return await token.approve.estimateGas(config.contracts.escrow, amount, {
+      from: this.getFacilitatorAddress(),
+    });
+  }
+
+  /**
+   * Simulate an EIP-3009 transferWithAuthorization sent by the facilitator
+   */
+  async estimateTransferWithAuthorization(
+    tokenAddress: string,
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    },
+    signature: string
+  ): Promise<bigint> {
+    const token = new ethers.Contract(tokenAddress, EIP3009_ABI, this.provider);
+    const transfer = token.getFunction(
+      'transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,bytes)'
+    );
+    return await transfer.estimateGas(
+      authorization.from,
+      authorization.to,
+      authorization.value,
+      authorization.validAfter,
+      authorization.validBefore,
+      authorization.nonce,
+      signature,
+      { from: this.getFacilitatorAddress() }
+    );
+  }
+
+  /**
+   * Current fee data on Push Chain
+   */
+  async getFeeData(): Promise<ethers.FeeData> {
+    return await this.provider.getFeeData();
+  }
+
   /**
    * Mark payment as settled
    */
   async markPaymentSettled(paymentId: string, settlementTxHash: string): Promise<string> {
-    const tx = await this.registryContract.markPaymentSettled(paymentId, settlementTxHash);
-    const receipt = await tx.wait();
+    const receipt = await timeTransaction('markPaymentSettled', async () => {
+      const tx = await this.registryContract.markPaymentSettled.populateTransaction(
+        paymentId,
+        settlementTxHash
+      );
+      return this.sendAndConfirm('markPaymentSettled', tx);
+    });
+    return receipt.hash;
+  }
+
+  /**
+   * Deploy a counterfactual account through its factory (ERC-6492)
+   * The deployment is simulated first and refused above ERC6492_MAX_DEPLOY_GAS
+   */
+  async deployAccount(factory: string, factoryCalldata: string): Promise<string> {
+    const signer = this.signers.next();
+    const request = { to: factory, data: factoryCalldata, from: signer.address };
+
+    // Reverts surface here, before a nonce is used
+    await this.provider.call(request);
+    const gasLimit = await this.provider.estimateGas(request);
+    const maxGas = BigInt(config.verification.erc6492MaxDeployGas);
+    if (gasLimit > maxGas) {
+      throw new Error(`Account deployment needs ${gasLimit} gas, above the ${maxGas} limit`);
+    }
+
+    const receipt = await this.sendAndConfirm(
+      'deployAccount',
+      { to: factory, data: factoryCalldata, gasLimit },
+      signer
+    );
     return receipt.hash;
   }
 
@@ -124,6 +272,135 @@ export class ContractService {
     };
   }
 
+  /**
+   * Get registry payment IDs recorded for a merchant, oldest first
+   */
+  async getMerchantPayments(merchant: string): Promise<string[]> {
+    const paymentIds = await this.registryContract.getMerchantPayments(merchant);
+    return [...paymentIds];
+  }
+
+  /**
+   * Find the registry payment recorded for a transaction, searching the merchant's
+   * payments newest first down to `since` (unix seconds)
+   */
+  async findPaymentRecord(merchant: string, txHash: string, since: number): Promise<string | null> {
+    const paymentIds = await this.getMerchantPayments(merchant);
+    for (const paymentId of paymentIds.reverse()) {
+      const record = await this.getPaymentRecord(paymentId);
+      if (record.timestamp < since) {
+        return null;
+      }
+      if (record.txHash.toLowerCase() === txHash.toLowerCase()) {
+        return paymentId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lock facilitator-held funds in escrow for a payee
+   * ERC20 amounts are approved to the escrow contract first
+   * Sent from the facilitator address, which holds the funds and receives refunds
+   */
+  async createEscrow(
+    payee: string,
+    asset: string,
+    amount: bigint,
+    timeoutSeconds: number,
+    paymentId: string,
+    resource: string
+  ): Promise<{ escrowId: string; txHash: string; facilitator: string }> {
+    const isNativeToken = asset === NATIVE_TOKEN;
+    const signer = this.signers.primary();
+
+    if (!isNativeToken) {
+      const token = new ethers.Contract(asset, ERC20_ABI, this.provider);
+      const approval = await token.approve.populateTransaction(config.contracts.escrow, amount);
+      await this.sendAndConfirm('approve', approval, signer);
+    }
+
+    const tx = await this.escrowContract.createEscrow.populateTransaction(
+      payee,
+      asset,
+      amount,
+      timeoutSeconds,
+      paymentId,
+      resource,
+      { value: isNativeToken ? amount : 0n }
+    );
+    const receipt = await this.sendAndConfirm('createEscrow', tx, signer);
+
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.escrowContract.interface.parseLog(log);
+        if (parsed?.name === 'EscrowCreated') {
+          return { escrowId: parsed.args[0], txHash: receipt.hash, facilitator: signer.address };
+        }
+      } catch {
+        // Not an escrow event
+      }
+    }
+
+    throw new Error('Escrow ID not found in transaction receipt');
+  }
+
+  /**
+   * Release escrowed funds to the payee
+   */
+  async releaseEscrow(escrowId: string): Promise<string> {
+    const tx = await this.escrowContract.releaseEscrow.populateTransaction(escrowId);
+    const receipt = await this.sendAndConfirm('releaseEscrow', tx);
+    return receipt.hash;
+  }
+
+  /**
+   * Refund escrowed funds to the escrow payer (the facilitator)
+   */
+  async refundEscrow(escrowId: string): Promise<string> {
+    const tx = await this.escrowContract.refundEscrow.populateTransaction(escrowId);
+    const receipt = await this.sendAndConfirm('refundEscrow', tx);
+    return receipt.hash;
+  }
+
+  /**
+   * Get escrow record
+   */
+  async getEscrow(escrowId: string) {
+    const escrow = await this.escrowContract.getEscrow(escrowId);
+    return {
+      payer: escrow.payer,
+      payee: escrow.payee,
+      asset: escrow.asset,
+      amount: escrow.amount.toString(),
+      createdAt: Number(escrow.createdAt),
+      expiresAt: Number(escrow.expiresAt),
+      status: ESCROW_STATUSES[Number(escrow.status)],
+      paymentId: escrow.paymentId,
+      resource: escrow.resource,
+    };
+  }
+
+  /**
+   * Send funds from a facilitator signer (the facilitator address by default)
+   */
+  async transferFunds(asset: string, to: string, amount: bigint, from?: string): Promise<string> {
+    const signer = from ? this.signers.get(from) : this.signers.primary();
+    if (!signer) {
+      throw new Error(`No facilitator signer loaded for ${from}`);
+    }
+
+    const tx =
+      asset === NATIVE_TOKEN
+        ? { to, value: amount }
+        : await new ethers.Contract(asset, ERC20_ABI, this.provider).transfer.populateTransaction(
+            to,
+            amount
+          );
+    const receipt = await this.sendAndConfirm('transfer', tx, signer);
+    return receipt.hash;
+  }
+
   /**
    * Check if token is supported
    */
@@ -147,16 +424,80 @@ export class ContractService {
   }
 
   /**
-   * Get facilitator address
+   * Get addresses of active tokens in the token manager
+   */
+  async getActiveTokens(): Promise<string[]> {
+    const tokens = await this.tokenManagerContract.getActiveTokens();
+    return [...tokens];
+  }
+
+  /**
+   * Check EIP-3009 authorization state for a token
+   * Returns null if the token does not implement authorizationState
+   */
+  async isAuthorizationUsed(
+    tokenAddress: string,
+    authorizer: string,
+    nonce: string
+  ): Promise<boolean | null> {
+    const token = new ethers.Contract(tokenAddress, EIP3009_ABI, this.provider);
+    try {
+      return await token.authorizationState(authorizer, nonce);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check a signer holds FACILITATOR_ROLE on the registry and escrow contracts
+   */
+  async hasFacilitatorRole(
+    address: string = this.getFacilitatorAddress()
+  ): Promise<{ registry: boolean; escrow: boolean }> {
+    const [registry, escrow] = await Promise.all([
+      this.registryContract.hasRole(FACILITATOR_ROLE, address),
+      this.escrowContract.hasRole(FACILITATOR_ROLE, address),
+    ]);
+    return { registry, escrow };
+  }
+
+  /**
+   * Send a facilitator transaction through the signer's transaction manager and wait
+   * for it to be mined, logging its hash. Reverted transactions throw
+   * Without a signer, the next signer in the pool sends it
+   */
+  private async sendAndConfirm(
+    method: string,
+    request: ethers.TransactionRequest,
+    signer: FacilitatorSigner = this.signers.next()
+  ): Promise<ethers.TransactionReceipt> {
+    const tx = await getTransactionManager(signer).send(method, request);
+    logger.info('Transaction sent', {
+      method,
+      from: signer.address,
+      txHash: tx.hash,
+      nonce: tx.nonce,
+    });
+    const receipt = await tx.wait();
+    logger.info('Transaction confirmed', {
+      method,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    });
+    return receipt;
+  }
+
+  /**
+   * Get facilitator address (the primary signer)
    */
   getFacilitatorAddress(): string {
-    return this.wallet.address;
+    return this.signers.primary().address;
   }
 
   /**
    * Get provider
    */
-  getProvider(): ethers.JsonRpcProvider {
+  getProvider(): ethers.AbstractProvider {
     return this.provider;
   }
 }
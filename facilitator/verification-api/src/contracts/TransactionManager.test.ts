@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { MemoryTransactionStore } from '../store/MemoryTransactionStore';
+import { FacilitatorSigner } from '../signers/types';
+import { TransactionManager } from './TransactionManager';
+
+const GWEI = 1_000_000_000n;
+
+const provider = {
+  getTransactionCount: vi.fn(),
+  getTransactionReceipt: vi.fn(),
+  getFeeData: vi.fn(),
+  broadcastTransaction: vi.fn(),
+};
+
+function makeSigner(): FacilitatorSigner {
+  const wallet = ethers.Wallet.createRandom();
+  return {
+    address: wallet.address,
+    provider,
+    populateTransaction: async (request: ethers.TransactionRequest) => ({
+      ...request,
+      chainId: 1n,
+      gasLimit: 100000n,
+      maxFeePerGas: 10n * GWEI,
+      maxPriorityFeePerGas: GWEI,
+    }),
+    signTransaction: (tx: ethers.TransactionRequest) => wallet.signTransaction(tx),
+  } as unknown as FacilitatorSigner;
+}
+
+const request = { to: ethers.Wallet.createRandom().address, data: '0x' };
+
+describe('TransactionManager', () => {
+  let store: MemoryTransactionStore;
+  let signer: FacilitatorSigner;
+  let manager: TransactionManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    store = new MemoryTransactionStore();
+    signer = makeSigner();
+    manager = new TransactionManager(signer, store);
+    provider.getTransactionCount.mockResolvedValue(7);
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    provider.getFeeData.mockResolvedValue({
+      maxFeePerGas: 5n * GWEI,
+      maxPriorityFeePerGas: GWEI,
+      gasPrice: null,
+    });
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.useRealTimers();
+  });
+
+  it('gives concurrent sends consecutive nonces', async () => {
+    const sent = await Promise.all([
+      manager.send('first', request),
+      manager.send('second', request),
+    ]);
+
+    expect(sent.map((tx) => tx.nonce)).toEqual([7, 8]);
+    expect((await store.listPending(signer.address)).map((tx) => tx.nonce)).toEqual([7, 8]);
+  });
+
+  it('re-signs a stuck transaction with bumped fees', async () => {
+    const sent = await manager.send('recordPayment', request);
+
+    await vi.advanceTimersByTimeAsync(config.transactions.stuckAfterSeconds * 1000 + 5000);
+
+    const [pending] = await store.listPending(signer.address);
+    expect(provider.broadcastTransaction).toHaveBeenCalledTimes(2);
+    expect(pending).toMatchObject({ nonce: sent.nonce, replacements: 1 });
+    expect(pending.hashes).toHaveLength(2);
+    expect(pending.hashes[0]).toBe(sent.hash);
+    expect(BigInt(pending.maxFeePerGas!)).toBe(12n * GWEI);
+  });
+
+  it('resolves with the receipt of the replacement that was mined', async () => {
+    const sent = await manager.send('recordPayment', request);
+    await vi.advanceTimersByTimeAsync(config.transactions.stuckAfterSeconds * 1000 + 5000);
+
+    const [pending] = await store.listPending(signer.address);
+    const replacement = pending.hashes[1];
+    provider.getTransactionReceipt.mockImplementation(async (hash: string) =>
+      hash === replacement ? { hash, status: 1 } : null
+    );
+    await vi.advanceTimersByTimeAsync(config.transactions.pollIntervalMs);
+
+    await expect(sent.wait()).resolves.toMatchObject({ hash: replacement });
+    expect(await store.listPending(signer.address)).toEqual([]);
+  });
+
+  it('stops replacing after TX_MAX_REPLACEMENTS', async () => {
+    await manager.send('recordPayment', request);
+
+    const stuckMs = config.transactions.stuckAfterSeconds * 1000 + 5000;
+    for (let i = 0; i <= config.transactions.maxReplacements + 1; i++) {
+      await vi.advanceTimersByTimeAsync(stuckMs);
+    }
+
+    const [pending] = await store.listPending(signer.address);
+    expect(pending.replacements).toBe(config.transactions.maxReplacements);
+    expect(provider.broadcastTransaction).toHaveBeenCalledTimes(
+      config.transactions.maxReplacements + 1
+    );
+  });
+
+  it('refuses to send while another instance holds the signer', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await store.lease(signer.address, 'other-instance', now + 60);
+
+    await expect(manager.send('recordPayment', request)).rejects.toThrow(
+      `Signer ${signer.address} is in use by another facilitator instance`
+    );
+    expect(provider.broadcastTransaction).not.toHaveBeenCalled();
+
+    // The lease lapses once the other instance stops renewing it
+    await vi.advanceTimersByTimeAsync(61_000);
+    await expect(manager.send('recordPayment', request)).resolves.toMatchObject({ nonce: 7 });
+  });
+});
@@ -0,0 +1,433 @@
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { getTransactionStore, PendingTransaction, TransactionStore } from '../store';
+import { txReplacementsTotal } from '../metrics';
+import { logger } from '../logger';
+import { FacilitatorSigner } from '../signers/types';
+
+const log = logger.child({ service: 'TransactionManager' });
+
+// Identifies this process in signer leases
+const INSTANCE_ID = randomUUID();
+
+// A signer stays leased to this instance this long after its last send or poll
+const SIGNER_LEASE_SECONDS = 60;
+
+/**
+ * A transaction accepted by the manager
+ */
+export interface SentTransaction {
+  hash: string; // First broadcast; a fee-bumped replacement may be the one mined
+  nonce: number;
+  wait(): Promise<ethers.TransactionReceipt>; // Rejects if the transaction reverts
+}
+
+interface Waiter {
+  promise: Promise<ethers.TransactionReceipt>;
+  resolve: (receipt: ethers.TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+const managers = new Map<string, TransactionManager>();
+
+/**
+ * Get the shared transaction manager for a signer
+ * Every transaction from the signer must go through it to keep nonces in order
+ */
+export function getTransactionManager(signer: FacilitatorSigner): TransactionManager {
+  const key = signer.address.toLowerCase();
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new TransactionManager(signer, getTransactionStore());
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Stop watching pending transactions for every signer, on shutdown
+ */
+export function stopTransactionManagers(): void {
+  for (const manager of managers.values()) {
+    manager.stop();
+  }
+}
+
+/**
+ * Sends facilitator transactions with locally assigned nonces
+ * - Sends are queued, so concurrent callers never share a nonce
+ * - Signed transactions are persisted before broadcast and watched until mined
+ * - The lowest pending nonce is re-signed with bumped fees after TX_STUCK_AFTER_SECONDS
+ * - The signer is leased in the store, so only one facilitator instance sends with a key;
+ *   the others fail to send until the lease lapses
+ */
+export class TransactionManager {
+  private signer: FacilitatorSigner;
+  private provider: ethers.Provider;
+  private store: TransactionStore;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextNonce: number | null = null;
+  private recovery: Promise<void> | null = null;
+  private pending = new Map<number, PendingTransaction>();
+  private waiters = new Map<number, Waiter>();
+  private reportedStuck = new Set<number>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private leasedUntil = 0;
+
+  constructor(signer: FacilitatorSigner, store: TransactionStore) {
+    if (!signer.provider) {
+      throw new Error('Transaction manager requires a signer connected to a provider');
+    }
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.store = store;
+  }
+
+  /**
+   * Resume watching transactions left pending by a previous run
+   */
+  async start(): Promise<void> {
+    await this.recover();
+  }
+
+  /**
+   * Stop watching pending transactions; they are recovered on the next start
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sign and broadcast a transaction with the next nonce
+   * Gas and fees are filled in by the signer; any `nonce` in the request is ignored
+   */
+  async send(method: string, request: ethers.TransactionRequest): Promise<SentTransaction> {
+    return this.serialize(async () => {
+      const nonce = await this.reserveNonce();
+
+      // Gas estimation reverts surface here, before the nonce is used
+      const populated = await this.signer.populateTransaction({ ...request, nonce });
+      const now = Math.floor(Date.now() / 1000);
+      const eip1559 = populated.maxFeePerGas != null;
+      const transaction: PendingTransaction = {
+        from: this.signer.address,
+        nonce,
+        method,
+        chainId: String(populated.chainId),
+        to: populated.to as string,
+        data: populated.data ?? '0x',
+        value: String(populated.value ?? 0n),
+        gasLimit: String(populated.gasLimit),
+        maxFeePerGas: eip1559 ? String(populated.maxFeePerGas) : undefined,
+        maxPriorityFeePerGas: eip1559 ? String(populated.maxPriorityFeePerGas) : undefined,
+        gasPrice: eip1559 ? undefined : String(populated.gasPrice),
+        hashes: [],
+        replacements: 0,
+        createdAt: now,
+        sentAt: now,
+      };
+
+      let hash: string;
+      try {
+        hash = await this.broadcast(transaction);
+      } catch (error) {
+        // Re-read the nonce from the chain in case the node accepted it anyway
+        this.nextNonce = null;
+        await this.store.remove(transaction.from, nonce);
+        throw error;
+      }
+
+      this.nextNonce = nonce + 1;
+      const waiter = this.createWaiter();
+      this.waiters.set(nonce, waiter);
+      this.track(transaction);
+
+      return { hash, nonce, wait: () => waiter.promise };
+    });
+  }
+
+  /**
+   * Transactions signed but not yet mined, lowest nonce first
+   */
+  listPending(): PendingTransaction[] {
+    return [...this.pending.values()].sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Run sends one at a time, in call order
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Next unused nonce: the node's pending count, or past the transactions we track
+   */
+  private async reserveNonce(): Promise<number> {
+    await this.holdLease();
+    await this.recover();
+
+    if (this.nextNonce === null) {
+      const onChain = await this.provider.getTransactionCount(this.signer.address, 'pending');
+      const tracked = this.pending.size > 0 ? Math.max(...this.pending.keys()) + 1 : 0;
+      this.nextNonce = Math.max(onChain, tracked);
+    }
+    return this.nextNonce;
+  }
+
+  /**
+   * Take or extend this instance's lease on the signer
+   * After a lapse another instance may have sent with the key, so nonces and pending
+   * transactions are read again
+   */
+  private async holdLease(): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const leasedUntil = now + SIGNER_LEASE_SECONDS;
+    const holder = await this.store.lease(this.signer.address, INSTANCE_ID, leasedUntil);
+    if (holder !== INSTANCE_ID) {
+      this.leasedUntil = 0;
+      throw new Error(`Signer ${this.signer.address} is in use by another facilitator instance`);
+    }
+
+    if (this.leasedUntil < now) {
+      this.nextNonce = null;
+      this.recovery = null;
+    }
+    this.leasedUntil = leasedUntil;
+  }
+
+  /**
+   * Load persisted pending transactions, once
+   */
+  private recover(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.store.listPending(this.signer.address).then((transactions) => {
+        for (const transaction of transactions) {
+          this.track(transaction);
+        }
+        if (transactions.length > 0) {
+          log.info('Recovered pending transactions', {
+            address: this.signer.address,
+            nonces: transactions.map((transaction) => transaction.nonce),
+          });
+        }
+      });
+      this.recovery.catch(() => {
+        this.recovery = null;
+      });
+    }
+    return this.recovery;
+  }
+
+  /**
+   * Sign the transaction, persist it, then broadcast it
+   * Persisting first means a crash cannot lose a transaction the node may have accepted
+   */
+  private async broadcast(transaction: PendingTransaction): Promise<string> {
+    const signed = await this.signer.signTransaction({
+      type: transaction.gasPrice ? 0 : 2,
+      chainId: BigInt(transaction.chainId),
+      nonce: transaction.nonce,
+      to: transaction.to,
+      data: transaction.data,
+      value: BigInt(transaction.value),
+      gasLimit: BigInt(transaction.gasLimit),
+      maxFeePerGas: transaction.maxFeePerGas ? BigInt(transaction.maxFeePerGas) : undefined,
+      maxPriorityFeePerGas: transaction.maxPriorityFeePerGas
+        ? BigInt(transaction.maxPriorityFeePerGas)
+        : undefined,
+      gasPrice: transaction.gasPrice ? BigInt(transaction.gasPrice) : undefined,
+    });
+    const hash = ethers.keccak256(signed);
+
+    transaction.hashes.push(hash);
+    transaction.sentAt = Math.floor(Date.now() / 1000);
+    await this.store.save(transaction);
+
+    await this.provider.broadcastTransaction(signed);
+    return hash;
+  }
+
+  private createWaiter(): Waiter {
+    let resolve!: Waiter['resolve'];
+    let reject!: Waiter['reject'];
+    const promise = new Promise<ethers.TransactionReceipt>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers that never wait should not cause unhandled rejections
+    promise.catch(() => undefined);
+    return { promise, resolve, reject };
+  }
+
+  private track(transaction: PendingTransaction): void {
+    this.pending.set(transaction.nonce, transaction);
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.poll().catch((error) => log.error('Pending transaction poll failed', { error }));
+      }, config.transactions.pollIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Check every pending transaction; stops polling once none are left
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      if (this.pending.size === 0) {
+        this.stop();
+        return;
+      }
+
+      // Only the lease holder replaces stuck transactions
+      await this.holdLease();
+
+      // Read before the receipts: a nonce mined by now has a receipt we can find below
+      const minedNonce = await this.provider.getTransactionCount(this.signer.address, 'latest');
+      for (const transaction of this.listPending()) {
+        try {
+          await this.check(transaction, minedNonce);
+        } catch (error) {
+          log.warn('Pending transaction check failed', {
+            method: transaction.method,
+            nonce: transaction.nonce,
+            error,
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check(transaction: PendingTransaction, minedNonce: number): Promise<void> {
+    for (const hash of [...transaction.hashes].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return this.complete(transaction, receipt);
+      }
+    }
+
+    if (minedNonce > transaction.nonce) {
+      return this.complete(
+        transaction,
+        new Error(`Nonce ${transaction.nonce} was used by a transaction not sent by this facilitator`)
+      );
+    }
+
+    // Later nonces cannot be mined before this one; only the first pending is replaced
+    const pendingSeconds = Math.floor(Date.now() / 1000) - transaction.sentAt;
+    if (transaction.nonce > minedNonce || pendingSeconds < config.transactions.stuckAfterSeconds) {
+      return;
+    }
+
+    if (transaction.replacements >= config.transactions.maxReplacements) {
+      // Keep waiting rather than reuse the nonce: the transaction may still be mined
+      if (!this.reportedStuck.has(transaction.nonce)) {
+        this.reportedStuck.add(transaction.nonce);
+        log.error('Transaction still pending after fee bumps', {
+          method: transaction.method,
+          nonce: transaction.nonce,
+          txHash: transaction.hashes[transaction.hashes.length - 1],
+          replacements: transaction.replacements,
+        });
+      }
+      return;
+    }
+
+    await this.replace(transaction);
+  }
+
+  /**
+   * Re-sign a stuck transaction with fees bumped by TX_FEE_BUMP_PERCENT,
+   * or to the current network fees if those are higher
+   */
+  private async replace(transaction: PendingTransaction): Promise<void> {
+    const feeData = await this.provider.getFeeData();
+    const bump = (fee: string | undefined, current: bigint | null) => {
+      if (fee === undefined) {
+        return undefined;
+      }
+      const bumped = (BigInt(fee) * BigInt(100 + config.transactions.feeBumpPercent)) / 100n;
+      return String(current !== null && current > bumped ? current : bumped);
+    };
+
+    const replaces = transaction.hashes[transaction.hashes.length - 1];
+    transaction.maxFeePerGas = bump(transaction.maxFeePerGas, feeData.maxFeePerGas);
+    transaction.maxPriorityFeePerGas = bump(
+      transaction.maxPriorityFeePerGas,
+      feeData.maxPriorityFeePerGas
+    );
+    if (
+      transaction.maxFeePerGas &&
+      transaction.maxPriorityFeePerGas &&
+      BigInt(transaction.maxPriorityFeePerGas) > BigInt(transaction.maxFeePerGas)
+    ) {
+      transaction.maxPriorityFeePerGas = transaction.maxFeePerGas;
+    }
+    transaction.gasPrice = bump(transaction.gasPrice, feeData.gasPrice);
+    transaction.replacements += 1;
+
+    const hash = await this.broadcast(transaction);
+    txReplacementsTotal.inc({ method: transaction.method });
+    log.warn('Replaced stuck transaction', {
+      method: transaction.method,
+      nonce: transaction.nonce,
+      txHash: hash,
+      replaces,
+      replacements: transaction.replacements,
+      maxFeePerGas: transaction.maxFeePerGas,
+      gasPrice: transaction.gasPrice,
+    });
+  }
+
+  /**
+   * Stop tracking a transaction and settle its waiter
+   */
+  private async complete(
+    transaction: PendingTransaction,
+    result: ethers.TransactionReceipt | Error
+  ): Promise<void> {
+    this.pending.delete(transaction.nonce);
+    await this.store.remove(transaction.from, transaction.nonce);
+
+    this.reportedStuck.delete(transaction.nonce);
+    const waiter = this.waiters.get(transaction.nonce);
+    this.waiters.delete(transaction.nonce);
+
+    let error = result instanceof Error ? result : null;
+    if (!error && (result as ethers.TransactionReceipt).status === 0) {
+      error = new Error(`Transaction ${(result as ethers.TransactionReceipt).hash} reverted`);
+    }
+
+    if (!waiter) {
+      // Recovered after a restart; nobody is waiting for it
+      log.info('Recovered transaction finished', {
+        method: transaction.method,
+        nonce: transaction.nonce,
+        txHash: result instanceof Error ? undefined : result.hash,
+        error: error?.message,
+      });
+      return;
+    }
+
+    if (error) {
+      waiter.reject(error);
+    } else {
+      waiter.resolve(result as ethers.TransactionReceipt);
+    }
+  }
+}
@@ -9,7 +9,10 @@ export const REGISTRY_ABI = [
   'function markPaymentSettled(bytes32 paymentId, bytes32 settlementTxHash)',
   'function getPaymentRecord(bytes32 paymentId) view returns (tuple(bytes32 requirementId, address payer, string originChain, address originAddress, bool isUEA, uint256 amount, uint256 timestamp, bytes32 txHash, bool settled))',
   'function getMerchantPayments(address merchant) view returns (bytes32[])',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
   'event PaymentRecorded(bytes32 indexed paymentId, address indexed merchant, address indexed payer, uint256 amount, string originChain, address originAddress, bool isUEA)',
+  'event PaymentRequirementCreated(address indexed merchant, string resource, uint256 amount, address asset)',
+  'event PaymentRequirementUpdated(address indexed merchant, string resource)',
 ] as const;
 
 export const ESCROW_ABI = [
@@ -18,6 +21,8 @@ export const ESCROW_ABI = [
   'function refundEscrow(bytes32 escrowId)',
   'function getEscrow(bytes32 escrowId) view returns (tuple(address payer, address payee, address asset, uint256 amount, uint256 createdAt, uint256 expiresAt, uint8 status, bytes32 paymentId, string resource))',
   'function getEscrowStatus(bytes32 escrowId) view returns (uint8)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'event EscrowCreated(bytes32 indexed escrowId, address indexed payer, address indexed payee, uint256 amount, address asset)',
 ] as const;
 
 export const TOKEN_MANAGER_ABI = [
@@ -38,6 +43,23 @@ export const EIP3009_ABI = [
   'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
 ] as const;
 
+/**
+ * EIP-712 domain getters (EIP-5267 eip712Domain, or EIP-2612 style fields)
+ */
+export const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+] as const;
+
+/**
+ * EIP-1271 smart-contract signature check
+ */
+export const ERC1271_ABI = [
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+] as const;
+
 /**
  * Standard ERC20 ABI for fallback transfers
  */
@@ -47,4 +69,5 @@ export const ERC20_ABI = [
   'function approve(address spender, uint256 amount) returns (bool)',
   'function balanceOf(address account) view returns (uint256)',
   'function allowance(address owner, address spender) view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
 ] as const;
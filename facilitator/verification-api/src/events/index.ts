@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { StoredPayment } from '../store';
+import { PaymentStatus } from '../types';
+import { toPaymentStatus } from '../utils/payment';
+
+/**
+ * Payment lifecycle events
+ */
+export const PAYMENT_EVENT_TYPES = [
+  'payment.verified',
+  'payment.settled',
+  'payment.failed',
+  'payment.expired',
+  'escrow.created',
+  'escrow.released',
+  'escrow.refunded',
+] as const;
+
+export type PaymentEventType = (typeof PAYMENT_EVENT_TYPES)[number];
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  paymentId: string;
+  merchant: string; // Payee the event belongs to
+  timestamp: number; // Unix seconds
+  data: PaymentStatus;
+}
+
+/**
+ * In-process event bus for payment lifecycle events
+ */
+class PaymentEventBus extends EventEmitter {
+  publish(event: PaymentEvent): void {
+    this.emit('event', event);
+  }
+
+  subscribe(listener: (event: PaymentEvent) => void): void {
+    this.on('event', listener);
+  }
+}
+
+export const paymentEvents = new PaymentEventBus();
+
+/**
+ * Publish a lifecycle event for a stored payment
+ */
+export function publishPaymentEvent(type: PaymentEventType, payment: StoredPayment): void {
+  paymentEvents.publish({
+    type,
+    paymentId: payment.paymentId,
+    merchant: payment.payee,
+    timestamp: Math.floor(Date.now() / 1000),
+    data: toPaymentStatus(payment),
+  });
+}
@@ -1,75 +1,175 @@
+import { Server } from 'http';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import { config, validateConfig } from './config';
 import { verificationRouter } from './routes/verification';
 import { settlementRouter } from './routes/settlement';
 import { statusRouter } from './routes/status';
+import { adminRouter } from './routes/admin';
+import { webhooksRouter } from './routes/webhooks';
+import { merchantsRouter } from './routes/merchants';
+import { supportedRouter } from './routes/supported';
+import { estimateRouter } from './routes/estimate';
+import { escrowRouter } from './routes/escrow';
+import { metricsRouter } from './routes/metrics';
+import { healthRouter } from './routes/health';
+import { WebhookService } from './services/WebhookService';
+import { StatusService } from './services/StatusService';
+import { SettlementService } from './services/SettlementService';
+import { RequirementRegistryService } from './services/RequirementRegistryService';
+import { stopTransactionManagers } from './contracts/TransactionManager';
+import { getSignerPool } from './signers';
 import { errorHandler } from './middleware/errorHandler';
+import { requestId } from './middleware/requestId';
+import { logger } from './logger';
+import {
+  requireApiKey,
+  requireAdmin,
+  requireMerchantKey,
+  requireMetricsToken,
+} from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
 
 // Validate configuration
 try {
   validateConfig();
 } catch (error) {
-  console.error('Configuration validation failed:', error);
+  logger.error('Configuration validation failed', { error });
   process.exit(1);
 }
 
 // Create Express app
 const app = express();
 
+// Resolve client IPs behind load balancers for rate limiting
+app.set('trust proxy', config.api.trustProxy);
+
 // Middleware
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
-app.use(morgan(config.nodeEnv === 'development' ? 'dev' : 'combined'));
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    timestamp: Date.now(),
-    version: '0.1.0',
-    network: 'push-chain-donut-testnet',
-  });
+// After body parsing: its stream callbacks would drop the request's log context
+app.use(requestId);
+
+// Health checks: /health, /health/live and /health/ready
+app.use('/health', healthRouter);
+
+// Prometheus metrics
+if (config.metrics.enabled) {
+  app.use('/metrics', requireMetricsToken, metricsRouter);
+}
+
+// Rate limits: per client IP across the API, then per API key for
+// cheap /verify calls and gas-spending /settle calls
+const windowMs = config.api.rateLimitWindowMs;
+const ipLimit = rateLimit({
+  name: 'ip',
+  max: config.api.rateLimitMaxRequests,
+  windowMs,
+  by: 'ip',
+});
+const verifyLimit = rateLimit({
+  name: 'verify',
+  max: config.api.verifyRateLimitMaxRequests,
+  windowMs,
+  by: 'apiKey',
+});
+const settleLimit = rateLimit({
+  name: 'settle',
+  max: config.api.settleRateLimitMaxRequests,
+  windowMs,
+  by: 'apiKey',
 });
 
 // API routes
-app.use('/api/v1/verify', verificationRouter);
-app.use('/api/v1/settle', settlementRouter);
-app.use('/api/v1/status', statusRouter);
+app.use('/api/v1', ipLimit);
+app.use('/api/v1/supported', supportedRouter);
+app.use('/api/v1/verify', requireApiKey, verifyLimit, verificationRouter);
+app.use('/api/v1/estimate', requireApiKey, verifyLimit, estimateRouter);
+app.use('/api/v1/settle', requireApiKey, settleLimit, settlementRouter);
+app.use('/api/v1/status', requireApiKey, statusRouter);
+app.use('/api/v1/escrow', requireMerchantKey, settleLimit, escrowRouter);
+app.use('/api/v1/merchants', requireMerchantKey, merchantsRouter);
+app.use('/api/v1/webhooks', requireMerchantKey, webhooksRouter);
+app.use('/api/v1/admin', requireAdmin, adminRouter);
 
 // Error handling
 app.use(errorHandler);
 
-// Start server
-const server = app.listen(config.port, () => {
-  console.log(`
-╔═══════════════════════════════════════════════════════════╗
-║                                                           ║
-║   x402 Protocol Facilitator - Verification API            ║
-║                                                           ║
-║   Status: Running                                         ║
-║   Port: ${config.port}                                           ║
-║   Environment: ${config.nodeEnv}                             ║
-║   Network: Push Chain Donut Testnet                      ║
-║                                                           ║
-║   Endpoints:                                              ║
-║   - POST /api/v1/verify      - Verify payment            ║
-║   - POST /api/v1/settle      - Settle payment            ║
-║   - GET  /api/v1/status/:id  - Check payment status      ║
-║   - GET  /health             - Health check              ║
-║                                                           ║
-╚═══════════════════════════════════════════════════════════╝
-  `);
+// Background workers: webhook delivery, async settlement, registry cache invalidation
+// and payment expiry
+const webhookService = new WebhookService();
+const settlementWorker = new SettlementService();
+const requirementRegistry = new RequirementRegistryService();
+const statusService = new StatusService();
+let expiryTimer: NodeJS.Timeout | undefined;
+let server: Server | undefined;
+
+/**
+ * Load the facilitator signers (and their pending transactions) before anything can
+ * send a transaction, then start the workers and the server
+ */
+async function start(): Promise<void> {
+  // A restart would forget transactions still waiting to be mined or replaced
+  if (!config.database.url && config.transactions.maxReplacements > 0) {
+    logger.warn(
+      'Pending transactions are kept in memory and lost on restart; set DATABASE_URL to recover them'
+    );
+  }
+
+  if (!config.database.url && config.api.requireApiKey) {
+    logger.warn('API keys are kept in memory and lost on restart; set DATABASE_URL to persist them');
+  }
+
+  await getSignerPool().load();
+
+  webhookService.start();
+  settlementWorker.start();
+  requirementRegistry.start();
+
+  expiryTimer = setInterval(() => {
+    statusService
+      .expireStalePayments()
+      .catch((error) => logger.error('Payment expiry sweep failed', { error }));
+  }, 60_000);
+  expiryTimer.unref();
+
+  server = app.listen(config.port, () => {
+    logger.info('x402 facilitator listening', {
+      port: config.port,
+      environment: config.nodeEnv,
+      network: 'push-chain-donut-testnet',
+    });
+  });
+}
+
+start().catch((error) => {
+  logger.error('Failed to start facilitator', { error });
+  process.exit(1);
+});
+
+// Key rotation: reload signers from their source without a restart
+process.on('SIGHUP', () => {
+  logger.info('SIGHUP received, reloading facilitator signers');
+  getSignerPool()
+    .load()
+    .catch((error) => logger.error('Failed to reload facilitator signers', { error }));
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+  logger.info('SIGTERM received, shutting down gracefully');
+  stopTransactionManagers();
+  webhookService.stop();
+  settlementWorker.stop();
+  requirementRegistry.stop();
+  clearInterval(expiryTimer);
+  if (!server) {
+    process.exit(0);
+  }
   server.close(() => {
-    console.log('Server closed');
+    logger.info('Server closed');
     process.exit(0);
   });
 });
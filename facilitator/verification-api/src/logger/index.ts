@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+// `silent` is only a threshold: it is above every entry's level
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+// Secrets and payment credentials: signatures, X-PAYMENT headers, keys
+const REDACTED_KEYS = new Set([
+  'signature',
+  'paymentheader',
+  'x-payment',
+  'privatekey',
+  'apikey',
+  'x-api-key',
+  'secret',
+  'token',
+  'password',
+]);
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Fields attached to every entry logged while handling a request or job
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with extra fields (e.g. requestId) on every entry it logs,
+ * including from the services and async work it starts
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Request ID of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return context.getStore()?.requestId as string | undefined;
+}
+
+/**
+ * Structured JSON logger
+ * One JSON object per line: time, level, msg, context fields, then entry fields
+ */
+export class Logger {
+  constructor(private bindings: LogFields = {}) {}
+
+  /**
+   * Logger that adds `bindings` to every entry
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    const threshold = LEVELS[config.logging.level as LogLevel | 'silent'] ?? LEVELS.info;
+    if (LEVELS[level] < threshold) {
+      return;
+    }
+
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...context.getStore(),
+      ...this.bindings,
+      ...fields,
+    });
+
+    const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+export const logger = new Logger();
+
+/**
+ * Copy a value for logging: secrets replaced, errors and bigints made serializable
+ */
+function redact(value: unknown, depth: number = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return serializeError(value, depth, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    // `authorization` is also the (public) EIP-3009 authorization object
+    const secret =
+      REDACTED_KEYS.has(key.toLowerCase()) ||
+      (key.toLowerCase() === 'authorization' && typeof field === 'string');
+    copy[key] = secret && field != null ? REDACTED : redact(field, depth + 1, seen);
+  }
+  return copy;
+}
+
+/**
+ * Errors keep their name, message, code and details, but not request data:
+ * ethers errors embed calldata (and so signatures) in `message`, `info` and
+ * `transaction`
+ */
+function serializeError(error: Error, depth: number, seen: WeakSet<object>): LogFields {
+  const { shortMessage, code, details } = error as Error & {
+    shortMessage?: string;
+    code?: unknown;
+    details?: unknown;
+  };
+  return {
+    name: error.name,
+    message: shortMessage ?? error.message,
+    ...(code !== undefined && { code }),
+    ...(details !== undefined && { details: redact(details, depth + 1, seen) }),
+    stack: error.stack?.split('\n').slice(1).join('\n').trim(),
+  };
+}
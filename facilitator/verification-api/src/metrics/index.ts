@@ -0,0 +1,83 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+/**
+ * Prometheus metrics, served on /metrics
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+/**
+ * Verification results; `reason` is the errorCode, or invalidReason for checks without one
+ */
+export const verificationsTotal = new Counter({
+  name: 'x402_verifications_total',
+  help: 'Payment verifications by outcome (valid, invalid, error) and reason',
+  labelNames: ['outcome', 'reason'] as const,
+  registers: [metricsRegistry],
+});
+
+export const settlementsTotal = new Counter({
+  name: 'x402_settlements_total',
+  help: 'Settlements by network, asset and outcome (settled, escrowed, pending_confirmation, failed)',
+  labelNames: ['network', 'asset', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const settledAmountTotal = new Counter({
+  name: 'x402_settled_amount_total',
+  help: 'Amount settled to each merchant, in whole tokens of the asset',
+  labelNames: ['merchant', 'asset'] as const,
+  registers: [metricsRegistry],
+});
+
+export const onchainTxDuration = new Histogram({
+  name: 'x402_onchain_tx_duration_seconds',
+  help: 'Time from sending a facilitator transaction to its receipt',
+  labelNames: ['method', 'outcome'] as const,
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [metricsRegistry],
+});
+
+export const txReplacementsTotal = new Counter({
+  name: 'x402_tx_replacements_total',
+  help: 'Stuck facilitator transactions re-sent with higher fees',
+  labelNames: ['method'] as const,
+  registers: [metricsRegistry],
+});
+
+export const rpcRequestsTotal = new Counter({
+  name: 'x402_rpc_requests_total',
+  help: 'JSON-RPC requests sent per network',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry],
+});
+
+export const rpcErrorsTotal = new Counter({
+  name: 'x402_rpc_errors_total',
+  help: 'JSON-RPC requests per network that failed without a response',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry],
+});
+
+export const walletBalance = new Gauge({
+  name: 'x402_facilitator_wallet_balance',
+  help: 'Facilitator wallet balance in the network\'s native currency',
+  labelNames: ['network', 'address'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Time an on-chain transaction, from sending it to its receipt
+ */
+export async function timeTransaction<T>(method: string, send: () => Promise<T>): Promise<T> {
+  const end = onchainTxDuration.startTimer({ method });
+  try {
+    const result = await send();
+    end({ outcome: 'success' });
+    return result;
+  } catch (error) {
+    end({ outcome: 'failure' });
+    throw error;
+  }
+}
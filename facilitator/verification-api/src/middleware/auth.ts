@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { AppError } from './errorHandler';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { ApiKeyRecord } from '../store';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyRecord;
+    }
+  }
+}
+
+const apiKeyService = new ApiKeyService();
+
+/**
+ * Require a valid merchant API key
+ * Also enforces the key's CORS origin allowlist
+ */
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  if (!config.api.requireApiKey) {
+    return next();
+  }
+
+  return requireMerchantKey(req, res, next);
+}
+
+/**
+ * Require a valid merchant API key even when REQUIRE_API_KEY is off
+ * For endpoints that act as the merchant: escrow release and refund, webhooks and
+ * payment history
+ */
+export async function requireMerchantKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = req.get(config.api.keyHeader);
+    if (!key) {
+      throw new AppError(ErrorCode.UNAUTHORIZED, `Missing ${config.api.keyHeader} header`, 401);
+    }
+
+    const apiKey = await apiKeyService.authenticate(key);
+    if (!apiKey) {
+      throw new AppError(ErrorCode.UNAUTHORIZED, 'Invalid or revoked API key', 401);
+    }
+
+    // Browser requests must come from an origin allowed for this key
+    const origin = req.get('Origin');
+    if (origin && apiKey.allowedOrigins.length > 0) {
+      if (!apiKey.allowedOrigins.includes(origin)) {
+        throw new AppError(ErrorCode.FORBIDDEN, `Origin ${origin} not allowed for this API key`, 403);
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.vary('Origin');
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require the admin key (Authorization: Bearer <ADMIN_API_KEY>)
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = req.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+
+  if (!config.api.adminKey || !safeEqual(token, config.api.adminKey)) {
+    return next(new AppError(ErrorCode.UNAUTHORIZED, 'Invalid admin credentials', 401));
+  }
+
+  next();
+}
+
+/**
+ * Require the metrics bearer token, when one is configured
+ */
+export function requireMetricsToken(req: Request, res: Response, next: NextFunction) {
+  const token = req.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+
+  if (config.metrics.token && !safeEqual(token, config.metrics.token)) {
+    return next(new AppError(ErrorCode.UNAUTHORIZED, 'Invalid metrics credentials', 401));
+  }
+
+  next();
+}
+
+/**
+ * Ensure the authenticated key belongs to the given merchant
+ */
+export function assertMerchant(req: Request, merchant: string) {
+  if (req.apiKey && req.apiKey.merchant.toLowerCase() !== merchant?.toLowerCase()) {
+    throw new AppError(
+      ErrorCode.FORBIDDEN,
+      'API key is not authorized for this merchant',
+      403
+    );
+  }
+}
+
+/**
+ * Merchant for the request: always the authenticated API key's merchant
+ * Only for routes behind requireMerchantKey
+ */
+export function getMerchant(req: Request): string {
+  if (!req.apiKey) {
+    throw new AppError(ErrorCode.UNAUTHORIZED, `Missing ${config.api.keyHeader} header`, 401);
+  }
+
+  return req.apiKey.merchant;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
@@ -1,36 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiError, ErrorCode } from '../types';
+import { logger } from '../logger';
 
 export class AppError extends Error {
   constructor(
     public code: ErrorCode,
     public message: string,
     public statusCode: number = 400,
-    public details?: any
+    public details?: unknown
   ) {
     super(message);
     this.name = 'AppError';
   }
 }
 
+/**
+ * Render an AppError as an API error body
+ * Server error details (RPC errors, stack traces) are only logged, never returned
+ */
+export function toApiError(err: AppError): ApiError {
+  return {
+    code: err.code,
+    message: err.message,
+    details: err.statusCode >= 500 ? undefined : err.details,
+    timestamp: Date.now(),
+  };
+}
+
 export function errorHandler(
   err: Error | AppError,
   req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction
 ) {
-  console.error('Error:', err);
-
   if (err instanceof AppError) {
-    const response: ApiError = {
-      code: err.code,
-      message: err.message,
-      details: err.details,
-      timestamp: Date.now(),
-    };
-    return res.status(err.statusCode).json(response);
+    if (err.statusCode >= 500) {
+      // Logged with its details, which the response leaves out
+      logger.error('Request failed', { error: err });
+    } else {
+      logger.warn('Request rejected', { code: err.code, message: err.message });
+    }
+    return res.status(err.statusCode).json(toApiError(err));
   }
 
+  logger.error('Unhandled error', { error: err });
+
   // Default error
   const response: ApiError = {
     code: ErrorCode.INTERNAL_ERROR,
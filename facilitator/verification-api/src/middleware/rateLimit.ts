@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorCode } from '../types';
+import { AppError } from './errorHandler';
+import { getRateLimitStore } from '../store';
+import { logger } from '../logger';
+
+export interface RateLimitOptions {
+  name: string; // Budget name, e.g. 'ip', 'verify', 'settle'
+  max: number;
+  windowMs: number;
+  by: 'ip' | 'apiKey'; // apiKey falls back to the client IP when unauthenticated
+}
+
+/**
+ * Fixed-window rate limiter
+ * Sets RateLimit-Limit/Remaining/Reset headers and Retry-After when exceeded
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const store = getRateLimitStore();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const identity =
+      options.by === 'apiKey' && req.apiKey ? `key:${req.apiKey.id}` : `ip:${req.ip}`;
+
+    let counter;
+    try {
+      counter = await store.increment(`${options.name}:${identity}`, options.windowMs);
+    } catch (error) {
+      // Fail open: a broken rate limit backend should not take the API down
+      logger.error('Rate limit backend error', { error });
+      return next();
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((counter.resetAt - Date.now()) / 1000));
+    res.setHeader('RateLimit-Limit', options.max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, options.max - counter.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (counter.count > options.max) {
+      res.setHeader('Retry-After', resetSeconds);
+      return next(
+        new AppError(
+          ErrorCode.RATE_LIMIT_EXCEEDED,
+          `Rate limit exceeded for ${options.name}. Retry in ${resetSeconds}s`,
+          429,
+          { limit: options.max, windowMs: options.windowMs, retryAfter: resetSeconds }
+        )
+      );
+    }
+
+    next();
+  };
+}
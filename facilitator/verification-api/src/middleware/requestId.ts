@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger, withLogContext } from '../logger';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller-supplied IDs are logged, so only accept plain tokens
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Accept the caller's X-Request-Id (or assign one), return it on the response
+ * and attach it to everything logged while handling the request
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const header = req.get(REQUEST_ID_HEADER);
+  const id = header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+
+  req.requestId = id;
+  res.set(REQUEST_ID_HEADER, id);
+
+  const startedAt = Date.now();
+  res.on('finish', () => {
+    logger.info('Request completed', {
+      requestId: id,
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+    });
+  });
+
+  withLogContext({ requestId: id }, next);
+}
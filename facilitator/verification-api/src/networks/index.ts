@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCode, NetworkConfig } from '../types';
+import { rpcErrorsTotal, rpcRequestsTotal } from '../metrics';
+
+/**
+ * Network the registry, escrow and token manager contracts live on
+ */
+export const SETTLEMENT_NETWORK = 'push-chain';
+
+const providers = new Map<string, ethers.AbstractProvider>();
+
+/**
+ * All networks the facilitator accepts payments on
+ */
+export function listNetworks(): readonly NetworkConfig[] {
+  return config.networks;
+}
+
+/**
+ * Look up a network by ID (e.g. "base-sepolia") or CAIP-2 ID (e.g. "eip155:84532")
+ */
+export function findNetwork(id: string): NetworkConfig | undefined {
+  return config.networks.find((network) => network.id === id || network.caip2 === id);
+}
+
+/**
+ * Look up a network, rejecting unknown networks
+ */
+export function getNetwork(id: string): NetworkConfig {
+  const network = findNetwork(id);
+  if (!network) {
+    throw new AppError(ErrorCode.UNSUPPORTED_NETWORK, `Unsupported network: ${id}`, 400, {
+      supported: config.networks.map((entry) => entry.id),
+    });
+  }
+  return network;
+}
+
+/**
+ * Shared provider for a network
+ * Multiple RPC URLs are combined into a fallback provider, tried in order
+ */
+export function getNetworkProvider(id: string): ethers.AbstractProvider {
+  const network = getNetwork(id);
+
+  let provider = providers.get(network.id);
+  if (!provider) {
+    const rpcProviders = network.rpcUrls.map((url) => {
+      const rpcProvider = new ethers.JsonRpcProvider(url, network.chainId, {
+        staticNetwork: true, // Prevent network detection calls
+      });
+      countRpcRequests(network.id, rpcProvider);
+      return rpcProvider;
+    });
+
+    provider =
+      rpcProviders.length === 1
+        ? rpcProviders[0]
+        : new ethers.FallbackProvider(
+            rpcProviders.map((rpcProvider, index) => ({ provider: rpcProvider, priority: index + 1 })),
+            network.chainId,
+            { quorum: 1 }
+          );
+    providers.set(network.id, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Count requests and transport failures for the RPC metrics
+ * JSON-RPC error responses such as reverts are answers, not failures
+ */
+function countRpcRequests(network: string, provider: ethers.JsonRpcProvider): void {
+  void provider.on('debug', (event: { action: string; payload?: unknown }) => {
+    if (event.action === 'sendRpcPayload') {
+      rpcRequestsTotal.inc({ network }, Array.isArray(event.payload) ? event.payload.length : 1);
+    } else if (event.action === 'receiveRpcError') {
+      rpcErrorsTotal.inc({ network });
+    }
+  });
+}
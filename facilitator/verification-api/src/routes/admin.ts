@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { getSignerPool } from '../signers';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCode } from '../types';
+
+const router = Router();
+const apiKeyService = new ApiKeyService();
+
+/**
+ * POST /api/v1/admin/keys
+ * Issue an API key bound to a merchant address
+ */
+router.post('/keys', async (req, res, next) => {
+  try {
+    const { merchant, name, allowedOrigins } = req.body;
+
+    // Validate request
+    if (!merchant) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Missing required field: merchant');
+    }
+
+    if (
+      allowedOrigins !== undefined &&
+      (!Array.isArray(allowedOrigins) || allowedOrigins.some((origin) => typeof origin !== 'string'))
+    ) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'allowedOrigins must be an array of strings');
+    }
+
+    const result = await apiKeyService.issueKey({ merchant, name, allowedOrigins });
+
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/admin/keys
+ * List API keys (optionally ?merchant=0x...)
+ */
+router.get('/keys', async (req, res, next) => {
+  try {
+    const merchant = typeof req.query.merchant === 'string' ? req.query.merchant : undefined;
+    const keys = await apiKeyService.listKeys(merchant);
+
+    res.json({ keys });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/admin/keys/:id
+ * Revoke an API key
+ */
+router.delete('/keys/:id', async (req, res, next) => {
+  try {
+    await apiKeyService.revokeKey(req.params.id);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/admin/signers
+ * List facilitator signers with their pending transaction counts
+ */
+router.get('/signers', (req, res, next) => {
+  try {
+    res.json({ signers: getSignerPool().list() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/admin/signers/reload
+ * Reload signers from their source (key rotation); the current signers stay on failure
+ */
+router.post('/signers/reload', async (req, res, next) => {
+  try {
+    const signers = await getSignerPool()
+      .load()
+      .catch((error) => {
+        throw new AppError(
+          ErrorCode.SIGNER_RELOAD_FAILED,
+          `Signer reload failed: ${error.message}`,
+          500
+        );
+      });
+
+    res.json({ signers });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as adminRouter };
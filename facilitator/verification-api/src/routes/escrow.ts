@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { EscrowService } from '../services/EscrowService';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCode } from '../types';
+
+const router = Router();
+const escrowService = new EscrowService();
+
+/**
+ * Escrow IDs and payment IDs are both bytes32
+ */
+function validateId(id: string) {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(id)) {
+    throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid escrow ID format');
+  }
+}
+
+/**
+ * POST /api/v1/escrow/:id/release
+ * Release escrowed funds to the merchant (always requires the merchant's API key)
+ * Accepts the escrow ID or the payment ID
+ */
+router.post('/:id/release', async (req, res, next) => {
+  try {
+    validateId(req.params.id);
+
+    const status = await escrowService.release(req.params.id, req.apiKey!.merchant);
+
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/escrow/:id/refund
+ * Refund escrowed funds to the payer
+ */
+router.post('/:id/refund', async (req, res, next) => {
+  try {
+    validateId(req.params.id);
+
+    const status = await escrowService.refund(req.params.id, req.apiKey!.merchant);
+
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as escrowRouter };
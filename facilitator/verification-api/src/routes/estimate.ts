@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { GasEstimationService } from '../services/GasEstimationService';
+import { AppError } from '../middleware/errorHandler';
+import { assertMerchant } from '../middleware/auth';
+import { ErrorCode, PaymentRequirements } from '../types';
+import { decodePayment, listSchemeHandlers } from '../schemes';
+
+const router = Router();
+const gasEstimationService = new GasEstimationService();
+
+/**
+ * POST /api/v1/estimate
+ * Estimate the cost of settling a payment
+ *
+ * Accepts either `paymentRequirements` (with an optional `paymentHeader` to
+ * simulate a specific authorization) or the shorthand `{ network, asset, amount }`,
+ * optionally with `scheme` (defaults to the first scheme registered for the network)
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const { paymentHeader, network, asset, amount, payTo, resource, scheme } = req.body;
+    let { paymentRequirements } = req.body;
+
+    if (!paymentRequirements) {
+      // Validate request
+      if (!network || !asset || !amount) {
+        throw new AppError(
+          ErrorCode.INVALID_REQUEST,
+          'Missing required fields: paymentRequirements, or network, asset, amount'
+        );
+      }
+
+      const merchant = payTo ?? req.apiKey?.merchant;
+      if (!merchant) {
+        throw new AppError(ErrorCode.INVALID_REQUEST, 'Missing required field: payTo');
+      }
+
+      paymentRequirements = {
+        scheme: scheme ?? listSchemeHandlers(network)[0]?.scheme ?? 'exact',
+        network,
+        maxAmountRequired: String(amount),
+        resource: resource ?? '/',
+        description: '',
+        mimeType: 'application/json',
+        payTo: merchant,
+        maxTimeoutSeconds: 3600,
+        asset,
+      } satisfies PaymentRequirements;
+    }
+
+    // Amounts are integers in the token's smallest unit
+    if (!/^\d+$/.test(String(paymentRequirements.maxAmountRequired))) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        'Invalid amount: expected an integer in the token\'s smallest unit'
+      );
+    }
+
+    assertMerchant(req, paymentRequirements.payTo);
+
+    const paymentPayload = paymentHeader ? decodePayment(paymentHeader).paymentPayload : undefined;
+    const estimate = await gasEstimationService.estimateSettlement(
+      paymentRequirements,
+      paymentPayload
+    );
+
+    res.json(estimate);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as estimateRouter };
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { HealthService } from '../services/HealthService';
+
+const router = Router();
+const healthService = new HealthService();
+
+/**
+ * GET /health
+ * Basic status, kept for existing monitors
+ */
+router.get('/', (req, res) => {
+  res.json({
+    status: 'ok',
+    timestamp: Date.now(),
+    version: '0.1.0',
+    network: 'push-chain-donut-testnet',
+  });
+});
+
+/**
+ * GET /health/live
+ * Liveness: the process is up and serving requests, no dependencies checked
+ */
+router.get('/live', (req, res) => {
+  res.json({
+    status: 'ok',
+    timestamp: Date.now(),
+    uptime: Math.floor(process.uptime()),
+  });
+});
+
+/**
+ * GET /health/ready
+ * Readiness: 503 when a critical dependency is down, 200 (possibly degraded) otherwise
+ */
+router.get('/ready', async (req, res, next) => {
+  try {
+    const health = await healthService.checkReadiness();
+    res.status(health.status === 'unavailable' ? 503 : 200).json(health);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as healthRouter };
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { ethers } from 'ethers';
+import { StatusService } from '../services/StatusService';
+import { AppError } from '../middleware/errorHandler';
+import { assertMerchant } from '../middleware/auth';
+import { ErrorCode, PaymentHistoryQuery, PaymentStatus } from '../types';
+
+const router = Router();
+const statusService = new StatusService();
+
+const STATUSES: PaymentStatus['status'][] = [
+  'pending',
+  'verified',
+  'settling',
+  'escrowed',
+  'releasing',
+  'refunding',
+  'settled',
+  'refunded',
+  'failed',
+  'expired',
+];
+
+/**
+ * Parse an optional non-negative integer query parameter
+ */
+function parseInteger(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new AppError(ErrorCode.INVALID_REQUEST, `Invalid ${name}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * GET /api/v1/merchants/:address/payments
+ * List payments recorded for a merchant
+ */
+router.get('/:address/payments', async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const { status, resource, payer } = req.query;
+
+    // Validate request
+    if (!ethers.isAddress(address)) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid merchant address');
+    }
+
+    assertMerchant(req, address);
+
+    if (status !== undefined && !STATUSES.includes(status as PaymentStatus['status'])) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid status. Expected one of: ${STATUSES.join(', ')}`
+      );
+    }
+
+    if (payer !== undefined && (typeof payer !== 'string' || !ethers.isAddress(payer))) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid payer address');
+    }
+
+    if (resource !== undefined && typeof resource !== 'string') {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid resource');
+    }
+
+    const page = parseInteger(req.query.page, 'page') ?? 1;
+    const limit = parseInteger(req.query.limit, 'limit') ?? 20;
+
+    if (page < 1 || limit < 1 || limit > 100) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        'page must be at least 1 and limit between 1 and 100'
+      );
+    }
+
+    const query: PaymentHistoryQuery = {
+      page,
+      limit,
+      status: status as PaymentStatus['status'] | undefined,
+      resource,
+      payer,
+      from: parseInteger(req.query.from, 'from'),
+      to: parseInteger(req.query.to, 'to'),
+    };
+
+    const history = await statusService.listMerchantPayments(ethers.getAddress(address), query);
+
+    res.json(history);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as merchantsRouter };
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { ethers } from 'ethers';
+import { ContractService } from '../contracts/ContractService';
+import { metricsRegistry, settledAmountTotal, walletBalance } from '../metrics';
+import { getNetwork, SETTLEMENT_NETWORK } from '../networks';
+import { paymentEvents } from '../events';
+import { getSignerPool } from '../signers';
+import { logger } from '../logger';
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+const router = Router();
+const contractService = new ContractService();
+
+// Token decimals by asset, looked up once
+const assetDecimals = new Map<string, number>();
+
+/**
+ * GET /metrics
+ * Prometheus metrics
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    await updateWalletBalance();
+
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Refresh the signer balances; the last values are kept if the RPC fails
+ */
+async function updateWalletBalance(): Promise<void> {
+  const { nativeCurrency } = getNetwork(SETTLEMENT_NETWORK);
+  await Promise.all(
+    getSignerPool()
+      .listActive()
+      .map(async ({ address }) => {
+        try {
+          const balance = await contractService.getProvider().getBalance(address);
+          walletBalance.set(
+            { network: SETTLEMENT_NETWORK, address },
+            Number(ethers.formatUnits(balance, nativeCurrency.decimals))
+          );
+        } catch (error) {
+          logger.warn('Could not read facilitator balance', { address, error });
+        }
+      })
+  );
+}
+
+/**
+ * Decimals of a settled asset
+ * Token decimals come from the token manager; the native currency's from the network
+ */
+async function getDecimals(asset: string, network: string): Promise<number> {
+  if (asset === NATIVE_TOKEN) {
+    return getNetwork(network).nativeCurrency.decimals;
+  }
+
+  let decimals = assetDecimals.get(asset);
+  if (decimals === undefined) {
+    const info = await contractService.getTokenInfo(asset);
+    if (info.tokenAddress.toLowerCase() !== asset) {
+      throw new Error(`Token ${asset} is not in the token manager`);
+    }
+    decimals = info.decimals;
+    assetDecimals.set(asset, decimals);
+  }
+  return decimals;
+}
+
+// Settled amounts are counted in whole tokens: atomic amounts exceed a float's exact
+// range. Escrowed payments count once released to the merchant
+paymentEvents.subscribe((event) => {
+  if (event.type !== 'payment.settled') {
+    return;
+  }
+
+  const asset = event.data.asset.toLowerCase();
+  getDecimals(asset, event.data.network)
+    .then((decimals) =>
+      settledAmountTotal.inc(
+        { merchant: event.merchant.toLowerCase(), asset },
+        Number(ethers.formatUnits(event.data.amount, decimals))
+      )
+    )
+    .catch((error) =>
+      logger.warn('Could not count settled amount', { paymentId: event.paymentId, error })
+    );
+});
+
+export { router as metricsRouter };
@@ -1,18 +1,38 @@
 import { Router } from 'express';
+import { ethers } from 'ethers';
 import { SettlementService } from '../services/SettlementService';
+import { IdempotencyService } from '../services/IdempotencyService';
 import { AppError } from '../middleware/errorHandler';
-import { ErrorCode } from '../types';
+import { assertMerchant } from '../middleware/auth';
+import { ErrorCode, SettlementResponse } from '../types';
 
 const router = Router();
 const settlementService = new SettlementService();
+const idempotencyService = new IdempotencyService();
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
 
 /**
  * POST /api/v1/settle
  * Verify and settle a payment on-chain
+ *
+ * Idempotent per merchant: the `Idempotency-Key` header (defaulting to a hash
+ * of the payment header) maps retries to the original settlement result
+ *
+ * Send `"async": true` (or `Prefer: respond-async`) to get a 202 with the
+ * paymentId as soon as the payment is verified; a background worker settles it
+ *
+ * `validateRequirements` checks the requirements against the on-chain registry
+ * before anything is sent
+ *
+ * A source transaction without enough confirmations yields a 202 with status
+ * `pending_confirmation` and `Retry-After`; nothing is recorded on-chain
  */
 router.post('/', async (req, res, next) => {
   try {
-    const { x402Version, paymentHeader, paymentRequirements, paymentId } = req.body;
+    const { x402Version, paymentHeader, paymentRequirements, paymentId, validateRequirements } =
+      req.body;
+    const async = req.body.async === true || /respond-async/i.test(req.header('Prefer') ?? '');
 
     // Validate request
     if (!x402Version || !paymentHeader || !paymentRequirements) {
@@ -22,15 +42,51 @@ router.post('/', async (req, res, next) => {
       );
     }
 
+    // Keys may only settle payments to their own merchant address
+    assertMerchant(req, paymentRequirements.payTo);
+
+    const idempotencyKey = req.header('Idempotency-Key') ?? ethers.id(paymentHeader);
+    if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid Idempotency-Key header');
+    }
+
     // Settle payment
-    const result = await settlementService.settlePayment({
-      x402Version,
-      paymentHeader,
-      paymentRequirements,
-      paymentId: paymentId || '',
-    });
-
-    res.json(result);
+    const { statusCode, body, replayed } = await idempotencyService.run(
+      `${String(paymentRequirements.payTo).toLowerCase()}:${idempotencyKey}`,
+      ethers.id(JSON.stringify({ paymentHeader, paymentRequirements })),
+      async () => {
+        const request = {
+          x402Version,
+          paymentHeader,
+          paymentRequirements,
+          paymentId: paymentId || '',
+          validateRequirements:
+            typeof validateRequirements === 'boolean' ? validateRequirements : undefined,
+        };
+
+        if (async) {
+          return { statusCode: 202, body: await settlementService.enqueueSettlement(request) };
+        }
+
+        // Unconfirmed source transactions are not recorded; the client retries later
+        const result = await settlementService.settlePayment(request);
+        return result.status === 'pending_confirmation'
+          ? { statusCode: 202, body: result, retryable: true }
+          : { statusCode: 200, body: result };
+      }
+    );
+
+    if (replayed) {
+      res.setHeader('Idempotent-Replayed', 'true');
+    }
+    const settlement = body as SettlementResponse;
+    if (statusCode === 202) {
+      res.setHeader('Location', `/api/v1/status/${settlement.paymentId}`);
+    }
+    if (settlement.retryAfter) {
+      res.setHeader('Retry-After', String(settlement.retryAfter));
+    }
+    res.status(statusCode).json(body);
   } catch (error) {
     next(error);
   }
@@ -23,7 +23,13 @@ router.get('/:paymentId', async (req, res, next) => {
 
     const status = await statusService.getPaymentStatus(paymentId);
 
-    if (!status) {
+    // Hide payments that belong to another merchant. Registry-only records carry
+    // no payee, so they are hidden from keyed requests too
+    const foreign =
+      status && req.apiKey &&
+      status.payee.toLowerCase() !== req.apiKey.merchant.toLowerCase();
+
+    if (!status || foreign) {
       throw new AppError(
         ErrorCode.PAYMENT_NOT_FOUND,
         'Payment not found',
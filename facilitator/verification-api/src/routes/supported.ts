@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { config } from '../config';
+import { SupportedService } from '../services/SupportedService';
+
+const router = Router();
+const supportedService = new SupportedService();
+
+/**
+ * GET /api/v1/supported
+ * Supported schemes, networks and tokens
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const supported = await supportedService.getSupported();
+
+    res.set('Cache-Control', `public, max-age=${Math.floor(config.supported.cacheTtlMs / 1000)}`);
+    res.json(supported);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as supportedRouter };
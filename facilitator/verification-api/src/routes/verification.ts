@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { VerificationService } from '../services/VerificationService';
 import { AppError } from '../middleware/errorHandler';
+import { assertMerchant } from '../middleware/auth';
 import { ErrorCode } from '../types';
 
 const router = Router();
@@ -9,10 +10,11 @@ const verificationService = new VerificationService();
 /**
  * POST /api/v1/verify
  * Verify a payment without settling it
+ * `validateRequirements` also checks the requirements against the on-chain registry
  */
 router.post('/', async (req, res, next) => {
   try {
-    const { x402Version, paymentHeader, paymentRequirements } = req.body;
+    const { x402Version, paymentHeader, paymentRequirements, validateRequirements } = req.body;
 
     // Validate request
     if (!x402Version || !paymentHeader || !paymentRequirements) {
@@ -22,11 +24,16 @@ router.post('/', async (req, res, next) => {
       );
     }
 
+    // Keys may only verify payments to their own merchant address
+    assertMerchant(req, paymentRequirements.payTo);
+
     // Verify payment
     const result = await verificationService.verifyPayment({
       x402Version,
       paymentHeader,
       paymentRequirements,
+      validateRequirements:
+        typeof validateRequirements === 'boolean' ? validateRequirements : undefined,
     });
 
     res.json(result);
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { WebhookService } from '../services/WebhookService';
+import { AppError } from '../middleware/errorHandler';
+import { getMerchant } from '../middleware/auth';
+import { ErrorCode } from '../types';
+
+const router = Router();
+const webhookService = new WebhookService();
+
+/**
+ * POST /api/v1/webhooks
+ * Register a webhook endpoint
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const { url, events } = req.body;
+
+    // Validate request
+    if (!url || !Array.isArray(events)) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Missing required fields: url, events');
+    }
+
+    const result = await webhookService.registerEndpoint(getMerchant(req), url, events);
+
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/webhooks
+ * List webhook endpoints
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const endpoints = await webhookService.listEndpoints(getMerchant(req));
+
+    res.json({ endpoints });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/webhooks/:id
+ * Remove a webhook endpoint
+ */
+router.delete('/:id', async (req, res, next) => {
+  try {
+    await webhookService.deleteEndpoint(getMerchant(req), req.params.id);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/:id/deliveries
+ * Delivery log for an endpoint
+ */
+router.get('/:id/deliveries', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit ?? '50'), 10) || 50, 200);
+    const deliveries = await webhookService.listDeliveries(getMerchant(req), req.params.id, limit);
+
+    res.json({ deliveries });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Manually re-send a delivery
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', async (req, res, next) => {
+  try {
+    const delivery = await webhookService.redeliver(
+      getMerchant(req),
+      req.params.id,
+      req.params.deliveryId
+    );
+
+    res.json(delivery);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as webhooksRouter };
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { Hex, serializeErc6492Signature } from 'viem';
+import { config } from '../config';
+import { ErrorCode, PaymentPayload, PaymentRequirements } from '../types';
+import { ExactSchemeHandler } from './ExactSchemeHandler';
+
+const contract = {
+  getCode: vi.fn(),
+  deployAccount: vi.fn(),
+};
+const executePayment = vi.fn();
+
+vi.mock('../contracts/ContractService', () => ({
+  ContractService: class {
+    getProvider = () => ({ getCode: contract.getCode });
+    deployAccount = contract.deployAccount;
+  },
+}));
+vi.mock('../services/PaymentExecutor', () => ({
+  PaymentExecutor: class {
+    executePayment = executePayment;
+  },
+}));
+vi.mock('../services/DomainService', () => ({
+  DomainService: class {},
+}));
+
+const FACTORY = ethers.Wallet.createRandom().address;
+const FACTORY_CALLDATA = '0x12345678';
+const INNER_SIGNATURE = ethers.hexlify(ethers.randomBytes(65));
+const PAYEE = ethers.Wallet.createRandom().address;
+
+function makePayload(factory: string): PaymentPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'push-chain',
+    payload: {
+      signature: serializeErc6492Signature({
+        address: factory as Hex,
+        data: FACTORY_CALLDATA,
+        signature: INNER_SIGNATURE as Hex,
+      }),
+      authorization: {
+        from: ethers.Wallet.createRandom().address,
+        to: PAYEE,
+        value: '1000',
+        validAfter: String(now - 10),
+        validBefore: String(now + 60),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+      },
+    },
+  };
+}
+
+const requirements = {
+  scheme: 'exact',
+  network: 'push-chain',
+  maxAmountRequired: '1000',
+  payTo: PAYEE,
+  asset: ethers.Wallet.createRandom().address,
+} as PaymentRequirements;
+
+describe('ExactSchemeHandler.settle', () => {
+  let handler: ExactSchemeHandler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handler = new ExactSchemeHandler();
+    config.verification.erc6492Factories.splice(0, Infinity, FACTORY);
+    contract.getCode.mockResolvedValue('0x');
+    contract.deployAccount.mockResolvedValue('0xdeploy');
+    executePayment.mockResolvedValue({ txHash: '0xtransfer' });
+  });
+
+  it('deploys an undeployed payer through an allowed factory', async () => {
+    const result = await handler.settle(makePayload(FACTORY), requirements, PAYEE);
+
+    expect(result).toEqual({ status: 'transferred', txHash: '0xtransfer' });
+    expect(contract.deployAccount).toHaveBeenCalledWith(FACTORY, FACTORY_CALLDATA);
+    expect(executePayment).toHaveBeenCalledWith(
+      expect.anything(),
+      INNER_SIGNATURE,
+      requirements.asset
+    );
+  });
+
+  it('rejects undeployed payers of other factories', async () => {
+    const other = ethers.Wallet.createRandom().address;
+
+    await expect(handler.settle(makePayload(other), requirements, PAYEE)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+      message: `Account factory ${other} is not allowed`,
+    });
+    expect(contract.deployAccount).not.toHaveBeenCalled();
+    expect(executePayment).not.toHaveBeenCalled();
+  });
+
+  it('skips the deployment once the payer has code', async () => {
+    contract.getCode.mockResolvedValue('0x6080');
+
+    await handler.settle(makePayload(ethers.Wallet.createRandom().address), requirements, PAYEE);
+
+    expect(contract.deployAccount).not.toHaveBeenCalled();
+    expect(executePayment).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import { Hex, isErc6492Signature, parseErc6492Signature } from 'viem';
+import { config } from '../config';
+import { ContractService } from '../contracts/ContractService';
+import { PaymentExecutor } from '../services/PaymentExecutor';
+import { DomainService } from '../services/DomainService';
+import {
+  ErrorCode,
+  GasEstimateStep,
+  HealthCheck,
+  PaymentPayload,
+  PaymentRequirements,
+  VerificationResponse,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { SETTLEMENT_NETWORK } from '../networks';
+import { decodePaymentHeader, validateAuthorizationPayload } from '../utils/payment';
+import {
+  checkRequestedDomain,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  verifyAuthorizationSignature,
+} from './signature';
+import { SchemeHandler, SchemeSettlement } from './types';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'ExactSchemeHandler' });
+
+// Gas used when the transfer cannot be simulated (e.g. no authorization yet)
+const DEFAULT_TRANSFER_GAS = 90000n;
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+/**
+ * `exact` scheme: EIP-3009 transferWithAuthorization
+ * The payer signs a TransferWithAuthorization and the facilitator submits it to
+ * the token contract, so tokens move straight from the payer to the recipient
+ */
+export class ExactSchemeHandler implements SchemeHandler {
+  readonly scheme = 'exact';
+  readonly networks = [SETTLEMENT_NETWORK];
+  readonly settlementPath = 'eip3009' as const;
+  readonly payerFunds = 'balance' as const;
+
+  private contractService: ContractService;
+  private paymentExecutor: PaymentExecutor;
+  private domainService: DomainService;
+
+  constructor() {
+    this.contractService = new ContractService();
+    this.domainService = new DomainService();
+    this.paymentExecutor = new PaymentExecutor(this.contractService.getProvider());
+  }
+
+  decode(paymentHeader: string): PaymentPayload {
+    const paymentPayload = decodePaymentHeader(paymentHeader);
+    validateAuthorizationPayload(paymentPayload);
+
+    if (paymentPayload.payload.txHash) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        'exact payments are executed by the facilitator; use the tx-proof scheme for agent-sent transactions'
+      );
+    }
+
+    return paymentPayload;
+  }
+
+  async verify(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerificationResponse> {
+    if (requirements.asset.toLowerCase() === NATIVE_TOKEN) {
+      return {
+        isValid: false,
+        invalidReason: 'The exact scheme requires an EIP-3009 token',
+      };
+    }
+
+    // The token's own domain, as transferWithAuthorization will check it
+    const domain = await this.domainService.resolveDomain(paymentPayload.network, requirements.asset);
+    if (!domain) {
+      return {
+        isValid: false,
+        invalidReason: 'Token does not expose an EIP-712 domain',
+        errorCode: ErrorCode.UNSUPPORTED_TOKEN,
+      };
+    }
+
+    const domainCheck = checkRequestedDomain(requirements, domain);
+    if (domainCheck) {
+      return domainCheck;
+    }
+
+    const signatureType = await verifyAuthorizationSignature(
+      paymentPayload,
+      domain,
+      TRANSFER_WITH_AUTHORIZATION_TYPES
+    );
+    if (!signatureType) {
+      return {
+        isValid: false,
+        invalidReason: 'Invalid signature',
+      };
+    }
+
+    // Settlement deploys the payer, which is only done through known factories
+    if (signatureType === 'erc6492') {
+      const { address: factory } = parseErc6492Signature(paymentPayload.payload.signature as Hex);
+      if (!isAllowedFactory(factory)) {
+        return {
+          isValid: false,
+          invalidReason: 'Account factory not allowed',
+        };
+      }
+    }
+
+    // EIP-3009 tokens track authorization nonces on-chain
+    const { authorization } = paymentPayload.payload;
+    const usedOnChain = await this.contractService.isAuthorizationUsed(
+      requirements.asset,
+      authorization.from,
+      authorization.nonce
+    );
+    if (usedOnChain) {
+      return {
+        isValid: false,
+        invalidReason: 'Nonce already used',
+        errorCode: ErrorCode.NONCE_USED,
+      };
+    }
+
+    return { isValid: true, invalidReason: null, signatureType };
+  }
+
+  async settle(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    recipient: string
+  ): Promise<SchemeSettlement> {
+    const { authorization } = paymentPayload.payload;
+    let { signature } = paymentPayload.payload;
+
+    // The token pays whoever the payer signed for
+    if (authorization.to.toLowerCase() !== recipient.toLowerCase()) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Authorization is made out to ${authorization.to}, expected ${recipient}`
+      );
+    }
+
+    // The token checks the unwrapped signature, so counterfactual payers are deployed first
+    if (isErc6492Signature(signature as Hex)) {
+      const wrapped = parseErc6492Signature(signature as Hex);
+      signature = wrapped.signature;
+
+      const deployed = (await this.contractService.getProvider().getCode(authorization.from)) !== '0x';
+      if (!deployed) {
+        if (!wrapped.address || !wrapped.data || !isAllowedFactory(wrapped.address)) {
+          throw new AppError(
+            ErrorCode.SETTLEMENT_FAILED,
+            `Account factory ${wrapped.address} is not allowed`
+          );
+        }
+        log.info('Deploying payer account', { account: authorization.from });
+        await this.contractService.deployAccount(wrapped.address, wrapped.data);
+      }
+    }
+
+    const { txHash } = await this.paymentExecutor.executePayment(
+      authorization,
+      signature,
+      requirements.asset
+    );
+    return { status: 'transferred', txHash };
+  }
+
+  async checkHealth(): Promise<HealthCheck[]> {
+    // Not critical: payments fall back to direct ethers.js calls
+    const status = this.paymentExecutor.getPushChainStatus();
+    return [
+      {
+        name: 'pushChainSdk',
+        status: status === 'ready' ? 'pass' : 'warn',
+        critical: false,
+        ...(status !== 'ready' && { message: `Push Chain SDK ${status}, using direct calls` }),
+        details: { status },
+      },
+    ];
+  }
+
+  async estimate(
+    requirements: PaymentRequirements,
+    paymentPayload?: PaymentPayload
+  ): Promise<GasEstimateStep[]> {
+    const method = 'transferWithAuthorization';
+    if (!paymentPayload) {
+      return [{ method, gasUnits: DEFAULT_TRANSFER_GAS.toString(), simulated: false }];
+    }
+
+    const { authorization, signature } = paymentPayload.payload;
+    try {
+      const gas = await this.contractService.estimateTransferWithAuthorization(
+        requirements.asset,
+        authorization,
+        signature
+      );
+      return [{ method, gasUnits: gas.toString(), simulated: true }];
+    } catch (error) {
+      log.warn('Could not simulate transaction, using default gas', { method, error });
+      return [{ method, gasUnits: DEFAULT_TRANSFER_GAS.toString(), simulated: false }];
+    }
+  }
+}
+
+/**
+ * Whether `factory` is listed in ERC6492_FACTORIES
+ */
+function isAllowedFactory(factory: string | undefined): boolean {
+  return (
+    !!factory &&
+    config.verification.erc6492Factories.some(
+      (allowed) => allowed.toLowerCase() === factory.toLowerCase()
+    )
+  );
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ErrorCode, PaymentPayload, PaymentRequirements } from '../types';
+import { getPaymentStore } from '../store';
+import { getPaymentId } from '../utils/payment';
+import { getNetwork } from '../networks';
+import { TxProofSchemeHandler } from './TxProofSchemeHandler';
+
+vi.mock('./signature', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./signature')>()),
+  verifyAuthorizationSignature: async () => 'eoa',
+}));
+
+const PAYEE = ethers.Wallet.createRandom().address;
+
+function makePayload(txHash: string): PaymentPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    x402Version: 1,
+    scheme: 'tx-proof',
+    network: 'push-chain',
+    payload: {
+      signature: ethers.hexlify(ethers.randomBytes(65)),
+      txHash,
+      authorization: {
+        from: ethers.Wallet.createRandom().address,
+        to: PAYEE,
+        value: '1000',
+        validAfter: String(now - 10),
+        validBefore: String(now + 60),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+      },
+    },
+  };
+}
+
+const requirements = {
+  scheme: 'tx-proof',
+  network: 'push-chain',
+  maxAmountRequired: '1000',
+  payTo: PAYEE,
+  asset: ethers.Wallet.createRandom().address,
+} as PaymentRequirements;
+
+describe('TxProofSchemeHandler.verify', () => {
+  let handler: TxProofSchemeHandler;
+  let txHash: string;
+
+  beforeEach(() => {
+    handler = new TxProofSchemeHandler();
+    txHash = ethers.hexlify(ethers.randomBytes(32));
+  });
+
+  it('rejects a transaction that already paid for another payment', async () => {
+    const network = getNetwork('push-chain').id;
+    await getPaymentStore().claimTransaction(network, txHash, getPaymentId(makePayload(txHash)));
+
+    await expect(handler.verify(makePayload(txHash), requirements)).resolves.toMatchObject({
+      isValid: false,
+      errorCode: ErrorCode.TRANSACTION_ALREADY_USED,
+    });
+  });
+
+  it('accepts the transaction again for the payment it paid for', async () => {
+    const payload = makePayload(txHash);
+    const network = getNetwork('push-chain').id;
+    await getPaymentStore().claimTransaction(network, txHash, getPaymentId(payload));
+
+    await expect(handler.verify(payload, requirements)).resolves.toMatchObject({ isValid: true });
+  });
+});
@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import {
+  ErrorCode,
+  GasEstimateStep,
+  PaymentPayload,
+  PaymentRequirements,
+  VerificationResponse,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getNetwork, listNetworks } from '../networks';
+import { SourceVerificationService } from '../services/SourceVerificationService';
+import { getPaymentStore, PaymentStore } from '../store';
+import {
+  decodePaymentHeader,
+  getPaymentId,
+  validateAuthorizationPayload,
+} from '../utils/payment';
+import {
+  AUTHORIZATION_TYPES,
+  checkRequestedDomain,
+  verifyAuthorizationSignature,
+  x402Domain,
+} from './signature';
+import { SchemeHandler, SchemeSettlement } from './types';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'TxProofSchemeHandler' });
+
+/**
+ * `tx-proof` scheme: the agent sends the transfer itself and submits its hash
+ * alongside a signed x402 Authorization. The facilitator checks the transfer
+ * on its source chain; nothing is sent to collect the funds
+ */
+export class TxProofSchemeHandler implements SchemeHandler {
+  readonly scheme = 'tx-proof';
+  readonly networks: readonly string[];
+  readonly settlementPath = 'registry' as const;
+  readonly payerFunds = 'none' as const; // Already transferred by the agent
+
+  private sourceVerificationService: SourceVerificationService;
+  private paymentStore: PaymentStore;
+
+  constructor() {
+    this.networks = listNetworks().map((network) => network.id);
+    this.sourceVerificationService = new SourceVerificationService();
+    this.paymentStore = getPaymentStore();
+  }
+
+  decode(paymentHeader: string): PaymentPayload {
+    const paymentPayload = decodePaymentHeader(paymentHeader);
+    validateAuthorizationPayload(paymentPayload);
+
+    if (!ethers.isHexString(paymentPayload.payload.txHash, 32)) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        'tx-proof payments require the transaction hash of the transfer'
+      );
+    }
+
+    return paymentPayload;
+  }
+
+  async verify(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerificationResponse> {
+    const domain = x402Domain(paymentPayload.network, requirements.asset);
+    const domainCheck = checkRequestedDomain(requirements, domain);
+    if (domainCheck) {
+      return domainCheck;
+    }
+
+    const signatureType = await verifyAuthorizationSignature(
+      paymentPayload,
+      domain,
+      AUTHORIZATION_TYPES
+    );
+    if (!signatureType) {
+      return {
+        isValid: false,
+        invalidReason: 'Invalid signature',
+      };
+    }
+
+    // The signature does not cover the transaction, so a hash that already paid for
+    // another payment is refused here rather than only at settlement
+    const owner = await this.paymentStore.findTransactionOwner(
+      getNetwork(paymentPayload.network).id,
+      paymentPayload.payload.txHash!
+    );
+    if (owner && owner !== getPaymentId(paymentPayload).toLowerCase()) {
+      return {
+        isValid: false,
+        invalidReason: 'Transaction already paid for another payment',
+        errorCode: ErrorCode.TRANSACTION_ALREADY_USED,
+      };
+    }
+
+    return { isValid: true, invalidReason: null, signatureType };
+  }
+
+  async settle(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    recipient: string
+  ): Promise<SchemeSettlement> {
+    const { authorization, txHash } = paymentPayload.payload;
+    if (!txHash) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        'Transaction hash not provided by agent'
+      );
+    }
+
+    log.info('Verifying source transaction', { txHash, network: paymentPayload.network });
+    const source = await this.sourceVerificationService.verifyTransaction(
+      txHash,
+      paymentPayload.network,
+      {
+        asset: requirements.asset,
+        from: authorization.from,
+        to: recipient,
+        amount: BigInt(authorization.value),
+        validAfter: Number(authorization.validAfter),
+        validBefore: Number(authorization.validBefore),
+      }
+    );
+    if (source.status === 'pending_confirmation') {
+      return source;
+    }
+
+    return { status: 'transferred', txHash };
+  }
+
+  async estimate(): Promise<GasEstimateStep[]> {
+    // The agent already paid for the transfer
+    return [];
+  }
+}
@@ -0,0 +1,110 @@
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCode, PaymentPayload, SupportedKind } from '../types';
+import { getNetwork } from '../networks';
+import { decodePaymentHeader } from '../utils/payment';
+import { ExactSchemeHandler } from './ExactSchemeHandler';
+import { TxProofSchemeHandler } from './TxProofSchemeHandler';
+import { SchemeHandler } from './types';
+
+export type { PayerFunds, SchemeHandler, SchemeSettlement } from './types';
+
+// Keyed by `${scheme}:${networkId}`
+const handlers = new Map<string, SchemeHandler>();
+let defaultsRegistered = false;
+
+/**
+ * Handlers by scheme and network, with the built-in schemes registered on first use
+ */
+function registry(): Map<string, SchemeHandler> {
+  if (!defaultsRegistered) {
+    defaultsRegistered = true;
+    for (const handler of [new ExactSchemeHandler(), new TxProofSchemeHandler()]) {
+      registerSchemeHandler(handler);
+    }
+  }
+  return handlers;
+}
+
+/**
+ * Register a handler for each of its networks, replacing any handler already
+ * registered for the same scheme and network
+ */
+export function registerSchemeHandler(handler: SchemeHandler): void {
+  const registered = registry();
+  for (const network of handler.networks) {
+    registered.set(`${handler.scheme}:${getNetwork(network).id}`, handler);
+  }
+}
+
+/**
+ * Look up the handler for a scheme on a network (ID or CAIP-2 ID)
+ */
+export function findSchemeHandler(scheme: string, network: string): SchemeHandler | undefined {
+  return registry().get(`${scheme}:${getNetwork(network).id}`);
+}
+
+/**
+ * Look up a handler, rejecting unregistered scheme/network pairs
+ */
+export function getSchemeHandler(scheme: string, network: string): SchemeHandler {
+  const handler = findSchemeHandler(scheme, network);
+  if (!handler) {
+    throw new AppError(
+      ErrorCode.UNSUPPORTED_SCHEME,
+      `Unsupported payment scheme: ${scheme} on ${network}`,
+      400,
+      { supported: listSchemeKinds() }
+    );
+  }
+  return handler;
+}
+
+/**
+ * Handlers registered for a network, in registration order
+ */
+export function listSchemeHandlers(network: string): SchemeHandler[] {
+  const id = getNetwork(network).id;
+  return [...registry()]
+    .filter(([key]) => key.endsWith(`:${id}`))
+    .map(([, handler]) => handler);
+}
+
+/**
+ * Every registered handler, once each
+ */
+export function listRegisteredSchemeHandlers(): SchemeHandler[] {
+  return [...new Set(registry().values())];
+}
+
+/**
+ * Every registered scheme/network pair
+ */
+export function listSchemeKinds(): SupportedKind[] {
+  return [...registry()].map(([key, handler]) => ({
+    x402Version: 1,
+    scheme: handler.scheme,
+    network: key.slice(handler.scheme.length + 1),
+  }));
+}
+
+/**
+ * Handler for a payment payload
+ * Agents predating the tx-proof scheme send their transaction hash as `exact`
+ */
+export function getPaymentSchemeHandler(paymentPayload: PaymentPayload): SchemeHandler {
+  const scheme =
+    paymentPayload.scheme === 'exact' && paymentPayload.payload?.txHash
+      ? 'tx-proof'
+      : paymentPayload.scheme;
+  return getSchemeHandler(scheme, paymentPayload.network);
+}
+
+/**
+ * Decode an X-PAYMENT header with the handler for its scheme
+ */
+export function decodePayment(
+  paymentHeader: string
+): { handler: SchemeHandler; paymentPayload: PaymentPayload } {
+  const handler = getPaymentSchemeHandler(decodePaymentHeader(paymentHeader));
+  return { handler, paymentPayload: handler.decode(paymentHeader) };
+}
@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import {
+  erc6492SignatureValidatorByteCode,
+  Hex,
+  isErc6492Signature,
+  parseErc6492Signature,
+} from 'viem';
+import { ERC1271_ABI } from '../contracts/abis';
+import {
+  ErrorCode,
+  PaymentPayload,
+  PaymentRequirements,
+  SignatureType,
+  VerificationResponse,
+} from '../types';
+import { getNetwork, getNetworkProvider } from '../networks';
+import { logger } from '../logger';
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+// Code of an EOA delegated with EIP-7702
+const EIP7702_DELEGATION_PREFIX = '0xef0100';
+
+const AUTHORIZATION_FIELDS = [
+  { name: 'from', type: 'address' },
+  { name: 'to', type: 'address' },
+  { name: 'value', type: 'uint256' },
+  { name: 'validAfter', type: 'uint256' },
+  { name: 'validBefore', type: 'uint256' },
+  { name: 'nonce', type: 'bytes32' },
+];
+
+/**
+ * EIP-3009 authorization, executable by the token contract
+ */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: AUTHORIZATION_FIELDS,
+};
+
+/**
+ * x402 authorization accompanying a transfer the agent sent itself
+ */
+export const AUTHORIZATION_TYPES = {
+  Authorization: AUTHORIZATION_FIELDS,
+};
+
+/**
+ * Facilitator-defined domain for x402 Authorizations
+ */
+export function x402Domain(network: string, asset: string): ethers.TypedDataDomain {
+  return {
+    name: 'x402 Payment',
+    version: '1',
+    chainId: getNetwork(network).chainId,
+    verifyingContract: asset,
+  };
+}
+
+/**
+ * Reject requirements whose `extra.domain` disagrees with the trusted domain
+ * Requirements come from the caller, so their domain is only ever compared, never used
+ */
+export function checkRequestedDomain(
+  requirements: PaymentRequirements,
+  domain: ethers.TypedDataDomain
+): VerificationResponse | null {
+  const requested = requirements.extra?.domain;
+  if (requested === undefined) {
+    return null;
+  }
+
+  let matches: boolean;
+  try {
+    matches =
+      ethers.TypedDataEncoder.hashDomain(requested) === ethers.TypedDataEncoder.hashDomain(domain);
+  } catch {
+    matches = false;
+  }
+
+  if (!matches) {
+    return {
+      isValid: false,
+      invalidReason: `EIP-712 domain mismatch. Expected: ${JSON.stringify(domain, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      )}`,
+      errorCode: ErrorCode.DOMAIN_MISMATCH,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Verify an EIP-712 authorization signature was made by `authorization.from`
+ * The payer's code picks the path: ECDSA for accounts without code, EIP-1271
+ * for deployed contracts, and ERC-6492 for wrapped signatures of contracts that
+ * are not deployed yet
+ * @returns The accepted signature type, or null when the signature is invalid
+ */
+export async function verifyAuthorizationSignature(
+  paymentPayload: PaymentPayload,
+  domain: ethers.TypedDataDomain,
+  types: Record<string, typeof AUTHORIZATION_FIELDS>
+): Promise<SignatureType | null> {
+  const { signature, authorization } = paymentPayload.payload;
+  const provider = getNetworkProvider(paymentPayload.network);
+
+  let hash: string;
+  try {
+    hash = ethers.TypedDataEncoder.hash(domain, types, authorization);
+  } catch (error) {
+    logger.warn('Could not hash authorization', { error });
+    return null;
+  }
+
+  const code = await provider.getCode(authorization.from);
+  const deployed = code !== '0x';
+
+  if (isErc6492Signature(signature as Hex)) {
+    if (!deployed) {
+      return (await isValidErc6492Signature(provider, authorization.from, hash, signature))
+        ? 'erc6492'
+        : null;
+    }
+
+    // Already deployed: the wrapped signature is checked directly
+    const { signature: inner } = parseErc6492Signature(signature as Hex);
+    return (await isValidErc1271Signature(provider, authorization.from, hash, inner))
+      ? 'eip1271'
+      : null;
+  }
+
+  // EIP-7702 delegated accounts still sign with their key
+  if (!deployed || code.startsWith(EIP7702_DELEGATION_PREFIX)) {
+    if (recoverSigner(hash, signature) === authorization.from.toLowerCase()) {
+      return 'eoa';
+    }
+    if (!deployed) {
+      return null;
+    }
+  }
+
+  return (await isValidErc1271Signature(provider, authorization.from, hash, signature))
+    ? 'eip1271'
+    : null;
+}
+
+/**
+ * Recover the (lowercased) signer of a digest, or null for malformed signatures
+ */
+function recoverSigner(hash: string, signature: string): string | null {
+  try {
+    return ethers.recoverAddress(hash, signature).toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask a deployed contract whether it accepts the signature
+ */
+async function isValidErc1271Signature(
+  provider: ethers.AbstractProvider,
+  account: string,
+  hash: string,
+  signature: string
+): Promise<boolean> {
+  const wallet = new ethers.Contract(account, ERC1271_ABI, provider);
+  try {
+    return (await wallet.isValidSignature(hash, signature)) === ERC1271_MAGIC_VALUE;
+  } catch (error) {
+    if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA')) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Simulate deploying a counterfactual account and checking its signature,
+ * with the ERC-6492 reference validator run as a deployless eth_call
+ */
+async function isValidErc6492Signature(
+  provider: ethers.AbstractProvider,
+  account: string,
+  hash: string,
+  signature: string
+): Promise<boolean> {
+  const data = ethers.concat([
+    erc6492SignatureValidatorByteCode,
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'bytes32', 'bytes'],
+      [account, hash, signature]
+    ),
+  ]);
+
+  try {
+    return (await provider.call({ data })) === '0x01';
+  } catch (error) {
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  GasEstimate,
+  GasEstimateStep,
+  HealthCheck,
+  PaymentPayload,
+  PaymentRequirements,
+  VerificationResponse,
+} from '../types';
+import { SourceVerification } from '../services/SourceVerificationService';
+
+/**
+ * Outcome of collecting a payment
+ * `transferred` once the funds reached the recipient, otherwise the transfer
+ * is still short of its confirmations
+ */
+export type SchemeSettlement =
+  | { status: 'transferred'; txHash: string }
+  | Extract<SourceVerification, { status: 'pending_confirmation' }>;
+
+/**
+ * What the payer must still hold when a payment is verified: the balance the
+ * facilitator will transfer, an allowance it will pull with transferFrom, or
+ * nothing once the payer has sent the funds
+ */
+export type PayerFunds = 'balance' | 'allowance' | 'none';
+
+/**
+ * A payment scheme, registered for the networks it can settle on
+ *
+ * Handlers cover what differs between schemes: payload shape, signature and
+ * on-chain checks, and how funds reach the recipient. Amount, timing, nonce,
+ * funds, registry and escrow handling are shared by VerificationService and
+ * SettlementService.
+ */
+export interface SchemeHandler {
+  readonly scheme: string;
+  readonly networks: readonly string[];
+  readonly settlementPath: GasEstimate['settlementPath'];
+  readonly payerFunds: PayerFunds;
+
+  /**
+   * Decode and validate a base64 X-PAYMENT header for this scheme
+   */
+  decode(paymentHeader: string): PaymentPayload;
+
+  /**
+   * Scheme-specific checks; a valid response reports the accepted signatureType
+   */
+  verify(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerificationResponse>;
+
+  /**
+   * Move the funds to the recipient (payTo, or the facilitator for escrow)
+   */
+  settle(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    recipient: string
+  ): Promise<SchemeSettlement>;
+
+  /**
+   * Gas for the transactions the facilitator sends to collect the payment
+   */
+  estimate(
+    requirements: PaymentRequirements,
+    paymentPayload?: PaymentPayload
+  ): Promise<GasEstimateStep[]>;
+
+  /**
+   * Readiness checks for what the handler depends on, reported by /health/ready
+   */
+  checkHealth?(): Promise<HealthCheck[]>;
+}
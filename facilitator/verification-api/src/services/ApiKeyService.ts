@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { ApiKeyInfo, ErrorCode } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getApiKeyStore, ApiKeyRecord, ApiKeyStore } from '../store';
+
+const KEY_PREFIX = 'x402_';
+
+/**
+ * API key issuance and authentication
+ * Keys are bound to a merchant address and stored as SHA-256 hashes
+ */
+export class ApiKeyService {
+  private apiKeyStore: ApiKeyStore;
+
+  constructor() {
+    this.apiKeyStore = getApiKeyStore();
+  }
+
+  /**
+   * Issue a new API key for a merchant
+   * The plaintext key is only returned here and never stored
+   */
+  async issueKey(params: {
+    merchant: string;
+    name?: string;
+    allowedOrigins?: string[];
+  }): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+    if (!ethers.isAddress(params.merchant)) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid merchant address');
+    }
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+    const record: ApiKeyRecord = {
+      id: `key_${crypto.randomBytes(8).toString('hex')}`,
+      keyHash: ApiKeyService.hashKey(key),
+      prefix: key.slice(0, KEY_PREFIX.length + 8),
+      merchant: params.merchant.toLowerCase(),
+      name: params.name,
+      allowedOrigins: params.allowedOrigins ?? [],
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+
+    await this.apiKeyStore.create(record);
+
+    return { key, apiKey: this.toInfo(record) };
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeKey(id: string): Promise<void> {
+    const revoked = await this.apiKeyStore.revoke(id, Math.floor(Date.now() / 1000));
+    if (!revoked) {
+      throw new AppError(ErrorCode.API_KEY_NOT_FOUND, 'API key not found or already revoked', 404);
+    }
+  }
+
+  /**
+   * List API keys, optionally for a single merchant
+   */
+  async listKeys(merchant?: string): Promise<ApiKeyInfo[]> {
+    const records = await this.apiKeyStore.list(merchant);
+    return records.map((record) => this.toInfo(record));
+  }
+
+  /**
+   * Resolve an active API key from its plaintext value
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    const record = await this.apiKeyStore.findByHash(ApiKeyService.hashKey(key));
+    if (!record || record.revokedAt) {
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * Hash an API key for storage and lookup
+   */
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private toInfo(record: ApiKeyRecord): ApiKeyInfo {
+    return {
+      id: record.id,
+      prefix: record.prefix,
+      merchant: record.merchant,
+      name: record.name,
+      allowedOrigins: record.allowedOrigins,
+      createdAt: record.createdAt,
+      revokedAt: record.revokedAt,
+    };
+  }
+}
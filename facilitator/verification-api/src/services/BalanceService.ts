@@ -0,0 +1,86 @@
+import { ethers } from 'ethers';
+import { ContractService } from '../contracts/ContractService';
+import { ERC20_ABI } from '../contracts/abis';
+import { ErrorCode, VerificationResponse } from '../types';
+import { getNetwork, getNetworkProvider } from '../networks';
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+export interface FundsCheck {
+  network: string;
+  asset: string; // 0x0 for the native currency
+  payer: string;
+  amount: bigint;
+  spender?: string; // Also require an allowance for this address (transferFrom flows)
+}
+
+/**
+ * Checks a payer can cover a payment before anything is sent on-chain
+ */
+export class BalanceService {
+  private contractService: ContractService;
+
+  constructor() {
+    this.contractService = new ContractService();
+  }
+
+  /**
+   * Compare the payer's balance (and allowance, given a spender) with the amount
+   * Returns an INSUFFICIENT_FUNDS response, or null when the payer can pay
+   */
+  async checkFunds(check: FundsCheck): Promise<VerificationResponse | null> {
+    const { network, asset, payer, amount, spender } = check;
+    const provider = getNetworkProvider(network);
+    const isNativeToken = asset.toLowerCase() === NATIVE_TOKEN;
+
+    const balance = isNativeToken
+      ? await provider.getBalance(payer)
+      : BigInt(await new ethers.Contract(asset, ERC20_ABI, provider).balanceOf(payer));
+    if (balance < amount) {
+      return this.insufficient(network, asset, isNativeToken ? 'balance' : 'token balance', amount, balance);
+    }
+
+    if (spender && !isNativeToken) {
+      const token = new ethers.Contract(asset, ERC20_ABI, provider);
+      const allowance = BigInt(await token.allowance(payer, spender));
+      if (allowance < amount) {
+        return this.insufficient(network, asset, 'allowance', amount, allowance);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Format an amount in the asset's units, e.g. "1.5 USDC"
+   * Token decimals come from the token manager; the native currency's from the network
+   */
+  async formatAmount(network: string, asset: string, amount: bigint): Promise<string> {
+    if (asset.toLowerCase() === NATIVE_TOKEN) {
+      const { nativeCurrency } = getNetwork(network);
+      return `${ethers.formatUnits(amount, nativeCurrency.decimals)} ${nativeCurrency.symbol}`;
+    }
+
+    const { symbol, decimals } = await this.contractService.getTokenInfo(asset);
+    return `${ethers.formatUnits(amount, decimals)} ${symbol || 'tokens'}`;
+  }
+
+  private async insufficient(
+    network: string,
+    asset: string,
+    kind: string,
+    required: bigint,
+    available: bigint
+  ): Promise<VerificationResponse> {
+    const [requiredFormatted, availableFormatted] = await Promise.all([
+      this.formatAmount(network, asset, required),
+      this.formatAmount(network, asset, available),
+    ]);
+
+    return {
+      isValid: false,
+      invalidReason: `Insufficient ${kind}. Required: ${requiredFormatted}, Available: ${availableFormatted}`,
+      errorCode: ErrorCode.INSUFFICIENT_FUNDS,
+    };
+  }
+}
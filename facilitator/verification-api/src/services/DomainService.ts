@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { EIP712_DOMAIN_ABI } from '../contracts/abis';
+import { getNetwork, getNetworkProvider } from '../networks';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'DomainService' });
+
+// Versions tried against DOMAIN_SEPARATOR when the token has no version()
+const CANDIDATE_VERSIONS = ['1', '2'];
+
+// eip712Domain() field bits (EIP-5267)
+const FIELD_NAME = 0x01;
+const FIELD_VERSION = 0x02;
+const FIELD_CHAIN_ID = 0x04;
+const FIELD_VERIFYING_CONTRACT = 0x08;
+const FIELD_SALT = 0x10;
+
+/**
+ * Resolves the EIP-712 domain a token verifies authorizations against
+ *
+ * Domains come from the facilitator, never from payment requirements: the
+ * configured registry (EIP712_DOMAINS) first, then the token itself through
+ * eip712Domain(), or name()/version() checked against DOMAIN_SEPARATOR().
+ * Resolved domains are cached per network and asset.
+ */
+export class DomainService {
+  private cache = new Map<string, Promise<ethers.TypedDataDomain | null>>();
+
+  /**
+   * Get a token's domain, or null when it exposes none
+   */
+  async resolveDomain(network: string, asset: string): Promise<ethers.TypedDataDomain | null> {
+    const { id, chainId } = getNetwork(network);
+    const key = `${id}:${asset.toLowerCase()}`;
+
+    let domain = this.cache.get(key);
+    if (!domain) {
+      domain = this.lookup(id, chainId, asset);
+      this.cache.set(key, domain);
+
+      // Don't cache RPC failures
+      domain.catch(() => this.cache.delete(key));
+    }
+
+    return domain;
+  }
+
+  private async lookup(
+    network: string,
+    chainId: number,
+    asset: string
+  ): Promise<ethers.TypedDataDomain | null> {
+    const configured = config.tokenDomains.find(
+      (entry) =>
+        getNetwork(entry.network).id === network &&
+        entry.asset.toLowerCase() === asset.toLowerCase()
+    );
+    if (configured) {
+      return { name: configured.name, version: configured.version, chainId, verifyingContract: asset };
+    }
+
+    const token = new ethers.Contract(asset, EIP712_DOMAIN_ABI, getNetworkProvider(network));
+
+    const eip5267 = await optionalCall(() => token.eip712Domain());
+    if (eip5267) {
+      return fromEip5267(eip5267);
+    }
+
+    const name: string | null = await optionalCall(() => token.name());
+    if (name === null) {
+      return null;
+    }
+
+    const [version, separator] = await Promise.all([
+      optionalCall<string>(() => token.version()),
+      optionalCall<string>(() => token.DOMAIN_SEPARATOR()),
+    ]);
+
+    if (!separator) {
+      return version === null ? null : { name, version, chainId, verifyingContract: asset };
+    }
+
+    // Only accept a domain that reproduces the token's separator
+    const versions = version === null ? CANDIDATE_VERSIONS : [version];
+    for (const candidate of versions) {
+      const domain = { name, version: candidate, chainId, verifyingContract: asset };
+      if (ethers.TypedDataEncoder.hashDomain(domain) === separator) {
+        return domain;
+      }
+    }
+
+    log.warn('Could not reproduce DOMAIN_SEPARATOR', { asset, network });
+    return null;
+  }
+}
+
+/**
+ * Build a domain from eip712Domain(), keeping only the fields the token uses
+ */
+function fromEip5267(result: ethers.Result): ethers.TypedDataDomain {
+  const fields = Number(result.fields);
+  const domain: ethers.TypedDataDomain = {};
+
+  if (fields & FIELD_NAME) domain.name = result.name;
+  if (fields & FIELD_VERSION) domain.version = result.version;
+  if (fields & FIELD_CHAIN_ID) domain.chainId = result.chainId;
+  if (fields & FIELD_VERIFYING_CONTRACT) domain.verifyingContract = result.verifyingContract;
+  if (fields & FIELD_SALT) domain.salt = result.salt;
+
+  return domain;
+}
+
+/**
+ * Call a getter the token may not implement
+ * Reverts and empty results resolve to null; RPC errors are thrown
+ */
+async function optionalCall<T>(call: () => Promise<T>): Promise<T | null> {
+  try {
+    return await call();
+  } catch (error) {
+    if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA')) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ErrorCode, PaymentPayload, PaymentRequirements } from '../types';
+import { getPaymentStore, StoredPayment } from '../store';
+import { publishPaymentEvent } from '../events';
+import { EscrowService } from './EscrowService';
+
+const contract = {
+  getEscrow: vi.fn(),
+  releaseEscrow: vi.fn(),
+  refundEscrow: vi.fn(),
+  markPaymentSettled: vi.fn(),
+  transferFunds: vi.fn(),
+};
+
+vi.mock('../contracts/ContractService', () => ({
+  ContractService: class {
+    getEscrow = contract.getEscrow;
+    releaseEscrow = contract.releaseEscrow;
+    refundEscrow = contract.refundEscrow;
+    markPaymentSettled = contract.markPaymentSettled;
+    transferFunds = contract.transferFunds;
+  },
+}));
+vi.mock('../events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../events')>()),
+  publishPaymentEvent: vi.fn(),
+}));
+
+const MERCHANT = ethers.Wallet.createRandom().address;
+const FACILITATOR = ethers.Wallet.createRandom().address;
+
+function randomId(): string {
+  return ethers.hexlify(ethers.randomBytes(32));
+}
+
+async function saveEscrowedPayment(): Promise<StoredPayment> {
+  const now = Math.floor(Date.now() / 1000);
+  const payment = {
+    paymentId: randomId(),
+    status: 'escrowed',
+    payload: {} as PaymentPayload,
+    requirements: {} as PaymentRequirements,
+    payer: ethers.Wallet.createRandom().address,
+    payee: MERCHANT,
+    asset: ethers.Wallet.createRandom().address,
+    resource: '/premium',
+    network: 'push-chain',
+    amount: '1000',
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + 3600,
+    registryPaymentId: randomId(),
+    escrow: { escrowId: randomId(), status: 'active', createdAt: now, expiresAt: now + 3600 },
+  } satisfies StoredPayment;
+  await getPaymentStore().save(payment);
+  return payment;
+}
+
+describe('EscrowService', () => {
+  let service: EscrowService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EscrowService();
+    contract.getEscrow.mockResolvedValue({ status: 'active', payer: FACILITATOR });
+    contract.releaseEscrow.mockResolvedValue('0xrelease');
+    contract.refundEscrow.mockResolvedValue('0xrefund');
+    contract.markPaymentSettled.mockResolvedValue('0xsettle');
+    contract.transferFunds.mockResolvedValue('0xtransfer');
+  });
+
+  it('releases an escrow to its merchant', async () => {
+    const payment = await saveEscrowedPayment();
+
+    const status = await service.release(payment.escrow.escrowId, MERCHANT);
+
+    expect(status).toMatchObject({ status: 'settled', settlementTxHash: '0xsettle' });
+    expect(contract.markPaymentSettled).toHaveBeenCalledWith(payment.registryPaymentId, '0xrelease');
+    expect(publishPaymentEvent).toHaveBeenCalledWith('escrow.released', expect.anything());
+  });
+
+  it('refunds an escrow and forwards the funds from the escrow payer', async () => {
+    const payment = await saveEscrowedPayment();
+
+    const status = await service.refund(payment.paymentId, MERCHANT);
+
+    expect(status.status).toBe('refunded');
+    expect(contract.transferFunds).toHaveBeenCalledWith(
+      payment.asset,
+      payment.payer,
+      1000n,
+      FACILITATOR
+    );
+    const stored = await getPaymentStore().get(payment.paymentId);
+    expect(stored?.escrow).toMatchObject({
+      status: 'refunded',
+      releaseTxHash: '0xrefund',
+      refundTxHash: '0xtransfer',
+    });
+  });
+
+  it('treats escrows of other merchants as missing', async () => {
+    const payment = await saveEscrowedPayment();
+
+    await expect(
+      service.release(payment.escrow.escrowId, ethers.Wallet.createRandom().address)
+    ).rejects.toMatchObject({ code: ErrorCode.ESCROW_NOT_FOUND, statusCode: 404 });
+    expect(contract.releaseEscrow).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of a concurrent release and refund run', async () => {
+    const payment = await saveEscrowedPayment();
+
+    const results = await Promise.allSettled([
+      service.release(payment.escrow.escrowId, MERCHANT),
+      service.refund(payment.escrow.escrowId, MERCHANT),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: { code: ErrorCode.INVALID_ESCROW_STATE, statusCode: 409 },
+    });
+    expect(contract.releaseEscrow.mock.calls.length + contract.refundEscrow.mock.calls.length).toBe(1);
+  });
+
+  it('rejects a release while another instance holds the claim', async () => {
+    const payment = await saveEscrowedPayment();
+    await getPaymentStore().update(payment.paymentId, { status: 'refunding' });
+
+    await expect(service.release(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_ESCROW_STATE,
+    });
+    expect(contract.releaseEscrow).not.toHaveBeenCalled();
+  });
+
+  it('hands the payment back when the transaction fails', async () => {
+    const payment = await saveEscrowedPayment();
+    contract.releaseEscrow.mockRejectedValueOnce(new Error('reverted'));
+
+    await expect(service.release(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+    });
+    expect((await getPaymentStore().get(payment.paymentId))?.status).toBe('escrowed');
+
+    await expect(service.release(payment.escrow.escrowId, MERCHANT)).resolves.toMatchObject({
+      status: 'settled',
+    });
+  });
+
+  it('completes a release whose registry update failed without releasing again', async () => {
+    const payment = await saveEscrowedPayment();
+    contract.markPaymentSettled.mockRejectedValueOnce(new Error('timeout'));
+    contract.getEscrow
+      .mockResolvedValueOnce({ status: 'active', payer: FACILITATOR })
+      .mockResolvedValue({ status: 'released', payer: FACILITATOR });
+
+    await expect(service.release(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+    });
+    const stored = await getPaymentStore().get(payment.paymentId);
+    expect(stored).toMatchObject({
+      status: 'escrowed',
+      escrow: { status: 'released', releaseTxHash: '0xrelease' },
+    });
+
+    await expect(service.release(payment.escrow.escrowId, MERCHANT)).resolves.toMatchObject({
+      status: 'settled',
+    });
+    expect(contract.releaseEscrow).toHaveBeenCalledTimes(1);
+    expect(contract.markPaymentSettled).toHaveBeenLastCalledWith(
+      payment.registryPaymentId,
+      '0xrelease'
+    );
+    await expect(service.refund(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_ESCROW_STATE,
+    });
+  });
+
+  it('never forwards a refund to the payer twice', async () => {
+    const payment = await saveEscrowedPayment();
+    contract.transferFunds.mockRejectedValueOnce(new Error('timeout'));
+    contract.getEscrow
+      .mockResolvedValueOnce({ status: 'active', payer: FACILITATOR })
+      .mockResolvedValue({ status: 'refunded', payer: FACILITATOR });
+
+    await expect(service.refund(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+    });
+    expect((await getPaymentStore().get(payment.paymentId))?.status).toBe('escrowed');
+
+    await expect(service.refund(payment.escrow.escrowId, MERCHANT)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_ESCROW_STATE,
+      statusCode: 409,
+    });
+    expect(contract.refundEscrow).toHaveBeenCalledTimes(1);
+    expect(contract.transferFunds).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { ethers } from 'ethers';
+import { ContractService } from '../contracts/ContractService';
+import { ErrorCode, PaymentStatus } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getPaymentStore, PaymentStore, StoredPayment } from '../store';
+import { toPaymentStatus } from '../utils/payment';
+import { publishPaymentEvent } from '../events';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'EscrowService' });
+
+/**
+ * Escrow release and refund service
+ * The facilitator is the on-chain escrow payer, so refunds come back to its
+ * wallet and are forwarded to the original payer
+ */
+export class EscrowService {
+  private contractService: ContractService;
+  private paymentStore: PaymentStore;
+
+  constructor() {
+    this.contractService = new ContractService();
+    this.paymentStore = getPaymentStore();
+  }
+
+  /**
+   * Release escrowed funds to the merchant once delivery is confirmed
+   * A retry after the escrow was released on-chain only completes the registry update
+   */
+  async release(id: string, merchant: string): Promise<PaymentStatus> {
+    const payment = await this.getEscrowedPayment(id, merchant);
+    let escrow = payment.escrow!;
+
+    return this.exclusive(payment, 'releasing', async () => {
+      const onChain = await this.contractService.getEscrow(escrow.escrowId);
+      if (onChain.status === 'active') {
+        log.info('Releasing escrow', { escrowId: escrow.escrowId });
+        const releaseTxHash = await this.contractService.releaseEscrow(escrow.escrowId);
+
+        // Recorded first, so a failure below can't make a retry release again
+        escrow = { ...escrow, status: 'released', releaseTxHash };
+        await this.paymentStore.update(payment.paymentId, { escrow });
+      } else if (onChain.status === 'released') {
+        log.info('Completing escrow release', { escrowId: escrow.escrowId });
+        escrow = { ...escrow, status: 'released' };
+      } else {
+        throw new AppError(
+          ErrorCode.INVALID_ESCROW_STATE,
+          `Escrow is ${onChain.status}`,
+          409
+        );
+      }
+
+      // The registry records the payment as settled once the merchant is paid; the release
+      // transaction is unknown if an earlier attempt stopped before recording it
+      const settlementTxHash = payment.registryPaymentId
+        ? await this.contractService.markPaymentSettled(
+            payment.registryPaymentId,
+            escrow.releaseTxHash ?? ethers.ZeroHash
+          )
+        : undefined;
+
+      const released = await this.paymentStore.update(payment.paymentId, {
+        status: 'settled',
+        settledAt: Math.floor(Date.now() / 1000),
+        settlementTxHash,
+        escrow,
+      });
+
+      publishPaymentEvent('escrow.released', released!);
+      publishPaymentEvent('payment.settled', released!);
+
+      return toPaymentStatus(released!);
+    });
+  }
+
+  /**
+   * Refund escrowed funds to the payer
+   * Also completes refunds triggered on-chain after the escrow expired. The funds are
+   * forwarded to the payer at most once: a retry after the transfer was started is refused
+   */
+  async refund(id: string, merchant: string): Promise<PaymentStatus> {
+    const payment = await this.getEscrowedPayment(id, merchant);
+    let escrow = payment.escrow!;
+
+    return this.exclusive(payment, 'refunding', async () => {
+      if (escrow.refundStartedAt !== undefined) {
+        throw new AppError(
+          ErrorCode.INVALID_ESCROW_STATE,
+          'The refund transfer to the payer was already sent once; check it before retrying',
+          409
+        );
+      }
+
+      const onChain = await this.contractService.getEscrow(escrow.escrowId);
+      if (onChain.status !== 'active' && onChain.status !== 'refunded') {
+        throw new AppError(
+          ErrorCode.INVALID_ESCROW_STATE,
+          `Escrow is ${onChain.status}`,
+          409
+        );
+      }
+
+      if (onChain.status === 'active') {
+        log.info('Refunding escrow', { escrowId: escrow.escrowId });
+        const releaseTxHash = await this.contractService.refundEscrow(escrow.escrowId);
+        escrow = { ...escrow, status: 'refunded', releaseTxHash };
+      }
+
+      // Recorded before the transfer, so no retry can forward the funds a second time
+      escrow = { ...escrow, status: 'refunded', refundStartedAt: Math.floor(Date.now() / 1000) };
+      await this.paymentStore.update(payment.paymentId, { escrow });
+
+      // Forward the refunded funds to the payer from the signer that created the escrow
+      const refundTxHash = await this.contractService.transferFunds(
+        payment.asset,
+        payment.payer,
+        BigInt(payment.amount),
+        onChain.payer
+      );
+
+      const refunded = await this.paymentStore.update(payment.paymentId, {
+        status: 'refunded',
+        escrow: { ...escrow, refundTxHash },
+      });
+
+      publishPaymentEvent('escrow.refunded', refunded!);
+
+      return toPaymentStatus(refunded!);
+    });
+  }
+
+  /**
+   * Find an escrowed payment by escrow ID, facilitator payment ID or registry payment ID
+   * Payments belonging to other merchants are treated as missing
+   */
+  private async getEscrowedPayment(id: string, merchant: string): Promise<StoredPayment> {
+    const payment =
+      (await this.paymentStore.findByEscrowId(id)) ??
+      (await this.paymentStore.get(id)) ??
+      (await this.paymentStore.findByRegistryId(id));
+
+    if (!payment?.escrow || payment.payee.toLowerCase() !== merchant.toLowerCase()) {
+      throw new AppError(ErrorCode.ESCROW_NOT_FOUND, 'Escrow not found', 404);
+    }
+
+    if (payment.status !== 'escrowed') {
+      throw new AppError(
+        ErrorCode.INVALID_ESCROW_STATE,
+        `Payment is ${payment.status}`,
+        409
+      );
+    }
+
+    return payment;
+  }
+
+  /**
+   * Run one release/refund per escrow at a time
+   * The payment is claimed in the store (escrowed → releasing/refunding), so the
+   * claim holds across instances sharing the store
+   */
+  private async exclusive<T>(
+    payment: StoredPayment,
+    status: 'releasing' | 'refunding',
+    action: () => Promise<T>
+  ): Promise<T> {
+    const claimed = await this.paymentStore.transition(payment.paymentId, ['escrowed'], {
+      status,
+    });
+    if (!claimed) {
+      throw new AppError(
+        ErrorCode.INVALID_ESCROW_STATE,
+        'Escrow release or refund already in progress',
+        409
+      );
+    }
+
+    try {
+      return await action();
+    } catch (error) {
+      // Hand the payment back so the release or refund can be retried; a retry reads the
+      // escrow's on-chain state and resumes from there
+      await this.handBack(payment.paymentId, status);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+      log.error('Escrow error', { error });
+      throw new AppError(ErrorCode.SETTLEMENT_FAILED, 'Escrow transaction failed', 500, error);
+    }
+  }
+
+  /**
+   * Return a claimed payment to escrowed, recording the escrow's on-chain state if a
+   * transaction went through before the failure
+   */
+  private async handBack(paymentId: string, status: 'releasing' | 'refunding'): Promise<void> {
+    const stored = await this.paymentStore.get(paymentId);
+    const escrow = stored?.escrow;
+    const onChain = escrow
+      ? await this.contractService.getEscrow(escrow.escrowId).catch((error) => {
+          log.warn('Could not read escrow state', { error });
+          return null;
+        })
+      : null;
+
+    await this.paymentStore.transition(paymentId, [status], {
+      status: 'escrowed',
+      ...(escrow &&
+        onChain &&
+        onChain.status !== 'active' && { escrow: { ...escrow, status: onChain.status } }),
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+import { ContractService } from '../contracts/ContractService';
+import {
+  GasEstimate,
+  GasEstimateStep,
+  PaymentPayload,
+  PaymentRequirements,
+  ErrorCode,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getNetwork, SETTLEMENT_NETWORK } from '../networks';
+import { getPaymentSchemeHandler, getSchemeHandler, SchemeHandler } from '../schemes';
+import { getSettlementMode } from '../utils/payment';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'GasEstimationService' });
+
+// Gas used when a step cannot be simulated (e.g. the resource is not registered)
+const DEFAULT_GAS: Record<string, bigint> = {
+  recordPayment: 250000n,
+  markPaymentSettled: 50000n,
+  approve: 60000n,
+  createEscrow: 250000n,
+};
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Settlement gas estimation service
+ * Simulates the transactions the facilitator sends on Push Chain to settle a payment
+ */
+export class GasEstimationService {
+  private contractService: ContractService;
+
+  constructor() {
+    this.contractService = new ContractService();
+  }
+
+  /**
+   * Estimate settlement cost for a payment
+   * The scheme handler's collection steps (e.g. transferWithAuthorization for
+   * `exact`) followed by the registry's recordPayment + markPaymentSettled, and for
+   * escrow payments approve (tokens) + createEscrow (markPaymentSettled is then sent
+   * on release)
+   */
+  async estimateSettlement(
+    requirements: PaymentRequirements,
+    paymentPayload?: PaymentPayload
+  ): Promise<GasEstimate> {
+    // Reject networks and schemes missing from the registries
+    getNetwork(requirements.network);
+    const handler = paymentPayload
+      ? getPaymentSchemeHandler(paymentPayload)
+      : getSchemeHandler(requirements.scheme, requirements.network);
+
+    try {
+      const steps = [
+        ...(await handler.estimate(requirements, paymentPayload)),
+        ...(await this.estimateRegistry(requirements, paymentPayload)),
+      ];
+      if (getSettlementMode(requirements) === 'escrow') {
+        steps.push(...(await this.estimateEscrow(requirements, paymentPayload)));
+      }
+
+      return this.withFees(handler, steps);
+    } catch (error) {
+      log.error('Gas estimation error', { error });
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        'Failed to estimate settlement gas',
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Simulate recordPayment + markPaymentSettled
+   */
+  private async estimateRegistry(
+    requirements: PaymentRequirements,
+    paymentPayload?: PaymentPayload
+  ): Promise<GasEstimateStep[]> {
+    const authorization = paymentPayload?.payload.authorization;
+    const payer = authorization?.from ?? this.contractService.getFacilitatorAddress();
+    const amount = BigInt(authorization?.value ?? requirements.maxAmountRequired);
+    const txHash = paymentPayload?.payload.txHash ?? ethers.ZeroHash;
+
+    const recordPayment = await this.simulate('recordPayment', () =>
+      this.contractService.estimateRecordPayment(
+        requirements.payTo,
+        requirements.resource,
+        payer,
+        amount,
+        txHash
+      )
+    );
+
+    // The registry rejects markPaymentSettled for payments it has not recorded yet,
+    // so it cannot be simulated ahead of recordPayment
+    const markPaymentSettled: GasEstimateStep = {
+      method: 'markPaymentSettled',
+      gasUnits: DEFAULT_GAS.markPaymentSettled.toString(),
+      simulated: false,
+    };
+
+    return [recordPayment, markPaymentSettled];
+  }
+
+  /**
+   * Simulate the approval of an escrowed token; createEscrow needs the approval
+   * and the recorded payment first, so it is not simulated
+   */
+  private async estimateEscrow(
+    requirements: PaymentRequirements,
+    paymentPayload?: PaymentPayload
+  ): Promise<GasEstimateStep[]> {
+    const createEscrow: GasEstimateStep = {
+      method: 'createEscrow',
+      gasUnits: DEFAULT_GAS.createEscrow.toString(),
+      simulated: false,
+    };
+    if (requirements.asset.toLowerCase() === NATIVE_TOKEN) {
+      return [createEscrow];
+    }
+
+    const amount = BigInt(
+      paymentPayload?.payload.authorization?.value ?? requirements.maxAmountRequired
+    );
+    const approve = await this.simulate('approve', () =>
+      this.contractService.estimateEscrowApproval(requirements.asset, amount)
+    );
+    return [approve, createEscrow];
+  }
+
+  /**
+   * Run a gas simulation, falling back to a default when the call reverts
+   */
+  private async simulate(
+    method: string,
+    estimate: () => Promise<bigint>
+  ): Promise<GasEstimateStep> {
+    try {
+      const gas = await estimate();
+      return { method, gasUnits: gas.toString(), simulated: true };
+    } catch (error) {
+      log.warn('Could not simulate transaction, using default gas', { method, error });
+      return { method, gasUnits: DEFAULT_GAS[method].toString(), simulated: false };
+    }
+  }
+
+  /**
+   * Price the estimated steps with current fee data
+   */
+  private async withFees(
+    handler: SchemeHandler,
+    steps: GasEstimateStep[]
+  ): Promise<GasEstimate> {
+    const feeData = await this.contractService.getFeeData();
+    const gasUnits = steps.reduce((total, step) => total + BigInt(step.gasUnits), 0n);
+
+    // EIP-1559 chains are charged up to maxFeePerGas
+    const pricePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    const estimatedCost = gasUnits * pricePerGas;
+    const { nativeCurrency } = getNetwork(SETTLEMENT_NETWORK);
+
+    return {
+      network: SETTLEMENT_NETWORK,
+      scheme: handler.scheme,
+      settlementPath: handler.settlementPath,
+      steps,
+      gasUnits: gasUnits.toString(),
+      fees: {
+        gasPrice: feeData.gasPrice?.toString() ?? null,
+        maxFeePerGas: feeData.maxFeePerGas?.toString() ?? null,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas?.toString() ?? null,
+      },
+      estimatedCost: estimatedCost.toString(),
+      estimatedCostFormatted: ethers.formatUnits(estimatedCost, nativeCurrency.decimals),
+      nativeSymbol: nativeCurrency.symbol,
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ContractService } from '../contracts/ContractService';
+import { HealthCheck, HealthResponse, NetworkConfig } from '../types';
+import { getNetwork, getNetworkProvider, listNetworks, SETTLEMENT_NETWORK } from '../networks';
+import { listRegisteredSchemeHandlers } from '../schemes';
+import { getSignerPool, SignerPool } from '../signers';
+import { withTimeout } from '../utils/timeout';
+import { errorMessage } from '../utils/errors';
+
+/**
+ * Readiness checks: RPCs, contracts, facilitator role and gas, scheme dependencies
+ * Results are cached for HEALTH_CACHE_TTL_MS so frequent probes don't flood the RPCs
+ */
+export class HealthService {
+  private contractService: ContractService;
+  private signers: SignerPool;
+  private cached: { value: Promise<HealthResponse>; expiresAt: number } | null = null;
+
+  constructor() {
+    this.contractService = new ContractService();
+    this.signers = getSignerPool();
+  }
+
+  /**
+   * Run the readiness checks
+   * `unavailable` when a critical check fails, `degraded` on other failures or warnings
+   */
+  async checkReadiness(): Promise<HealthResponse> {
+    const now = Date.now();
+
+    // Concurrent probes share one in-flight run
+    if (!this.cached || this.cached.expiresAt <= now) {
+      this.cached = { value: this.run(), expiresAt: now + config.health.cacheTtlMs };
+    }
+
+    return this.cached.value;
+  }
+
+  private async run(): Promise<HealthResponse> {
+    const checks = (
+      await Promise.all([
+        ...listNetworks().map((network) => this.checkNetwork(network).then((check) => [check])),
+        this.checkContracts().then((check) => [check]),
+        this.checkFacilitatorRole().then((check) => [check]),
+        this.checkWalletBalance().then((check) => [check]),
+        ...listRegisteredSchemeHandlers().map((handler) =>
+          handler.checkHealth ? handler.checkHealth() : Promise.resolve([])
+        ),
+      ])
+    ).flat();
+
+    let status: HealthResponse['status'] = 'ok';
+    if (checks.some((check) => check.critical && check.status === 'fail')) {
+      status = 'unavailable';
+    } else if (checks.some((check) => check.status !== 'pass')) {
+      status = 'degraded';
+    }
+
+    return { status, timestamp: Date.now(), checks };
+  }
+
+  /**
+   * RPC reachability and how far the latest block trails the clock
+   * Only the settlement network is critical; other networks serve tx-proof payments
+   */
+  private async checkNetwork(network: NetworkConfig): Promise<HealthCheck> {
+    return this.check(`rpc:${network.id}`, network.id === SETTLEMENT_NETWORK, async () => {
+      const started = Date.now();
+      const block = await withTimeout(
+        getNetworkProvider(network.id).getBlock('latest'),
+        config.health.timeoutMs
+      );
+      if (!block) {
+        return { status: 'fail', message: 'Latest block not available' };
+      }
+
+      const blockLagSeconds = Math.max(0, Math.floor(Date.now() / 1000) - block.timestamp);
+      const details = { blockNumber: block.number, blockLagSeconds, latencyMs: Date.now() - started };
+      if (blockLagSeconds > config.health.maxBlockLagSeconds) {
+        return {
+          status: 'fail',
+          message: `Latest block is ${blockLagSeconds}s old (max ${config.health.maxBlockLagSeconds}s)`,
+          details,
+        };
+      }
+      return { status: 'pass', details };
+    });
+  }
+
+  /**
+   * Contract code at the configured registry, escrow and token manager addresses
+   */
+  private async checkContracts(): Promise<HealthCheck> {
+    return this.check('contracts', true, async () => {
+      const provider = this.contractService.getProvider();
+      const entries = Object.entries(config.contracts);
+      const codes = await withTimeout(
+        Promise.all(entries.map(([, address]) => provider.getCode(address))),
+        config.health.timeoutMs
+      );
+
+      const missing = entries.filter((_, index) => codes[index] === '0x').map(([name]) => name);
+      if (missing.length > 0) {
+        return { status: 'fail', message: `No contract code for ${missing.join(', ')}` };
+      }
+      return { status: 'pass' };
+    });
+  }
+
+  /**
+   * FACILITATOR_ROLE on the registry and escrow contracts, for every active signer
+   */
+  private async checkFacilitatorRole(): Promise<HealthCheck> {
+    return this.check('facilitatorRole', true, async () => {
+      const addresses = this.signers.listActive().map((signer) => signer.address);
+      const roles = await withTimeout(
+        Promise.all(addresses.map((address) => this.contractService.hasFacilitatorRole(address))),
+        config.health.timeoutMs
+      );
+      const details = Object.fromEntries(addresses.map((address, index) => [address, roles[index]]));
+
+      const missing = addresses.flatMap((address, index) =>
+        Object.entries(roles[index])
+          .filter(([, granted]) => !granted)
+          .map(([contract]) => `${contract} (${address})`)
+      );
+      if (missing.length > 0) {
+        return {
+          status: 'fail',
+          message: `Missing FACILITATOR_ROLE on ${missing.join(', ')}`,
+          details,
+        };
+      }
+      return { status: 'pass', details };
+    });
+  }
+
+  /**
+   * Enough native currency in every active signer to pay for transactions
+   */
+  private async checkWalletBalance(): Promise<HealthCheck> {
+    return this.check('walletBalance', true, async () => {
+      const { nativeCurrency } = getNetwork(SETTLEMENT_NETWORK);
+      const provider = this.contractService.getProvider();
+      const addresses = this.signers.listActive().map((signer) => signer.address);
+      const balances = await withTimeout(
+        Promise.all(addresses.map((address) => provider.getBalance(address))),
+        config.health.timeoutMs
+      );
+
+      const minimum = ethers.parseUnits(config.health.minWalletBalance, nativeCurrency.decimals);
+      const details = {
+        balances: Object.fromEntries(
+          addresses.map((address, index) => [
+            address,
+            ethers.formatUnits(balances[index], nativeCurrency.decimals),
+          ])
+        ),
+        minimum: config.health.minWalletBalance,
+        symbol: nativeCurrency.symbol,
+      };
+
+      const low = addresses.filter((_, index) => balances[index] < minimum);
+      if (low.length > 0) {
+        return {
+          status: 'fail',
+          message: `Balance below ${config.health.minWalletBalance} ${nativeCurrency.symbol} for ${low.join(', ')}`,
+          details,
+        };
+      }
+      return { status: 'pass', details };
+    });
+  }
+
+  /**
+   * Run one check, turning errors (RPC failures, timeouts) into a failed check
+   */
+  private async check(
+    name: string,
+    critical: boolean,
+    run: () => Promise<Omit<HealthCheck, 'name' | 'critical'>>
+  ): Promise<HealthCheck> {
+    try {
+      return { name, critical, ...(await run()) };
+    } catch (error) {
+      return { name, critical, status: 'fail', message: errorMessage(error) };
+    }
+  }
+}
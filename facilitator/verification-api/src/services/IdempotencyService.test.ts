@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getIdempotencyStore } from '../store';
+import { IdempotencyService } from './IdempotencyService';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let key: string;
+
+  beforeEach(() => {
+    service = new IdempotencyService();
+    key = `merchant:${randomUUID()}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs concurrent requests with the same key once', async () => {
+    const action = vi.fn(async () => ({ statusCode: 200, body: { ok: true } }));
+
+    const results = await Promise.all([
+      service.run(key, 'hash', action),
+      service.run(key, 'hash', action),
+    ]);
+
+    expect(action).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.replayed).sort()).toEqual([false, true]);
+    expect(results[1].body).toEqual({ ok: true });
+  });
+
+  it('replays stored client errors', async () => {
+    const action = vi.fn(async () => {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Bad payment', 400, { field: 'amount' });
+    });
+
+    await service.run(key, 'hash', action);
+    const replay = await service.run(key, 'hash', action);
+
+    expect(action).toHaveBeenCalledTimes(1);
+    expect(replay).toMatchObject({
+      statusCode: 400,
+      replayed: true,
+      body: { code: ErrorCode.INVALID_REQUEST, details: { field: 'amount' } },
+    });
+  });
+
+  it('releases the key after a server error', async () => {
+    const action = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('RPC down'))
+      .mockResolvedValueOnce({ statusCode: 200, body: { ok: true } });
+
+    await expect(service.run(key, 'hash', action)).rejects.toThrow('RPC down');
+    const retry = await service.run(key, 'hash', action);
+
+    expect(retry).toMatchObject({ statusCode: 200, replayed: false });
+  });
+
+  it('releases the key after a transient client error', async () => {
+    const action = vi
+      .fn()
+      .mockRejectedValueOnce(new AppError(ErrorCode.REQUEST_IN_PROGRESS, 'Payment is settling', 409))
+      .mockResolvedValueOnce({ statusCode: 200, body: { ok: true } });
+
+    await expect(service.run(key, 'hash', action)).rejects.toMatchObject({
+      code: ErrorCode.REQUEST_IN_PROGRESS,
+    });
+    const retry = await service.run(key, 'hash', action);
+
+    expect(action).toHaveBeenCalledTimes(2);
+    expect(retry).toMatchObject({ statusCode: 200, replayed: false });
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await service.run(key, 'hash', async () => ({ statusCode: 200, body: {} }));
+
+    await expect(
+      service.run(key, 'other', async () => ({ statusCode: 200, body: {} }))
+    ).rejects.toMatchObject({ code: ErrorCode.IDEMPOTENCY_KEY_REUSED, statusCode: 422 });
+  });
+
+  it('keeps the lock while a long request runs', async () => {
+    vi.useFakeTimers();
+    const lockMs = config.idempotency.lockTimeoutSeconds * 1000;
+    let finish: (value: { statusCode: number; body: unknown }) => void = () => undefined;
+    const running = service.run(key, 'hash', () => new Promise((resolve) => (finish = resolve)));
+
+    await vi.advanceTimersByTimeAsync(lockMs * 3);
+    const record = await getIdempotencyStore().get(key);
+    expect(record).toMatchObject({ status: 'in_progress' });
+    expect(record!.lockedUntil).toBeGreaterThan(Math.floor(Date.now() / 1000));
+
+    finish({ statusCode: 200, body: { ok: true } });
+    await expect(running).resolves.toMatchObject({ statusCode: 200 });
+  });
+});
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { AppError, toApiError } from '../middleware/errorHandler';
+import { getIdempotencyStore, IdempotencyRecord, IdempotencyStore } from '../store';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'IdempotencyService' });
+
+const POLL_INTERVAL_MS = 500;
+
+// Client errors whose outcome can change on retry; the key is released rather than stored
+const TRANSIENT_ERRORS = new Set<ErrorCode>([
+  ErrorCode.REQUEST_IN_PROGRESS,
+  ErrorCode.RATE_LIMIT_EXCEEDED,
+  ErrorCode.INSUFFICIENT_FUNDS,
+]);
+
+export interface IdempotentResponse {
+  statusCode: number;
+  body: unknown;
+  retryable?: boolean; // Outcome may change on retry (e.g. awaiting confirmations); not stored
+}
+
+export interface IdempotentResult extends IdempotentResponse {
+  replayed: boolean;
+}
+
+/**
+ * Runs requests at most once per idempotency key
+ *
+ * Only final outcomes are stored and replayed for the lifetime of the key:
+ * successful responses and client errors that a retry cannot change. Server
+ * errors, transient client errors (e.g. a payment still settling) and retryable
+ * responses release the key so the request can be retried. Duplicates arriving while the original is still running wait for
+ * its outcome: in-process through a shared promise, across instances by
+ * polling the store. The owner renews its lock while the action runs, so the key
+ * is only taken over once the owning instance stops.
+ */
+export class IdempotencyService {
+  private store: IdempotencyStore;
+  private inFlight = new Map<string, { requestHash: string; result: Promise<IdempotentResult> }>();
+
+  constructor() {
+    this.store = getIdempotencyStore();
+  }
+
+  /**
+   * Run an action once for the given key
+   * @param key Key scoped to the caller (e.g. merchant address + Idempotency-Key)
+   * @param requestHash Hash of the request body; reusing a key for a different request is rejected
+   */
+  async run(
+    key: string,
+    requestHash: string,
+    action: () => Promise<IdempotentResponse>
+  ): Promise<IdempotentResult> {
+    const running = this.inFlight.get(key);
+    if (running) {
+      this.assertSameRequest(running.requestHash, requestHash);
+      return { ...(await running.result), replayed: true };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claim: IdempotencyRecord = {
+      key,
+      owner: randomUUID(),
+      requestHash,
+      status: 'in_progress',
+      createdAt: now,
+      lockedUntil: now + config.idempotency.lockTimeoutSeconds,
+      expiresAt: now + config.idempotency.ttlSeconds,
+    };
+
+    const record = await this.store.claim(claim);
+    if (record.owner !== claim.owner) {
+      this.assertSameRequest(record.requestHash, requestHash);
+
+      // Claimed by this instance while our claim was in flight
+      const local = this.inFlight.get(key);
+      if (local) {
+        return { ...(await local.result), replayed: true };
+      }
+
+      return this.awaitRecord(record, requestHash, action);
+    }
+
+    const result = this.execute(claim, action);
+    this.inFlight.set(key, { requestHash, result });
+    try {
+      return await result;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Run the action as the key owner and store its outcome
+   */
+  private async execute(
+    claim: IdempotencyRecord,
+    action: () => Promise<IdempotentResponse>
+  ): Promise<IdempotentResult> {
+    let statusCode: number;
+    let body: unknown;
+
+    const heartbeat = setInterval(() => {
+      const lockedUntil = Math.floor(Date.now() / 1000) + config.idempotency.lockTimeoutSeconds;
+      this.store.renew(claim.key, claim.owner, lockedUntil).catch((error) =>
+        log.warn('Could not renew idempotency lock', { key: claim.key, error })
+      );
+    }, (config.idempotency.lockTimeoutSeconds * 1000) / 3);
+    heartbeat.unref();
+
+    try {
+      let retryable: boolean | undefined;
+      ({ statusCode, body, retryable } = await action());
+
+      if (retryable) {
+        await this.store.release(claim.key, claim.owner);
+        return { statusCode, body, replayed: false };
+      }
+    } catch (error) {
+      if (
+        !(error instanceof AppError) ||
+        error.statusCode >= 500 ||
+        TRANSIENT_ERRORS.has(error.code)
+      ) {
+        await this.store.release(claim.key, claim.owner);
+        throw error;
+      }
+      statusCode = error.statusCode;
+      body = toApiError(error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await this.store.complete(claim.key, claim.owner, statusCode, JSON.stringify(body));
+    return { statusCode, body, replayed: false };
+  }
+
+  /**
+   * Wait for a request claimed by another instance to finish
+   */
+  private async awaitRecord(
+    record: IdempotencyRecord,
+    requestHash: string,
+    action: () => Promise<IdempotentResponse>
+  ): Promise<IdempotentResult> {
+    const deadline = Date.now() + config.idempotency.waitTimeoutMs;
+    let current: IdempotencyRecord | null = record;
+
+    while (current?.status === 'in_progress') {
+      if (Date.now() >= deadline) {
+        throw new AppError(
+          ErrorCode.REQUEST_IN_PROGRESS,
+          'A request with this idempotency key is still in progress',
+          409
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      current = await this.store.get(record.key);
+    }
+
+    // The original request failed and released the key
+    if (!current) {
+      return this.run(record.key, requestHash, action);
+    }
+
+    return {
+      statusCode: current.statusCode ?? 200,
+      body: JSON.parse(current.response ?? 'null'),
+      replayed: true,
+    };
+  }
+
+  private assertSameRequest(stored: string, requestHash: string) {
+    if (stored !== requestHash) {
+      throw new AppError(
+        ErrorCode.IDEMPOTENCY_KEY_REUSED,
+        'Idempotency key was already used for a different request',
+        422
+      );
+    }
+  }
+}
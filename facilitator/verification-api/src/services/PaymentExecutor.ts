@@ -1,60 +1,103 @@
 import { ethers } from 'ethers';
 import { PushChain } from '@pushchain/core';
-import { EIP3009_ABI, ERC20_ABI } from '../contracts/abis';
+import { EIP3009_ABI } from '../contracts/abis';
+import { getTransactionManager } from '../contracts/TransactionManager';
+import { getSignerPool, SignerPool } from '../signers';
 import { AppError } from '../middleware/errorHandler';
 import { ErrorCode } from '../types';
+import { SETTLEMENT_NETWORK } from '../networks';
+import { parseTransferLogs } from '../utils/transfers';
+import { BalanceService } from './BalanceService';
+import { logger } from '../logger';
+import { errorMessage } from '../utils/errors';
+
+const log = logger.child({ service: 'PaymentExecutor' });
+
+/**
+ * Push Chain SDK state; payments fall back to direct ethers.js calls unless `ready`
+ */
+export type PushChainStatus = 'initializing' | 'ready' | 'failed';
 
 /**
  * Payment execution service
  * Handles actual token transfers using Push Chain's universal transaction layer
  */
 export class PaymentExecutor {
-  private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private provider: ethers.AbstractProvider;
+  private signers: SignerPool;
   private pushChain: PushChain | null = null;
+  private pushChainStatus: PushChainStatus = 'initializing';
+  private balanceService: BalanceService;
 
-  constructor(provider: ethers.JsonRpcProvider, privateKey: string) {
+  constructor(provider: ethers.AbstractProvider) {
     this.provider = provider;
-    this.wallet = new ethers.Wallet(privateKey, provider);
-    this.initializePushChain().catch(console.error);
+    this.signers = getSignerPool();
+    this.balanceService = new BalanceService();
+
+    // The SDK account is the facilitator address: initialize once signers are loaded,
+    // and again if a key rotation changes it
+    const initialize = () =>
+      this.initializePushChain().catch((error) =>
+        log.error('Push Chain SDK initialization failed', { error })
+      );
+    this.signers.loaded.then(initialize);
+    this.signers.onPrimaryChanged(initialize);
+  }
+
+  /**
+   * Push Chain SDK initialization state
+   */
+  getPushChainStatus(): PushChainStatus {
+    return this.pushChainStatus;
   }
 
   /**
    * Initialize Push Chain SDK with universal signer
    */
   private async initializePushChain(): Promise<void> {
+    this.pushChain = null;
+    this.pushChainStatus = 'initializing';
+
     try {
-      // Create a universal signer wrapper for ethers wallet
+      // Create a universal signer wrapper for the facilitator signer
+      const signer = this.signers.primary();
       const universalSigner = {
         account: {
-          address: this.wallet.address as `0x${string}`,
+          address: signer.address as `0x${string}`,
           chain: PushChain.CONSTANTS.CHAIN.PUSH_TESTNET_DONUT,
         },
         signMessage: async (data: Uint8Array) => {
           const message = ethers.hexlify(data);
-          const signature = await this.wallet.signMessage(ethers.getBytes(message));
+          const signature = await signer.signMessage(ethers.getBytes(message));
           return ethers.getBytes(signature);
         },
-        signAndSendTransaction: async (tx: any) => {
-          const response = await this.wallet.sendTransaction(tx);
-          return response.hash as `0x${string}`;
+        signAndSendTransaction: async (tx: ethers.TransactionRequest) => {
+          // Shares the signer's nonces with contract calls
+          const sent = await getTransactionManager(signer).send('universalTransaction', tx);
+          return sent.hash as `0x${string}`;
         },
       };
 
       // Initialize PushChain with universal signer
-      this.pushChain = await PushChain.initialize(universalSigner as any, {
+      // The SDK types this as a bytes-based signer; ours sends through the transaction manager
+      const skeleton = universalSigner as unknown as Parameters<typeof PushChain.initialize>[0];
+      this.pushChain = await PushChain.initialize(skeleton, {
         network: PushChain.CONSTANTS.PUSH_NETWORK.TESTNET_DONUT,
         printTraces: false,
       });
 
-      console.log('✅ Push Chain SDK initialized with universal transactions');
+      this.pushChainStatus = 'ready';
       const origin = this.pushChain.universal.origin;
       const account = this.pushChain.universal.account;
-      console.log(`   Origin: ${(origin as any).address || origin}`);
-      console.log(`   UEA: ${(account as any).address || account}`);
+      log.info('Push Chain SDK initialized with universal transactions', {
+        origin: origin.address,
+        uea: account,
+      });
     } catch (error) {
-      console.error('⚠️  Failed to initialize Push Chain SDK:', error);
-      console.log('   Falling back to direct ethers.js calls');
+      this.pushChainStatus = 'failed';
+      log.warn('Failed to initialize Push Chain SDK, falling back to direct ethers.js calls', {
+        error,
+      });
     }
   }
 
@@ -79,23 +122,35 @@ export class PaymentExecutor {
   ): Promise<{ txHash: string; blockNumber: number }> {
     const isNativeToken = asset === '0x0000000000000000000000000000000000000000';
 
-    console.log('\n💰 Executing Real Payment...');
-    console.log(`   From: ${authorization.from}`);
-    console.log(`   To: ${authorization.to}`);
-    console.log(`   Amount: ${ethers.formatEther(authorization.value)} ${isNativeToken ? 'PC' : 'tokens'}`);
-    console.log(`   Asset: ${asset}`);
-
     try {
+      log.info('Executing payment', {
+        from: authorization.from,
+        to: authorization.to,
+        asset,
+        amount: authorization.value, // Smallest unit; formatting would need another RPC call
+      });
+
+      // Check the payer can still cover the payment
+      const fundsCheck = await this.balanceService.checkFunds({
+        network: SETTLEMENT_NETWORK,
+        asset,
+        payer: authorization.from,
+        amount: BigInt(authorization.value),
+      });
+      if (fundsCheck) {
+        throw new Error(fundsCheck.invalidReason ?? 'Insufficient funds');
+      }
+
       if (isNativeToken) {
         return await this.executeNativeTransfer(authorization);
       } else {
         return await this.executeERC20Transfer(authorization, signature, asset);
       }
-    } catch (error: any) {
-      console.error('❌ Payment execution failed:', error.message);
+    } catch (error) {
+      log.error('Payment execution failed', { error });
       throw new AppError(
         ErrorCode.SETTLEMENT_FAILED,
-        `Payment execution failed: ${error.message}`,
+        `Payment execution failed: ${errorMessage(error)}`,
         500,
         error
       );
@@ -110,56 +165,47 @@ export class PaymentExecutor {
     to: string;
     value: string;
   }): Promise<{ txHash: string; blockNumber: number }> {
-    console.log('   📤 Executing native token transfer via Push Chain universal layer...');
 
-    // Check if payer has sufficient balance
-    const payerBalance = await this.provider.getBalance(authorization.from);
     const amount = BigInt(authorization.value);
 
-    if (payerBalance < amount) {
-      throw new Error(
-        `Insufficient balance. Required: ${ethers.formatEther(amount)} PC, Available: ${ethers.formatEther(payerBalance)} PC`
-      );
-    }
-
     // Use Push Chain's universal transaction if available
     if (this.pushChain) {
       try {
-        console.log('   🌐 Using Push Chain universal.sendTransaction()...');
-        
+        log.info('Sending native transfer via Push Chain universal.sendTransaction()');
+
         const tx = await this.pushChain.universal.sendTransaction({
           to: authorization.to as `0x${string}`,
           value: amount,
           data: '0x' as `0x${string}`, // Empty data for native transfer
         });
 
-        console.log('   📝 Universal transaction sent:', tx.hash);
+        log.info('Universal transaction sent', { txHash: tx.hash });
         const receipt = await tx.wait();
-        console.log('   ✅ Transaction confirmed in block:', receipt?.blockNumber);
+        log.info('Transaction confirmed', { txHash: tx.hash, blockNumber: receipt?.blockNumber });
 
         return {
           txHash: tx.hash,
           blockNumber: Number(receipt?.blockNumber || 0),
         };
-      } catch (error: any) {
-        console.warn('   ⚠️  Push Chain universal tx failed, falling back to direct transfer:', error.message);
+      } catch (error) {
+        log.warn('Push Chain universal tx failed, falling back to direct transfer', { error });
       }
     }
 
-    // Fallback: Direct ethers.js transfer
-    console.log('   📤 Fallback: Direct ethers.js transfer...');
-    const tx = await this.wallet.sendTransaction({
+    // Fallback: Direct ethers.js transfer from the facilitator address
+    log.info('Sending direct ethers.js transfer');
+    const tx = await getTransactionManager(this.signers.primary()).send('transfer', {
       to: authorization.to,
       value: amount,
     });
 
-    console.log('   📝 Transaction sent:', tx.hash);
+    log.info('Transaction sent', { txHash: tx.hash, nonce: tx.nonce });
     const receipt = await tx.wait();
-    console.log('   ✅ Transaction confirmed in block:', receipt?.blockNumber);
+    log.info('Transaction confirmed', { txHash: receipt.hash, blockNumber: receipt.blockNumber });
 
     return {
-      txHash: tx.hash,
-      blockNumber: receipt?.blockNumber || 0,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
     };
   }
 
@@ -179,23 +225,10 @@ export class PaymentExecutor {
     signature: string,
     asset: string
   ): Promise<{ txHash: string; blockNumber: number }> {
-    console.log('   📤 Executing ERC20 transfer via Push Chain universal layer...');
-
-    // Check payer balance
-    const erc20 = new ethers.Contract(asset, ERC20_ABI, this.provider);
-    const balance = await erc20.balanceOf(authorization.from);
-    const amount = BigInt(authorization.value);
-
-    if (balance < amount) {
-      throw new Error(
-        `Insufficient token balance. Required: ${ethers.formatUnits(amount, 6)} tokens, Available: ${ethers.formatUnits(balance, 6)} tokens`
-      );
-    }
-
     // Try Push Chain universal transaction first
     if (this.pushChain) {
       try {
-        console.log('   🌐 Using Push Chain universal.sendTransaction() for ERC20...');
+        log.info('Sending ERC20 transfer via Push Chain universal.sendTransaction()');
 
         // Encode the transferWithAuthorization call
         const token = new ethers.Contract(asset, EIP3009_ABI, this.provider);
@@ -216,25 +249,25 @@ export class PaymentExecutor {
           data: data as `0x${string}`,
         });
 
-        console.log('   📝 Universal transaction sent:', tx.hash);
+        log.info('Universal transaction sent', { txHash: tx.hash });
         const receipt = await tx.wait();
-        console.log('   ✅ Transaction confirmed in block:', receipt?.blockNumber);
+        log.info('Transaction confirmed', { txHash: tx.hash, blockNumber: receipt?.blockNumber });
 
         return {
           txHash: tx.hash,
           blockNumber: Number(receipt?.blockNumber || 0),
         };
-      } catch (error: any) {
-        console.warn('   ⚠️  Push Chain universal tx failed, falling back to EIP-3009:', error.message);
+      } catch (error) {
+        log.warn('Push Chain universal tx failed, falling back to EIP-3009', { error });
       }
     }
 
     // Fallback: Direct EIP-3009 call
-    console.log('   📤 Fallback: Direct EIP-3009 transferWithAuthorization...');
-    const token = new ethers.Contract(asset, EIP3009_ABI, this.wallet);
+    log.info('Sending EIP-3009 transferWithAuthorization');
+    const token = new ethers.Contract(asset, EIP3009_ABI, this.provider);
 
     try {
-      const tx = await token.transferWithAuthorization(
+      const request = await token.transferWithAuthorization.populateTransaction(
         authorization.from,
         authorization.to,
         authorization.value,
@@ -243,23 +276,29 @@ export class PaymentExecutor {
         authorization.nonce,
         signature
       );
+      // Anyone may submit the authorization: any signer in the pool pays the gas
+      const tx = await getTransactionManager(this.signers.next()).send(
+        'transferWithAuthorization',
+        request
+      );
 
-      console.log('   📝 Transaction sent:', tx.hash);
+      log.info('Transaction sent', { txHash: tx.hash, nonce: tx.nonce });
       const receipt = await tx.wait();
-      console.log('   ✅ Transaction confirmed in block:', receipt?.blockNumber);
+      log.info('Transaction confirmed', { txHash: receipt.hash, blockNumber: receipt.blockNumber });
 
       return {
-        txHash: tx.hash,
-        blockNumber: receipt?.blockNumber || 0,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       };
-    } catch (error: any) {
-      if (error.message.includes('authorization is used')) {
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('authorization is used')) {
         throw new Error('Payment authorization already used (duplicate payment)');
-      } else if (error.message.includes('authorization is not yet valid')) {
+      } else if (message.includes('authorization is not yet valid')) {
         throw new Error('Payment authorization not yet valid');
-      } else if (error.message.includes('authorization is expired')) {
+      } else if (message.includes('authorization is expired')) {
         throw new Error('Payment authorization has expired');
-      } else if (error.message.includes('invalid signature')) {
+      } else if (message.includes('invalid signature')) {
         throw new Error('Invalid payment signature');
       }
       throw error;
@@ -298,28 +337,15 @@ export class PaymentExecutor {
         );
       }
 
-      // For ERC20, check Transfer event
-      const erc20 = new ethers.Contract(asset, ERC20_ABI, this.provider);
-      const transferEventTopic = ethers.id('Transfer(address,address,uint256)');
-      
-      const transferLog = receipt.logs.find(
-        (log) => log.topics[0] === transferEventTopic && log.address.toLowerCase() === asset.toLowerCase()
-      );
-
-      if (!transferLog) return false;
-
-      const parsedLog = erc20.interface.parseLog({
-        topics: [...transferLog.topics],
-        data: transferLog.data,
-      });
-
-      return (
-        parsedLog?.args[0].toLowerCase() === expectedFrom.toLowerCase() &&
-        parsedLog?.args[1].toLowerCase() === expectedTo.toLowerCase() &&
-        BigInt(parsedLog?.args[2]) === expectedAmount
+      // For ERC20, check Transfer events (a transaction may contain several)
+      return parseTransferLogs(receipt, asset).some(
+        (transfer) =>
+          transfer.from.toLowerCase() === expectedFrom.toLowerCase() &&
+          transfer.to.toLowerCase() === expectedTo.toLowerCase() &&
+          transfer.amount === expectedAmount
       );
     } catch (error) {
-      console.error('Error verifying payment execution:', error);
+      log.error('Error verifying payment execution', { error, txHash });
       return false;
     }
   }
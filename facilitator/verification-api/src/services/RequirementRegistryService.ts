@@ -0,0 +1,122 @@
+import { ContractService } from '../contracts/ContractService';
+import { config } from '../config';
+import { ErrorCode, PaymentRequirements, VerificationResponse } from '../types';
+import { findNetwork } from '../networks';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'RequirementRegistryService' });
+
+type RegistryRequirement = Awaited<ReturnType<ContractService['getPaymentRequirement']>>;
+
+// Shared by all instances so invalidations reach every router's service
+const cache = new Map<string, { value: Promise<RegistryRequirement>; expiresAt: number }>();
+
+function cacheKey(merchant: string, resource: string): string {
+  return `${merchant.toLowerCase()}:${resource}`;
+}
+
+/**
+ * Checks posted payment requirements against the merchant's requirement in
+ * X402PaymentRegistry, so mismatches fail verification instead of reverting
+ * recordPayment after gas was spent
+ *
+ * Registry reads are cached for REGISTRY_REQUIREMENT_CACHE_TTL_SECONDS and
+ * invalidated by PaymentRequirementCreated/Updated events while started.
+ */
+export class RequirementRegistryService {
+  private contractService: ContractService;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.contractService = new ContractService();
+  }
+
+  /**
+   * Start invalidating cached requirements on registry events
+   */
+  start(): void {
+    this.unsubscribe = this.contractService.onPaymentRequirementChanged((merchant, resource) => {
+      log.info('Payment requirement changed', { merchant, resource });
+      cache.delete(cacheKey(merchant, resource));
+    });
+  }
+
+  /**
+   * Stop listening for registry events
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Compare requirements with the registry entry for (payTo, resource)
+   * Returns an invalid response on mismatch, or null when they agree
+   */
+  async checkRequirements(requirements: PaymentRequirements): Promise<VerificationResponse | null> {
+    const registered = await this.getRequirement(requirements.payTo, requirements.resource);
+
+    // Unregistered requirements read back zeroed
+    if (!registered.isActive) {
+      return {
+        isValid: false,
+        invalidReason: registered.createdAt
+          ? 'Payment requirement is inactive in the registry'
+          : 'Payment requirement is not registered',
+        errorCode: ErrorCode.REQUIREMENT_INACTIVE,
+      };
+    }
+
+    const mismatches: string[] = [];
+    if (BigInt(requirements.maxAmountRequired) !== BigInt(registered.maxAmountRequired)) {
+      mismatches.push(`maxAmountRequired (registry: ${registered.maxAmountRequired})`);
+    }
+    if (requirements.asset.toLowerCase() !== registered.asset.toLowerCase()) {
+      mismatches.push(`asset (registry: ${registered.asset})`);
+    }
+    if (requirements.payTo.toLowerCase() !== registered.payTo.toLowerCase()) {
+      mismatches.push(`payTo (registry: ${registered.payTo})`);
+    }
+    if (networkId(requirements.network) !== networkId(registered.network)) {
+      mismatches.push(`network (registry: ${registered.network})`);
+    }
+
+    if (mismatches.length > 0) {
+      return {
+        isValid: false,
+        invalidReason: `Requirements differ from the registry: ${mismatches.join(', ')}`,
+        errorCode: ErrorCode.REQUIREMENT_MISMATCH,
+      };
+    }
+
+    return null;
+  }
+
+  private getRequirement(merchant: string, resource: string): Promise<RegistryRequirement> {
+    const key = cacheKey(merchant, resource);
+    const now = Date.now();
+
+    let entry = cache.get(key);
+    if (!entry || entry.expiresAt <= now) {
+      const value = this.contractService.getPaymentRequirement(merchant, resource);
+      entry = { value, expiresAt: now + config.registryRequirements.cacheTtlSeconds * 1000 };
+      cache.set(key, entry);
+
+      // Don't cache failed reads
+      value.catch(() => {
+        if (cache.get(key)?.value === value) {
+          cache.delete(key);
+        }
+      });
+    }
+
+    return entry.value;
+  }
+}
+
+/**
+ * Registry entries may name networks by ID or CAIP-2 ID
+ */
+function networkId(network: string): string {
+  return findNetwork(network)?.id ?? network;
+}
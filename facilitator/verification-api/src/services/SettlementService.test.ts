@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ErrorCode, PaymentPayload, PaymentRequirements } from '../types';
+import { getPaymentStore, StoredPayment } from '../store';
+import { getPaymentId } from '../utils/payment';
+import { decodePayment } from '../schemes';
+import { SchemeHandler } from '../schemes/types';
+import { SettlementService } from './SettlementService';
+
+const contract = {
+  recordPayment: vi.fn(),
+  markPaymentSettled: vi.fn(),
+  findPaymentRecord: vi.fn(),
+  getPaymentRecord: vi.fn(),
+};
+const handler = {
+  scheme: 'exact',
+  settle: vi.fn(),
+  verify: vi.fn(),
+};
+
+vi.mock('../contracts/ContractService', () => ({
+  ContractService: class {
+    recordPayment = contract.recordPayment;
+    markPaymentSettled = contract.markPaymentSettled;
+    findPaymentRecord = contract.findPaymentRecord;
+    getPaymentRecord = contract.getPaymentRecord;
+    getFacilitatorAddress = () => '0x000000000000000000000000000000000000fac1';
+  },
+}));
+vi.mock('./VerificationService', () => ({
+  VerificationService: class {
+    verifyPayment = async () => ({ isValid: true, invalidReason: null });
+  },
+}));
+vi.mock('../schemes', () => ({
+  decodePayment: vi.fn(),
+  getPaymentSchemeHandler: () => handler,
+}));
+
+const MERCHANT = ethers.Wallet.createRandom().address;
+
+function makePayload(): PaymentPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'push-chain',
+    payload: {
+      signature: ethers.hexlify(ethers.randomBytes(65)),
+      authorization: {
+        from: ethers.Wallet.createRandom().address,
+        to: MERCHANT,
+        value: '1000',
+        validAfter: String(now - 10),
+        validBefore: String(now + 60),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+      },
+    },
+  };
+}
+
+const requirements: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'push-chain',
+  maxAmountRequired: '1000',
+  resource: '/premium',
+  description: 'Premium',
+  mimeType: 'application/json',
+  payTo: MERCHANT,
+  maxTimeoutSeconds: 60,
+  asset: ethers.Wallet.createRandom().address,
+};
+
+async function saveVerified(
+  payload: PaymentPayload,
+  changes: Partial<StoredPayment> = {}
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const { authorization } = payload.payload;
+  const payment: StoredPayment = {
+    paymentId: getPaymentId(payload),
+    status: 'verified',
+    payload,
+    requirements,
+    payer: authorization.from,
+    payee: MERCHANT,
+    asset: requirements.asset,
+    resource: requirements.resource,
+    network: payload.network,
+    amount: authorization.value,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: Number(authorization.validBefore),
+    verifiedAt: now,
+    ...changes,
+  };
+  await getPaymentStore().save(payment);
+  vi.mocked(decodePayment).mockReturnValue({ handler: handler as unknown as SchemeHandler, paymentPayload: payload });
+  return payment.paymentId;
+}
+
+function settle(service: SettlementService) {
+  return service.settlePayment({
+    x402Version: 1,
+    paymentHeader: 'header',
+    paymentRequirements: requirements,
+  });
+}
+
+describe('SettlementService.settlePayment', () => {
+  let service: SettlementService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SettlementService();
+    handler.settle.mockImplementation(async () => ({
+      status: 'transferred',
+      txHash: ethers.hexlify(ethers.randomBytes(32)),
+    }));
+    contract.recordPayment.mockResolvedValue('0xregistry');
+    contract.markPaymentSettled.mockResolvedValue('0xsettle');
+  });
+
+  it('settles a verified payment', async () => {
+    const paymentId = await saveVerified(makePayload());
+
+    const result = await settle(service);
+
+    expect(result).toMatchObject({ success: true, status: 'settled', paymentId });
+    expect(await getPaymentStore().get(paymentId)).toMatchObject({
+      status: 'settled',
+      registryPaymentId: '0xregistry',
+    });
+  });
+
+  it('settles a payment once when two requests race', async () => {
+    const paymentId = await saveVerified(makePayload());
+
+    const results = await Promise.allSettled([settle(service), settle(service)]);
+
+    expect(handler.settle).toHaveBeenCalledTimes(1);
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: { code: ErrorCode.REQUEST_IN_PROGRESS, statusCode: 409 },
+    });
+    expect((await getPaymentStore().get(paymentId))?.status).toBe('settled');
+  });
+
+  it('rejects a payment that is already settled', async () => {
+    await saveVerified(makePayload());
+    await settle(service);
+
+    await expect(settle(service)).rejects.toMatchObject({
+      code: ErrorCode.ALREADY_SETTLED,
+      statusCode: 409,
+    });
+    expect(handler.settle).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a transaction that already paid for another payment', async () => {
+    handler.settle.mockResolvedValue({ status: 'transferred', txHash: '0xshared' });
+    await saveVerified(makePayload());
+    await settle(service);
+
+    const paymentId = await saveVerified(makePayload());
+    await expect(settle(service)).rejects.toMatchObject({
+      code: ErrorCode.TRANSACTION_ALREADY_USED,
+      statusCode: 409,
+    });
+    expect(contract.recordPayment).toHaveBeenCalledTimes(1);
+    expect((await getPaymentStore().get(paymentId))?.status).toBe('failed');
+  });
+
+  it('marks the payment failed when collection fails', async () => {
+    const paymentId = await saveVerified(makePayload());
+    handler.settle.mockRejectedValueOnce(new Error('transfer reverted'));
+
+    await expect(settle(service)).rejects.toMatchObject({ code: ErrorCode.SETTLEMENT_FAILED });
+    expect(await getPaymentStore().get(paymentId)).toMatchObject({
+      status: 'failed',
+      error: 'transfer reverted',
+    });
+  });
+});
+
+describe('SettlementService stale settlements', () => {
+  let service: SettlementService;
+
+  // Left settling by an instance that stopped
+  const stale = () => ({
+    status: 'settling' as const,
+    updatedAt: Math.floor(Date.now() / 1000) - config.settlement.settlingTimeoutSeconds - 1,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SettlementService();
+    handler.verify.mockResolvedValue({ isValid: true, invalidReason: null });
+    contract.findPaymentRecord.mockResolvedValue(null);
+    contract.recordPayment.mockResolvedValue('0xregistry');
+    contract.markPaymentSettled.mockResolvedValue('0xsettle');
+  });
+
+  it('resumes a stale settlement after its recorded steps', async () => {
+    const paymentId = await saveVerified(makePayload(), { ...stale(), txHash: '0xfunds' });
+    contract.findPaymentRecord.mockResolvedValue('0xrecorded');
+
+    await service.processPendingSettlements();
+
+    expect(handler.settle).not.toHaveBeenCalled();
+    expect(contract.recordPayment).not.toHaveBeenCalled();
+    expect(contract.markPaymentSettled).toHaveBeenCalledWith('0xrecorded', '0xfunds');
+    expect(await getPaymentStore().get(paymentId)).toMatchObject({
+      status: 'settled',
+      registryPaymentId: '0xrecorded',
+    });
+  });
+
+  it('fails a stale settlement whose collection went through unrecorded', async () => {
+    const paymentId = await saveVerified(makePayload(), stale());
+    handler.verify.mockResolvedValue({
+      isValid: false,
+      invalidReason: 'Nonce already used',
+      errorCode: ErrorCode.NONCE_USED,
+    });
+
+    await service.processPendingSettlements();
+
+    expect(handler.settle).not.toHaveBeenCalled();
+    expect((await getPaymentStore().get(paymentId))?.status).toBe('failed');
+  });
+
+  it('leaves a settlement that is still making progress', async () => {
+    const paymentId = await saveVerified(makePayload(), { status: 'settling' });
+
+    await service.processPendingSettlements();
+
+    expect(handler.verify).not.toHaveBeenCalled();
+    expect((await getPaymentStore().get(paymentId))?.status).toBe('settling');
+  });
+});
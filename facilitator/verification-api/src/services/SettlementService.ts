@@ -1,197 +1,398 @@
 import { ContractService } from '../contracts/ContractService';
 import { VerificationService } from './VerificationService';
-import { PaymentExecutor } from './PaymentExecutor';
 import { 
   SettlementRequest, 
   SettlementResponse,
+  PaymentPayload,
+  PaymentRequirements,
   ErrorCode 
 } from '../types';
 import { AppError } from '../middleware/errorHandler';
 import { config } from '../config';
+import { getNonceStore, getPaymentStore, NonceStore, PaymentStore, StoredPayment } from '../store';
+import { getPaymentId, getSettlementMode } from '../utils/payment';
+import { errorMessage } from '../utils/errors';
+import { publishPaymentEvent } from '../events';
+import { settlementsTotal } from '../metrics';
+import { getNetwork } from '../networks';
+import { logger, withLogContext } from '../logger';
+import { SourceVerification } from './SourceVerificationService';
+import { decodePayment, getPaymentSchemeHandler, SchemeHandler } from '../schemes';
+
+const log = logger.child({ service: 'SettlementService' });
 
 /**
  * Payment settlement service
- * Now with REAL token transfers!
+ * Funds are collected by the payment's scheme handler, then recorded in the
+ * registry (or locked in escrow)
  */
 export class SettlementService {
   private contractService: ContractService;
   private verificationService: VerificationService;
-  private paymentExecutor: PaymentExecutor;
+  private paymentStore: PaymentStore;
+  private nonceStore: NonceStore;
+  private workerTimer: NodeJS.Timeout | null = null;
+  private processing = false;
 
   constructor() {
     this.contractService = new ContractService();
     this.verificationService = new VerificationService();
-    
-    // Initialize payment executor with facilitator credentials
-    const provider = this.contractService.getProvider();
-    this.paymentExecutor = new PaymentExecutor(provider, config.facilitator.privateKey);
+    this.paymentStore = getPaymentStore();
+    this.nonceStore = getNonceStore();
   }
 
   /**
-   * Verify transaction on source chain with timeout
+   * Start the worker that settles queued (async) payments
    */
-  private async verifyTransaction(
-    txHash: string,
-    network: string,
-    expectedFrom: string,
-    expectedTo: string,
-    expectedAmount: bigint
-  ): Promise<void> {
-    // Get RPC URL for the network
-    const rpcUrls: Record<string, string> = {
-      'push-chain': config.pushChain.rpc,
-      'ethereum-sepolia': 'https://ethereum-sepolia-rpc.publicnode.com',
-      'base-sepolia': 'https://sepolia.base.org',
-    };
+  start(pollIntervalMs: number = config.settlement.workerPollIntervalMs): void {
+    this.workerTimer = setInterval(() => {
+      this.processPendingSettlements().catch((error) =>
+        log.error('Settlement worker error', { error })
+      );
+    }, pollIntervalMs);
+    this.workerTimer.unref();
+  }
 
-    const rpcUrl = rpcUrls[network];
-    if (!rpcUrl) {
+  /**
+   * Stop the settlement worker
+   */
+  stop(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  /**
+   * Settle a payment on-chain
+   * The payment is claimed (verified → settling) first, so concurrent requests on
+   * any instance settle it once; the others get 409
+   */
+  async settlePayment(request: SettlementRequest): Promise<SettlementResponse> {
+    const { paymentId, paymentPayload } = await this.verify(request);
+
+    const claimed = await this.paymentStore.transition(paymentId, ['verified'], {
+      status: 'settling',
+      error: undefined,
+    });
+    if (!claimed) {
+      const current = await this.paymentStore.get(paymentId);
+      const inProgress = current?.status === 'pending' || current?.status === 'settling';
       throw new AppError(
-        ErrorCode.SETTLEMENT_FAILED,
-        `Unsupported network: ${network}`
+        inProgress ? ErrorCode.REQUEST_IN_PROGRESS : ErrorCode.ALREADY_SETTLED,
+        `Payment is ${current?.status ?? 'unknown'}`,
+        409
       );
     }
 
-    try {
-      const { ethers } = await import('ethers');
-      const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, {
-        staticNetwork: true, // Prevent network detection calls
-      });
+    return this.execute(paymentId, paymentPayload, request.paymentRequirements);
+  }
 
-      // Add timeout wrapper
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('RPC timeout')), 10000); // 10 second timeout
-      });
+  /**
+   * Verify a payment and queue it for settlement by the background worker
+   * The payment moves pending → settling → settled (or escrowed/failed)
+   */
+  async enqueueSettlement(request: SettlementRequest): Promise<SettlementResponse> {
+    const { paymentId, paymentPayload } = await this.verify(request);
 
-      // Get transaction receipt with timeout
-      const receipt = await Promise.race([
-        provider.getTransactionReceipt(txHash),
-        timeoutPromise
-      ]) as any;
+    let queued = await this.paymentStore.transition(paymentId, ['verified'], {
+      status: 'pending',
+      error: undefined,
+    });
 
-      if (!receipt) {
-        console.warn(`⚠️  Transaction ${txHash} not found on ${network}, proceeding anyway`);
-        return; // Allow payment to proceed even if verification fails
+    // A duplicate request for a payment that is already queued or settling
+    if (!queued) {
+      queued = await this.paymentStore.get(paymentId);
+      if (!queued || (queued.status !== 'pending' && queued.status !== 'settling')) {
+        throw new AppError(
+          ErrorCode.ALREADY_SETTLED,
+          `Payment is ${queued?.status ?? 'unknown'}`,
+          409
+        );
       }
+    }
 
-      // Get transaction details with timeout
-      const tx = await Promise.race([
-        provider.getTransaction(txHash),
-        timeoutPromise
-      ]) as any;
+    // Start settling right away rather than waiting for the next poll
+    setImmediate(() => {
+      this.processPendingSettlements().catch((error) =>
+        log.error('Settlement worker error', { error })
+      );
+    });
 
-      if (!tx) {
-        console.warn(`⚠️  Transaction details not found, proceeding anyway`);
-        return;
-      }
+    return {
+      success: true,
+      error: null,
+      txHash: null,
+      networkId: paymentPayload.network,
+      timestamp: Date.now(),
+      paymentId,
+      status: queued.status,
+    };
+  }
 
-      // Verify transaction details
-      if (tx.from.toLowerCase() !== expectedFrom.toLowerCase()) {
-        throw new AppError(
-          ErrorCode.SETTLEMENT_FAILED,
-          `Transaction from address mismatch. Expected: ${expectedFrom}, Got: ${tx.from}`
-        );
-      }
+  /**
+   * Settle queued payments until none are left
+   * Payments are claimed atomically, so several instances can share the queue; each
+   * needs its own signer keys, as a key is leased to one instance at a time
+   */
+  async processPendingSettlements(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
 
-      if (tx.to?.toLowerCase() !== expectedTo.toLowerCase()) {
-        throw new AppError(
-          ErrorCode.SETTLEMENT_FAILED,
-          `Transaction to address mismatch. Expected: ${expectedTo}, Got: ${tx.to}`
-        );
-      }
+    this.processing = true;
+    try {
+      await this.reclaimStaleSettlements();
 
-      if (tx.value < expectedAmount) {
-        throw new AppError(
-          ErrorCode.SETTLEMENT_FAILED,
-          `Transaction amount insufficient. Expected: ${expectedAmount}, Got: ${tx.value}`
-        );
-      }
+      // Payments still awaiting confirmations are retried on the next run
+      const attempted = new Set<string>();
 
-      // Verify transaction succeeded
-      if (receipt.status !== 1) {
-        throw new AppError(
-          ErrorCode.SETTLEMENT_FAILED,
-          'Transaction failed on source chain'
-        );
+      for (;;) {
+        const pending = (
+          await this.paymentStore.findByStatus('pending', config.settlement.workerBatchSize)
+        ).filter((payment) => !attempted.has(payment.paymentId));
+        if (pending.length === 0) {
+          return;
+        }
+
+        for (const payment of pending) {
+          attempted.add(payment.paymentId);
+          const claimed = await this.paymentStore.transition(payment.paymentId, ['pending'], {
+            status: 'settling',
+          });
+          if (!claimed) {
+            continue; // Claimed by another worker
+          }
+
+          // Queued payments are traced by paymentId; failures are recorded on the payment
+          await withLogContext({ paymentId: claimed.paymentId }, () => {
+            log.info('Settling queued payment');
+            return this.execute(claimed.paymentId, claimed.payload, claimed.requirements, true);
+          }).catch(() => undefined);
+        }
       }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Requeue payments left `settling` by an instance that stopped mid-settlement
+   * A payment counts as abandoned once it has not been updated for
+   * SETTLEMENT_SETTLING_TIMEOUT_SECONDS; each settlement step updates it
+   */
+  private async reclaimStaleSettlements(): Promise<void> {
+    const staleBefore = Math.floor(Date.now() / 1000) - config.settlement.settlingTimeoutSeconds;
+    const settling = await this.paymentStore.findByStatus(
+      'settling',
+      config.settlement.workerBatchSize
+    );
+
+    for (const payment of settling.filter((payment) => payment.updatedAt <= staleBefore)) {
+      await withLogContext({ paymentId: payment.paymentId }, () => this.reclaim(payment)).catch(
+        (error) => log.warn('Could not reclaim stale settlement', { error })
+      );
+    }
+  }
 
-      console.log(`✅ Verified: ${txHash} on ${network}`);
-      console.log(`   From: ${tx.from}`);
-      console.log(`   To: ${tx.to}`);
-      console.log(`   Amount: ${tx.value}`);
-    } catch (error: any) {
-      if (error.message === 'RPC timeout') {
-        console.warn(`⚠️  RPC timeout when verifying ${txHash}, proceeding with optimistic verification`);
-        // Allow to proceed - tx hash presence is proof enough
+  /**
+   * Check the chain for the step a stale settlement was on, then requeue it to resume
+   * after its last recorded step. A step that went through without being recorded is
+   * recorded now; one that cannot be matched on-chain marks the payment failed for
+   * manual reconciliation rather than risk paying twice
+   */
+  private async reclaim(payment: StoredPayment): Promise<void> {
+    const { paymentId, payload, requirements } = payment;
+    const changes: Partial<StoredPayment> = {};
+
+    if (!payment.txHash) {
+      // Collection is the first step; the handler reports the authorization as used
+      // once its transfer has gone through
+      const handler = getPaymentSchemeHandler(payload);
+      const check = await handler.verify(payload, requirements);
+      if (check.errorCode === ErrorCode.NONCE_USED) {
+        return this.abandon(payment, 'Payment was collected but the transaction was not recorded');
+      }
+    } else if (!payment.registryPaymentId) {
+      const registryPaymentId = await this.contractService.findPaymentRecord(
+        payment.payee,
+        payment.txHash,
+        payment.createdAt
+      );
+      if (registryPaymentId) {
+        changes.registryPaymentId = registryPaymentId;
+      }
+    } else if (getSettlementMode(requirements) === 'escrow') {
+      return this.abandon(payment, 'Escrow creation was interrupted; check for an escrow');
+    } else {
+      const record = await this.contractService.getPaymentRecord(payment.registryPaymentId);
+      if (record.settled) {
+        log.info('Completing interrupted settlement');
+        const { authorization } = payload.payload;
+        await this.nonceStore.markSettled(authorization.from, authorization.nonce);
+        const settled = await this.paymentStore.transition(paymentId, ['settling'], {
+          status: 'settled',
+          settledAt: Math.floor(Date.now() / 1000),
+          error: undefined,
+        });
+        if (settled) {
+          publishPaymentEvent('payment.settled', settled);
+        }
         return;
       }
-      throw error;
     }
+
+    log.info('Requeuing interrupted settlement');
+    await this.paymentStore.transition(paymentId, ['settling'], { ...changes, status: 'pending' });
   }
 
   /**
-   * Settle a payment on-chain
+   * Mark a stale settlement failed when its progress cannot be established
    */
-  async settlePayment(request: SettlementRequest): Promise<SettlementResponse> {
-    try {
-      // First verify the payment
-      const verification = await this.verificationService.verifyPayment({
-        x402Version: request.x402Version,
-        paymentHeader: request.paymentHeader,
-        paymentRequirements: request.paymentRequirements,
-      });
+  private async abandon(payment: StoredPayment, reason: string): Promise<void> {
+    log.error('Interrupted settlement needs manual reconciliation', { reason });
+    const failed = await this.paymentStore.transition(payment.paymentId, ['settling'], {
+      status: 'failed',
+      error: reason,
+    });
+    if (failed) {
+      publishPaymentEvent('payment.failed', failed);
+    }
+  }
 
-      if (!verification.isValid) {
-        throw new AppError(
-          ErrorCode.INVALID_SIGNATURE,
-          `Payment verification failed: ${verification.invalidReason}`
-        );
-      }
+  /**
+   * Verify a settlement request and decode its payload
+   */
+  private async verify(
+    request: SettlementRequest
+  ): Promise<{ paymentId: string; paymentPayload: PaymentPayload }> {
+    const verification = await this.verificationService.verifyPayment({
+      x402Version: request.x402Version,
+      paymentHeader: request.paymentHeader,
+      paymentRequirements: request.paymentRequirements,
+      validateRequirements: request.validateRequirements,
+    });
+
+    if (!verification.isValid) {
+      const used =
+        verification.errorCode === ErrorCode.NONCE_USED ||
+        verification.errorCode === ErrorCode.TRANSACTION_ALREADY_USED;
+      throw new AppError(
+        verification.errorCode ?? ErrorCode.INVALID_SIGNATURE,
+        `Payment verification failed: ${verification.invalidReason}`,
+        used ? 409 : 400
+      );
+    }
 
-      // Decode payment payload
-      const decoded = Buffer.from(request.paymentHeader, 'base64').toString('utf-8');
-      const paymentPayload = JSON.parse(decoded);
-      const { authorization, txHash } = paymentPayload.payload;
+    const { paymentPayload } = decodePayment(request.paymentHeader);
+    return { paymentId: getPaymentId(paymentPayload), paymentPayload };
+  }
+
+  /**
+   * Run the on-chain settlement for a verified payment
+   * Failures mark the payment failed
+   * @param queued Settling from the async queue; unconfirmed payments go back on it
+   */
+  private async execute(
+    paymentId: string,
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    queued: boolean = false
+  ): Promise<SettlementResponse> {
+    const labels = {
+      network: getNetwork(paymentPayload.network).id,
+      asset: requirements.asset.toLowerCase(),
+    };
+
+    try {
+      const result = await this.collect(paymentId, paymentPayload, requirements, queued);
+      settlementsTotal.inc({ ...labels, outcome: result.status ?? 'settled' });
+      return result;
+    } catch (error) {
+      settlementsTotal.inc({ ...labels, outcome: 'failed' });
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the payment and record it, directly or through escrow
+   * The caller has already claimed the payment (status `settling`). Steps already
+   * recorded on the payment (e.g. before a reclaimed settlement stopped) are skipped
+   */
+  private async collect(
+    paymentId: string,
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    queued: boolean
+  ): Promise<SettlementResponse> {
+    try {
+      const handler = getPaymentSchemeHandler(paymentPayload);
+      const { authorization } = paymentPayload.payload;
 
       // Extract merchant from requirements
-      const merchant = request.paymentRequirements.payTo;
-      const resource = request.paymentRequirements.resource;
+      const merchant = requirements.payTo;
+      const resource = requirements.resource;
       const payer = authorization.from;
       const amount = BigInt(authorization.value);
-      const network = paymentPayload.network;
 
-      // Verify the transaction hash exists and is valid
-      if (!txHash) {
-        throw new AppError(
-          ErrorCode.SETTLEMENT_FAILED,
-          'Transaction hash not provided by agent'
+      const stored = await this.paymentStore.get(paymentId);
+
+      if (getSettlementMode(requirements) === 'escrow') {
+        return await this.settleToEscrow(
+          paymentId,
+          paymentPayload,
+          requirements,
+          handler,
+          stored,
+          queued
         );
       }
 
-      console.log(`Verifying transaction ${txHash} on ${network}...`);
-      await this.verifyTransaction(txHash, network, payer, merchant, amount);
-      console.log('✅ Transaction verified on source chain');
+      // Move the funds to the merchant
+      let txHash = stored?.txHash;
+      if (!txHash) {
+        const collected = await handler.settle(paymentPayload, requirements, merchant);
+        if (collected.status === 'pending_confirmation') {
+          return await this.awaitConfirmation(paymentId, paymentPayload, collected, queued);
+        }
+        txHash = collected.txHash;
+        await this.consumeTransaction(paymentId, paymentPayload.network, txHash);
+        await this.paymentStore.update(paymentId, { txHash });
+      }
 
       // Record payment in registry
-      console.log('Recording payment in registry...');
-      const paymentId = await this.contractService.recordPayment(
-        merchant,
-        resource,
-        payer,
-        amount,
-        txHash
-      );
+      let registryPaymentId = stored?.registryPaymentId;
+      if (!registryPaymentId) {
+        log.info('Recording payment in registry', { paymentId, txHash });
+        registryPaymentId = await this.contractService.recordPayment(
+          merchant,
+          resource,
+          payer,
+          amount,
+          txHash
+        );
 
-      console.log('Payment recorded with ID:', paymentId);
+        log.info('Payment recorded', { paymentId, registryPaymentId });
+        await this.paymentStore.update(paymentId, { registryPaymentId });
+      }
 
       // Mark as settled
-      console.log('Marking payment as settled...');
       const settlementTxHash = await this.contractService.markPaymentSettled(
-        paymentId,
+        registryPaymentId,
         txHash
       );
 
-      console.log('Payment settled. Settlement TX:', settlementTxHash);
+      log.info('Payment settled', { paymentId, settlementTxHash });
+      await this.nonceStore.markSettled(authorization.from, authorization.nonce);
+      const settled = await this.paymentStore.update(paymentId, {
+        status: 'settled',
+        settledAt: Math.floor(Date.now() / 1000),
+        settlementTxHash,
+        error: undefined,
+      });
+      if (settled) {
+        publishPaymentEvent('payment.settled', settled);
+      }
 
       return {
         success: true,
@@ -199,10 +400,22 @@ export class SettlementService {
         txHash: settlementTxHash,
         networkId: paymentPayload.network,
         timestamp: Date.now(),
-        registryTxHash: paymentId,
+        registryTxHash: registryPaymentId,
+        paymentId,
+        status: 'settled',
       };
     } catch (error) {
-      console.error('Settlement error:', error);
+      log.error('Settlement error', { paymentId, error });
+
+      const failed = await this.paymentStore
+        .update(paymentId, { status: 'failed', error: errorMessage(error) })
+        .catch((storeError) => {
+          log.error('Failed to record settlement error', { paymentId, error: storeError });
+          return null;
+        });
+      if (failed) {
+        publishPaymentEvent('payment.failed', failed);
+      }
 
       if (error instanceof AppError) {
         throw error;
@@ -216,4 +429,156 @@ export class SettlementService {
       );
     }
   }
+
+  /**
+   * Record that the collected transaction pays for this payment
+   * A transaction pays for one payment only, even when its transfers (summed for
+   * tx-proof) would cover several
+   */
+  private async consumeTransaction(
+    paymentId: string,
+    network: string,
+    txHash: string
+  ): Promise<void> {
+    const owner = await this.paymentStore.claimTransaction(
+      getNetwork(network).id,
+      txHash,
+      paymentId
+    );
+    if (owner !== paymentId.toLowerCase()) {
+      throw new AppError(
+        ErrorCode.TRANSACTION_ALREADY_USED,
+        `Transaction ${txHash} already paid for another payment`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Leave a payment whose source transaction is not yet confirmed unrecorded
+   * It returns to `verified` (or `pending` when queued) so settlement can be retried,
+   * until the authorization expires
+   */
+  private async awaitConfirmation(
+    paymentId: string,
+    paymentPayload: PaymentPayload,
+    source: Extract<SourceVerification, { status: 'pending_confirmation' }>,
+    queued: boolean
+  ): Promise<SettlementResponse> {
+    const reason = `Source transaction has ${source.confirmations}/${source.required} confirmations`;
+
+    if (Number(paymentPayload.payload.authorization.validBefore) < Date.now() / 1000) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `${reason} and the authorization has expired`
+      );
+    }
+
+    await this.paymentStore.update(paymentId, {
+      status: queued ? 'pending' : 'verified',
+      error: reason,
+    });
+
+    return {
+      success: false,
+      error: reason,
+      txHash: null,
+      networkId: paymentPayload.network,
+      timestamp: Date.now(),
+      paymentId,
+      status: 'pending_confirmation',
+      retryAfter: source.retryAfter,
+    };
+  }
+
+  /**
+   * Escrow-mode settlement: collect the payment into the facilitator wallet,
+   * record it in the registry and lock it in X402PaymentEscrow for the merchant
+   * The registry entry is marked settled when the merchant releases the escrow
+   */
+  private async settleToEscrow(
+    paymentId: string,
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements,
+    handler: SchemeHandler,
+    stored: StoredPayment | null,
+    queued: boolean
+  ): Promise<SettlementResponse> {
+    const { authorization } = paymentPayload.payload;
+    const payer = authorization.from;
+    const amount = BigInt(authorization.value);
+    const facilitator = this.contractService.getFacilitatorAddress();
+
+    // Collect the funds into the facilitator wallet
+    let fundingTxHash = stored?.txHash;
+    if (!fundingTxHash) {
+      const collected = await handler.settle(paymentPayload, requirements, facilitator);
+      if (collected.status === 'pending_confirmation') {
+        return this.awaitConfirmation(paymentId, paymentPayload, collected, queued);
+      }
+      fundingTxHash = collected.txHash;
+      await this.consumeTransaction(paymentId, paymentPayload.network, fundingTxHash);
+      await this.paymentStore.update(paymentId, { txHash: fundingTxHash });
+    }
+
+    let registryPaymentId = stored?.registryPaymentId;
+    if (!registryPaymentId) {
+      log.info('Recording payment in registry', { paymentId, txHash: fundingTxHash });
+      registryPaymentId = await this.contractService.recordPayment(
+        requirements.payTo,
+        requirements.resource,
+        payer,
+        amount,
+        fundingTxHash
+      );
+      await this.paymentStore.update(paymentId, { registryPaymentId });
+    }
+
+    log.info('Creating escrow', { paymentId, registryPaymentId });
+    const timeoutSeconds =
+      requirements.extra?.escrowTimeoutSeconds ?? config.escrow.defaultTimeoutSeconds;
+    const {
+      escrowId,
+      txHash: escrowTxHash,
+      facilitator: escrowFacilitator,
+    } = await this.contractService.createEscrow(
+      requirements.payTo,
+      requirements.asset,
+      amount,
+      timeoutSeconds,
+      registryPaymentId,
+      requirements.resource
+    );
+
+    log.info('Escrow created', { paymentId, escrowId });
+    await this.nonceStore.markSettled(authorization.from, authorization.nonce);
+    const now = Math.floor(Date.now() / 1000);
+    const escrowed = await this.paymentStore.update(paymentId, {
+      status: 'escrowed',
+      escrow: {
+        escrowId,
+        status: 'active',
+        createdAt: now,
+        expiresAt: now + timeoutSeconds,
+        txHash: escrowTxHash,
+        facilitator: escrowFacilitator,
+      },
+      error: undefined,
+    });
+    if (escrowed) {
+      publishPaymentEvent('escrow.created', escrowed);
+    }
+
+    return {
+      success: true,
+      error: null,
+      txHash: escrowTxHash,
+      networkId: paymentPayload.network,
+      timestamp: Date.now(),
+      registryTxHash: registryPaymentId,
+      escrowId,
+      paymentId,
+      status: 'escrowed',
+    };
+  }
 }
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { SourceVerificationService } from './SourceVerificationService';
+
+const provider = {
+  getTransaction: vi.fn(),
+  getTransactionReceipt: vi.fn(),
+};
+
+vi.mock('../networks', () => ({
+  getNetworkProvider: () => provider,
+  getNetwork: () => ({ confirmations: 2, blockTimeSeconds: 5 }),
+}));
+
+const NATIVE_TOKEN = ethers.ZeroAddress;
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TOKEN = ethers.Wallet.createRandom().address;
+const PAYER = ethers.Wallet.createRandom().address;
+const PAYEE = ethers.Wallet.createRandom().address;
+const TX_HASH = ethers.hexlify(ethers.randomBytes(32));
+
+function transferLog(from: string, to: string, amount: bigint, asset = TOKEN) {
+  return {
+    address: asset,
+    topics: [TRANSFER_TOPIC, ethers.zeroPadValue(from, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [amount]),
+  };
+}
+
+function mockTransaction(
+  logs: ReturnType<typeof transferLog>[],
+  tx: { from?: string; to?: string; value?: bigint } = {},
+  confirmations = 2,
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  provider.getTransaction.mockResolvedValue({ from: PAYER, to: TOKEN, value: 0n, ...tx });
+  provider.getTransactionReceipt.mockResolvedValue({
+    status: 1,
+    logs,
+    confirmations: async () => confirmations,
+    getBlock: async () => ({ timestamp }),
+  });
+}
+
+function verify(service: SourceVerificationService, amount: bigint, asset = TOKEN) {
+  const now = Math.floor(Date.now() / 1000);
+  return service.verifyTransaction(TX_HASH, 'base-sepolia', {
+    asset,
+    from: PAYER,
+    to: PAYEE,
+    amount,
+    validAfter: now - 60,
+    validBefore: now + 60,
+  });
+}
+
+describe('SourceVerificationService', () => {
+  let service: SourceVerificationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SourceVerificationService();
+    config.verification.strictSourceChain = true;
+    config.verification.sourceDeadlineMs = 0;
+  });
+
+  it('sums the token transfers from the payer to the payee', async () => {
+    mockTransaction([transferLog(PAYER, PAYEE, 600n), transferLog(PAYER, PAYEE, 400n)]);
+
+    await expect(verify(service, 1000n)).resolves.toEqual({ status: 'verified' });
+  });
+
+  it('ignores transfers to other addresses and of other tokens', async () => {
+    const other = ethers.Wallet.createRandom().address;
+    mockTransaction([
+      transferLog(PAYER, PAYEE, 600n),
+      transferLog(PAYER, other, 400n),
+      transferLog(PAYER, PAYEE, 400n, other),
+    ]);
+
+    await expect(verify(service, 1000n)).rejects.toThrow(
+      'Transferred amount insufficient. Expected: 1000, Got: 600'
+    );
+  });
+
+  it('accepts relayed token transfers sent by another account', async () => {
+    mockTransaction([transferLog(PAYER, PAYEE, 1000n)], {
+      from: ethers.Wallet.createRandom().address,
+    });
+
+    await expect(verify(service, 1000n)).resolves.toEqual({ status: 'verified' });
+  });
+
+  it('rejects a transaction without a transfer to the payee', async () => {
+    mockTransaction([transferLog(PAYEE, PAYER, 1000n)]);
+
+    await expect(verify(service, 1000n)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+      message: `Transaction has no transfer from ${PAYER} to ${PAYEE}`,
+    });
+  });
+
+  it('rejects a transaction mined before the authorization window', async () => {
+    const minedAt = Math.floor(Date.now() / 1000) - 3600;
+    mockTransaction([transferLog(PAYER, PAYEE, 1000n)], {}, 2, minedAt);
+
+    await expect(verify(service, 1000n)).rejects.toMatchObject({
+      code: ErrorCode.SETTLEMENT_FAILED,
+      message: expect.stringContaining('outside the authorization window'),
+    });
+  });
+
+  it('checks native payments on the transaction itself', async () => {
+    mockTransaction([], { from: ethers.Wallet.createRandom().address, to: PAYEE, value: 1000n });
+
+    await expect(verify(service, 1000n, NATIVE_TOKEN)).rejects.toThrow(
+      'Transaction from address mismatch'
+    );
+  });
+
+  it('reports transactions short of their confirmations', async () => {
+    mockTransaction([transferLog(PAYER, PAYEE, 1000n)], {}, 1);
+
+    await expect(verify(service, 1000n)).resolves.toEqual({
+      status: 'pending_confirmation',
+      confirmations: 1,
+      required: 2,
+      retryAfter: 5,
+    });
+  });
+});
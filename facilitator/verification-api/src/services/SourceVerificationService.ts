@@ -0,0 +1,241 @@
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getNetwork, getNetworkProvider } from '../networks';
+import { parseTransferLogs, sumTransfers } from '../utils/transfers';
+import { withTimeout } from '../utils/timeout';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'SourceVerificationService' });
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+// Per-call RPC timeout in optimistic mode
+const OPTIMISTIC_RPC_TIMEOUT_MS = 10000;
+const MAX_RETRY_DELAY_MS = 8000;
+
+export interface ExpectedTransfer {
+  asset: string; // Token contract, or the zero address for native transfers
+  from: string;
+  to: string;
+  amount: bigint;
+  validAfter: number; // Authorization window (unix seconds) the transfer's block must fall in
+  validBefore: number;
+}
+
+export type SourceVerification =
+  | { status: 'verified' }
+  | {
+      status: 'pending_confirmation';
+      confirmations: number; // 0 when the transaction was not found
+      required: number;
+      retryAfter: number; // Seconds until the confirmations are likely reached
+    };
+
+/**
+ * Verifies agent-submitted payment transactions on their source chain
+ *
+ * Strict mode (the production default) requires a successful receipt with the
+ * network's configured confirmations, retrying lookups with backoff until
+ * SOURCE_VERIFICATION_DEADLINE_MS, and reports `pending_confirmation` otherwise.
+ * Optimistic mode accepts transactions it cannot find or look up in time.
+ */
+export class SourceVerificationService {
+  async verifyTransaction(
+    txHash: string,
+    network: string,
+    expected: ExpectedTransfer
+  ): Promise<SourceVerification> {
+    // Rejects unknown networks with UNSUPPORTED_NETWORK
+    const provider = getNetworkProvider(network);
+
+    if (!config.verification.strictSourceChain) {
+      await this.verifyOptimistic(provider, txHash, network, expected);
+      return { status: 'verified' };
+    }
+
+    const { confirmations: required, blockTimeSeconds } = getNetwork(network);
+    const deadline = Date.now() + config.verification.sourceDeadlineMs;
+    let delay = config.verification.sourceRetryBaseDelayMs;
+    let confirmations = 0;
+
+    for (;;) {
+      try {
+        const remaining = Math.max(deadline - Date.now(), 1);
+        const [tx, receipt] = await withTimeout(
+          Promise.all([provider.getTransaction(txHash), provider.getTransactionReceipt(txHash)]),
+          remaining
+        );
+
+        if (tx && receipt) {
+          await this.checkTransfer(tx, receipt, expected, remaining);
+
+          confirmations = await withTimeout(receipt.confirmations(), remaining);
+          if (confirmations >= required) {
+            log.info('Source transaction verified', { txHash, network, confirmations });
+            return { status: 'verified' };
+          }
+        }
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        log.warn('Source transaction lookup failed, retrying', { txHash, network, error });
+      }
+
+      if (Date.now() >= deadline) {
+        log.warn('Source transaction awaiting confirmations', {
+          txHash,
+          network,
+          confirmations,
+          required,
+        });
+        return {
+          status: 'pending_confirmation',
+          confirmations,
+          required,
+          retryAfter: Math.max(Math.ceil((required - confirmations) * blockTimeSeconds), 1),
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, deadline - Date.now())));
+      delay = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  /**
+   * Check a mined transaction against the expected transfer
+   * Native payments are checked on the transaction itself; token payments on the
+   * asset's Transfer events, which may be several (e.g. batched payouts). The
+   * transaction must be mined within the authorization's validity window, so an
+   * older transfer cannot be presented for a new authorization
+   */
+  private async checkTransfer(
+    tx: ethers.TransactionResponse,
+    receipt: ethers.TransactionReceipt,
+    expected: ExpectedTransfer,
+    timeoutMs: number
+  ): Promise<void> {
+    // Verify transaction succeeded
+    if (receipt.status !== 1) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        'Transaction failed on source chain'
+      );
+    }
+
+    const block = await withTimeout(receipt.getBlock(), timeoutMs);
+    if (block.timestamp < expected.validAfter || block.timestamp > expected.validBefore) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction was mined at ${block.timestamp}, outside the authorization window ` +
+          `${expected.validAfter}-${expected.validBefore}`
+      );
+    }
+
+    if (expected.asset.toLowerCase() !== NATIVE_TOKEN) {
+      this.checkTokenTransfer(receipt, expected);
+      return;
+    }
+
+    if (tx.from.toLowerCase() !== expected.from.toLowerCase()) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction from address mismatch. Expected: ${expected.from}, Got: ${tx.from}`
+      );
+    }
+
+    if (tx.to?.toLowerCase() !== expected.to.toLowerCase()) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction to address mismatch. Expected: ${expected.to}, Got: ${tx.to}`
+      );
+    }
+
+    if (tx.value < expected.amount) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction amount insufficient. Expected: ${expected.amount}, Got: ${tx.value}`
+      );
+    }
+  }
+
+  /**
+   * Match the asset's Transfer events from the payer to the payee
+   * The transaction sender is not checked, so relayed transfers are accepted
+   */
+  private checkTokenTransfer(
+    receipt: ethers.TransactionReceipt,
+    expected: ExpectedTransfer
+  ): void {
+    const transfers = parseTransferLogs(receipt, expected.asset);
+    if (transfers.length === 0) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction has no Transfer events for token ${expected.asset}`
+      );
+    }
+
+    const transferred = sumTransfers(transfers, expected.from, expected.to);
+    if (transferred === 0n) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transaction has no transfer from ${expected.from} to ${expected.to}`
+      );
+    }
+
+    if (transferred < expected.amount) {
+      throw new AppError(
+        ErrorCode.SETTLEMENT_FAILED,
+        `Transferred amount insufficient. Expected: ${expected.amount}, Got: ${transferred}`
+      );
+    }
+  }
+
+  /**
+   * Single lookup that lets missing or slow transactions through
+   */
+  private async verifyOptimistic(
+    provider: ethers.AbstractProvider,
+    txHash: string,
+    network: string,
+    expected: ExpectedTransfer
+  ): Promise<void> {
+    try {
+      const receipt = await withTimeout(
+        provider.getTransactionReceipt(txHash),
+        OPTIMISTIC_RPC_TIMEOUT_MS
+      );
+
+      if (!receipt) {
+        log.warn('Transaction not found, proceeding anyway', { txHash, network });
+        return; // Allow payment to proceed even if verification fails
+      }
+
+      const tx = await withTimeout(provider.getTransaction(txHash), OPTIMISTIC_RPC_TIMEOUT_MS);
+
+      if (!tx) {
+        log.warn('Transaction details not found, proceeding anyway', { txHash, network });
+        return;
+      }
+
+      await this.checkTransfer(tx, receipt, expected, OPTIMISTIC_RPC_TIMEOUT_MS);
+
+      log.info('Source transaction verified', {
+        txHash,
+        network,
+        from: expected.from,
+        to: expected.to,
+        amount: expected.amount,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'RPC timeout') {
+        log.warn('RPC timeout, proceeding with optimistic verification', { txHash, network });
+        // Allow to proceed - tx hash presence is proof enough
+        return;
+      }
+      throw error;
+    }
+  }
+}
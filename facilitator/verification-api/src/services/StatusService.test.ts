@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { PaymentPayload, PaymentRequirements } from '../types';
+import { getPaymentStore, StoredPayment } from '../store';
+import { publishPaymentEvent } from '../events';
+import { StatusService } from './StatusService';
+
+const merchantPayments = vi.fn<[string], Promise<string[]>>();
+const paymentRecord = vi.fn();
+
+vi.mock('../contracts/ContractService', () => ({
+  ContractService: class {
+    getMerchantPayments = merchantPayments;
+    getPaymentRecord = paymentRecord;
+  },
+}));
+
+vi.mock('../events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../events')>()),
+  publishPaymentEvent: vi.fn(),
+}));
+
+const MERCHANT = ethers.Wallet.createRandom().address;
+const PAYER = ethers.Wallet.createRandom().address;
+
+function makeRecord(index: number, settled: boolean) {
+  return {
+    requirementId: ethers.ZeroHash,
+    payer: PAYER,
+    originChain: 'push-chain',
+    originAddress: PAYER,
+    isUEA: false,
+    amount: String(index * 100),
+    timestamp: 1700000000 + index,
+    txHash: ethers.ZeroHash,
+    settled,
+  };
+}
+
+describe('StatusService.listMerchantPayments', () => {
+  let service: StatusService;
+  let ids: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new StatusService();
+    ids = Array.from({ length: 25 }, () => ethers.hexlify(ethers.randomBytes(32)));
+    merchantPayments.mockResolvedValue([...ids]);
+    paymentRecord.mockImplementation(async (id: string) => makeRecord(ids.indexOf(id) + 1, true));
+  });
+
+  it('only reads the requested page from the registry', async () => {
+    const result = await service.listMerchantPayments(MERCHANT, { page: 2, limit: 10 });
+
+    expect(paymentRecord).toHaveBeenCalledTimes(10);
+    expect(result.payments.map((payment) => payment.paymentId)).toEqual(
+      [...ids].reverse().slice(10, 20)
+    );
+    expect(result.pagination).toEqual({ page: 2, limit: 10, total: 25, totalPages: 3 });
+    expect(result.summary).toMatchObject({ totalPayments: 10, settledCount: 10 });
+  });
+
+  it('serves settled records from the cache on later pages', async () => {
+    await service.listMerchantPayments(MERCHANT, { page: 1, limit: 10, status: 'settled' });
+    expect(paymentRecord).toHaveBeenCalledTimes(25);
+
+    const result = await service.listMerchantPayments(MERCHANT, {
+      page: 3,
+      limit: 10,
+      status: 'settled',
+    });
+
+    expect(paymentRecord).toHaveBeenCalledTimes(25);
+    expect(result.payments).toHaveLength(5);
+    expect(result.pagination.total).toBe(25);
+  });
+
+  it('re-reads unsettled records once they go stale', async () => {
+    paymentRecord.mockImplementation(async (id: string) => makeRecord(ids.indexOf(id) + 1, false));
+    await service.listMerchantPayments(MERCHANT, { page: 1, limit: 5 });
+
+    vi.useFakeTimers({ now: Date.now() + 60000 });
+    try {
+      await service.listMerchantPayments(MERCHANT, { page: 1, limit: 5 });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(paymentRecord).toHaveBeenCalledTimes(10);
+  });
+});
+
+describe('StatusService.expireStalePayments', () => {
+  async function saveLapsedPayment(): Promise<StoredPayment> {
+    const now = Math.floor(Date.now() / 1000);
+    const payment = {
+      paymentId: ethers.hexlify(ethers.randomBytes(32)),
+      status: 'verified',
+      payload: {} as PaymentPayload,
+      requirements: {} as PaymentRequirements,
+      payer: PAYER,
+      payee: MERCHANT,
+      asset: ethers.Wallet.createRandom().address,
+      resource: '/premium',
+      network: 'push-chain',
+      amount: '1000',
+      createdAt: now - 120,
+      updatedAt: now - 120,
+      expiresAt: now - 60,
+    } satisfies StoredPayment;
+    await getPaymentStore().save(payment);
+    return payment;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('expires verified payments whose authorization lapsed', async () => {
+    const payment = await saveLapsedPayment();
+
+    await new StatusService().expireStalePayments();
+
+    expect((await getPaymentStore().get(payment.paymentId))?.status).toBe('expired');
+    expect(publishPaymentEvent).toHaveBeenCalledWith(
+      'payment.expired',
+      expect.objectContaining({ paymentId: payment.paymentId })
+    );
+  });
+
+  it('leaves a payment that started settling after the sweep found it', async () => {
+    const payment = await saveLapsedPayment();
+    const store = getPaymentStore();
+    const findExpired = store.findExpired.bind(store);
+    vi.spyOn(store, 'findExpired').mockImplementationOnce(async (now, limit) => {
+      const stale = await findExpired(now, limit);
+      await store.update(payment.paymentId, { status: 'settling' });
+      return stale;
+    });
+
+    await new StatusService().expireStalePayments();
+
+    expect((await store.get(payment.paymentId))?.status).toBe('settling');
+    expect(publishPaymentEvent).not.toHaveBeenCalled();
+  });
+});
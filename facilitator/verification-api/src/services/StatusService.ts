@@ -1,64 +1,345 @@
+import { ethers } from 'ethers';
 import { ContractService } from '../contracts/ContractService';
-import { PaymentStatus, ErrorCode } from '../types';
+import {
+  PaymentStatus,
+  PaymentHistoryQuery,
+  PaymentHistoryResponse,
+  ErrorCode,
+} from '../types';
 import { AppError } from '../middleware/errorHandler';
+import { getPaymentStore, PaymentStore, StoredPayment } from '../store';
+import { toPaymentStatus } from '../utils/payment';
+import { publishPaymentEvent } from '../events';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'StatusService' });
+
+type OnChainRecord = Awaited<ReturnType<ContractService['getPaymentRecord']>>;
+
+// Registry reads issued in parallel when hydrating payment history
+const HYDRATION_BATCH_SIZE = 10;
+
+// Registry records kept for payment history: settled records never change,
+// unsettled ones are re-read after a short while
+const RECORD_CACHE_SIZE = 10000;
+const UNSETTLED_RECORD_TTL_MS = 30000;
 
 /**
  * Payment status service
  */
 export class StatusService {
   private contractService: ContractService;
+  private paymentStore: PaymentStore;
+  private records = new Map<string, { record: OnChainRecord; expiresAt: number }>(); // LRU order
 
   constructor() {
     this.contractService = new ContractService();
+    this.paymentStore = getPaymentStore();
   }
 
   /**
    * Get payment status by ID
+   * Accepts either the facilitator paymentId or the registry paymentId
    */
   async getPaymentStatus(paymentId: string): Promise<PaymentStatus | null> {
     try {
-      // Get payment record from contract
-      const record = await this.contractService.getPaymentRecord(paymentId);
+      const stored =
+        (await this.paymentStore.get(paymentId)) ??
+        (await this.paymentStore.findByRegistryId(paymentId));
+
+      // Cross-check against the registry when the payment was recorded on-chain
+      const registryPaymentId = stored ? stored.registryPaymentId : paymentId;
+      const record = registryPaymentId
+        ? await this.getOnChainRecord(registryPaymentId)
+        : null;
 
-      // Check if payment exists
-      if (record.timestamp === 0) {
-        return null;
+      if (stored) {
+        return this.fromStoredPayment(stored, record);
       }
 
-      // Determine status
-      let status: PaymentStatus['status'];
-      if (record.settled) {
-        status = 'settled';
+      return record ? this.fromOnChainRecord(paymentId, record) : null;
+    } catch (error) {
+      log.error('Status check error', { error });
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        'Failed to get payment status',
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * List a merchant's registry payments, newest first
+   * Each record is hydrated through getPaymentRecord and merged with the payment store.
+   * Without filters only the requested page is hydrated; filters need every record,
+   * which later pages then read from the record cache
+   */
+  async listMerchantPayments(
+    merchant: string,
+    query: PaymentHistoryQuery
+  ): Promise<PaymentHistoryResponse> {
+    try {
+      const registryIds = (await this.contractService.getMerchantPayments(merchant)).reverse();
+      const start = (query.page - 1) * query.limit;
+      const filtered =
+        query.status !== undefined ||
+        query.resource !== undefined ||
+        query.payer !== undefined ||
+        query.from !== undefined ||
+        query.to !== undefined;
+
+      let payments: PaymentStatus[];
+      let total: number;
+      if (filtered) {
+        // The registry stores keccak256(merchant, resource) rather than the resource itself
+        const requirementId = query.resource
+          ? ethers.solidityPackedKeccak256(['address', 'string'], [merchant, query.resource])
+          : null;
+
+        const matches = (await this.hydrateAll(registryIds, merchant))
+          .filter(({ payment, requirementId: recordRequirementId }) => {
+            if (query.status && payment.status !== query.status) return false;
+            if (requirementId && recordRequirementId.toLowerCase() !== requirementId) return false;
+            if (query.payer && payment.payer.toLowerCase() !== query.payer.toLowerCase()) return false;
+            if (query.from !== undefined && payment.createdAt < query.from) return false;
+            if (query.to !== undefined && payment.createdAt > query.to) return false;
+            return true;
+          })
+          .map(({ payment }) => payment);
+
+        payments = matches.slice(start, start + query.limit);
+        total = matches.length;
       } else {
-        // Check if expired (assuming 1 hour timeout)
-        const now = Math.floor(Date.now() / 1000);
-        const expiresAt = record.timestamp + 3600;
-        status = now > expiresAt ? 'expired' : 'verified';
+        const page = registryIds.slice(start, start + query.limit);
+        payments = (await this.hydrateAll(page, merchant)).map(({ payment }) => payment);
+        total = registryIds.length;
       }
 
+      const pending: PaymentStatus['status'][] = [
+        'pending',
+        'verified',
+        'settling',
+        'escrowed',
+        'releasing',
+        'refunding',
+      ];
+
       return {
-        paymentId,
-        status,
-        amount: record.amount,
-        asset: '', // Would need to fetch from requirement
-        payer: record.payer,
-        payee: '', // Would need to fetch from requirement
-        network: record.originChain,
-        resource: '', // Would need to fetch from requirement
-        createdAt: record.timestamp,
-        verifiedAt: record.timestamp,
-        settledAt: record.settled ? record.timestamp : undefined,
-        txHash: record.txHash,
-        originChain: record.originChain,
+        payments,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+        summary: {
+          totalAmount: payments
+            .reduce((sum, payment) => sum + BigInt(payment.amount), 0n)
+            .toString(),
+          totalPayments: payments.length,
+          settledCount: payments.filter((payment) => payment.status === 'settled').length,
+          pendingCount: payments.filter((payment) => pending.includes(payment.status)).length,
+        },
       };
     } catch (error) {
-      console.error('Status check error:', error);
+      log.error('Payment history error', { error });
       throw new AppError(
         ErrorCode.INTERNAL_ERROR,
-        'Failed to get payment status',
+        'Failed to list merchant payments',
         500,
         error
       );
     }
   }
+
+  /**
+   * Mark verified payments whose authorization lapsed without settlement as expired
+   */
+  async expireStalePayments(): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    const stale = await this.paymentStore.findExpired(now, 100);
+
+    // Claim each payment, so one that began settling since the query isn't expired
+    let count = 0;
+    for (const payment of stale) {
+      const expired = await this.paymentStore.transition(payment.paymentId, ['verified'], {
+        status: 'expired',
+      });
+      if (expired) {
+        publishPaymentEvent('payment.expired', expired);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Fetch the registry record, or null if it does not exist
+   */
+  private async getOnChainRecord(registryPaymentId: string): Promise<OnChainRecord | null> {
+    const record = await this.contractService.getPaymentRecord(registryPaymentId);
+    return record.timestamp === 0 ? null : record;
+  }
+
+  /**
+   * Build the statuses of registry payments, a batch of registry reads at a time
+   */
+  private async hydrateAll(
+    registryPaymentIds: string[],
+    merchant: string
+  ): Promise<Array<{ payment: PaymentStatus; requirementId: string }>> {
+    const hydrated: Array<{ payment: PaymentStatus; requirementId: string }> = [];
+    for (let i = 0; i < registryPaymentIds.length; i += HYDRATION_BATCH_SIZE) {
+      const batch = registryPaymentIds.slice(i, i + HYDRATION_BATCH_SIZE);
+      const results = await Promise.all(batch.map((id) => this.hydrate(id, merchant)));
+      for (const result of results) {
+        if (result) hydrated.push(result);
+      }
+    }
+    return hydrated;
+  }
+
+  /**
+   * Registry record through the bounded history cache (least recently used evicted first)
+   */
+  private async getCachedRecord(registryPaymentId: string): Promise<OnChainRecord | null> {
+    const key = registryPaymentId.toLowerCase();
+    const cached = this.records.get(key);
+    this.records.delete(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.records.set(key, cached);
+      return cached.record;
+    }
+
+    const record = await this.getOnChainRecord(registryPaymentId);
+    if (record) {
+      this.records.set(key, {
+        record,
+        expiresAt: record.settled ? Infinity : Date.now() + UNSETTLED_RECORD_TTL_MS,
+      });
+      if (this.records.size > RECORD_CACHE_SIZE) {
+        this.records.delete(this.records.keys().next().value!);
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Build the status of a registry payment for a merchant's history
+   */
+  private async hydrate(
+    registryPaymentId: string,
+    merchant: string
+  ): Promise<{ payment: PaymentStatus; requirementId: string } | null> {
+    const record = await this.getCachedRecord(registryPaymentId);
+    if (!record) {
+      return null;
+    }
+
+    const stored = await this.paymentStore.findByRegistryId(registryPaymentId);
+    const payment = stored
+      ? await this.fromStoredPayment(stored, record)
+      : { ...this.fromOnChainRecord(registryPaymentId, record), payee: merchant };
+
+    return { payment, requirementId: record.requirementId };
+  }
+
+  /**
+   * Build status from the facilitator's payment store
+   */
+  private async fromStoredPayment(
+    stored: StoredPayment,
+    record: OnChainRecord | null
+  ): Promise<PaymentStatus> {
+    let payment = stored;
+    const mismatches: string[] = [];
+
+    if (record) {
+      if (record.payer.toLowerCase() !== stored.payer.toLowerCase()) {
+        mismatches.push(`payer (registry: ${record.payer})`);
+      }
+      if (record.amount !== stored.amount) {
+        mismatches.push(`amount (registry: ${record.amount})`);
+      }
+      if (mismatches.length > 0) {
+        log.warn('Payment differs from registry', { paymentId: stored.paymentId, mismatches });
+      }
+
+      // The registry is authoritative for settlement
+      if (record.settled && stored.status !== 'settled') {
+        payment =
+          (await this.paymentStore.update(stored.paymentId, {
+            status: 'settled',
+            settledAt: stored.settledAt ?? record.timestamp,
+            error: undefined,
+          })) ?? stored;
+      }
+    } else if (stored.registryPaymentId) {
+      log.warn('Payment not found in registry', { paymentId: stored.paymentId });
+    }
+
+    // Escrows can be refunded on-chain by anyone once they expire
+    if (payment.escrow?.status === 'active') {
+      const escrow = await this.contractService.getEscrow(payment.escrow.escrowId);
+      if (escrow.status !== 'active') {
+        log.warn('Escrow changed on-chain', {
+          escrowId: payment.escrow.escrowId,
+          status: escrow.status,
+        });
+        payment =
+          (await this.paymentStore.update(payment.paymentId, {
+            escrow: { ...payment.escrow, status: escrow.status },
+          })) ?? payment;
+      }
+    }
+
+    // A verified payment that was never settled expires with its authorization
+    let status = payment.status;
+    if (status === 'verified' && Math.floor(Date.now() / 1000) > payment.expiresAt) {
+      status = 'expired';
+    }
+
+    return {
+      ...toPaymentStatus(payment),
+      status,
+      originChain: record?.originChain,
+      onChainVerified: record !== null && mismatches.length === 0,
+    };
+  }
+
+  /**
+   * Build status from the registry alone (payments not known to this facilitator)
+   */
+  private fromOnChainRecord(paymentId: string, record: OnChainRecord): PaymentStatus {
+    // Determine status
+    let status: PaymentStatus['status'];
+    if (record.settled) {
+      status = 'settled';
+    } else {
+      // Check if expired (assuming 1 hour timeout)
+      const now = Math.floor(Date.now() / 1000);
+      const expiresAt = record.timestamp + 3600;
+      status = now > expiresAt ? 'expired' : 'verified';
+    }
+
+    return {
+      paymentId,
+      status,
+      amount: record.amount,
+      asset: '', // Not recorded on-chain
+      payer: record.payer,
+      payee: '', // Not recorded on-chain
+      network: record.originChain,
+      resource: '', // Not recorded on-chain
+      createdAt: record.timestamp,
+      verifiedAt: record.timestamp,
+      settledAt: record.settled ? record.timestamp : undefined,
+      txHash: record.txHash,
+      originChain: record.originChain,
+      registryPaymentId: paymentId,
+      onChainVerified: true,
+    };
+  }
 }
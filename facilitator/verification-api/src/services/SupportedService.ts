@@ -0,0 +1,125 @@
+import { config } from '../config';
+import { ContractService } from '../contracts/ContractService';
+import { AppError } from '../middleware/errorHandler';
+import {
+  ErrorCode,
+  NetworkConfig,
+  SupportedNetwork,
+  SupportedResponse,
+  SupportedToken,
+} from '../types';
+import { getNetworkProvider, listNetworks, SETTLEMENT_NETWORK } from '../networks';
+import { listSchemeKinds } from '../schemes';
+import { withTimeout } from '../utils/timeout';
+import { errorMessage } from '../utils/errors';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'SupportedService' });
+
+/**
+ * Discovery service for supported schemes, networks and tokens
+ * Results are cached for SUPPORTED_CACHE_TTL_MS since each build hits every RPC
+ */
+export class SupportedService {
+  private contractService: ContractService;
+  private cached: { value: Promise<SupportedResponse>; expiresAt: number } | null = null;
+
+  constructor() {
+    this.contractService = new ContractService();
+  }
+
+  /**
+   * Get supported schemes, networks and tokens
+   */
+  async getSupported(): Promise<SupportedResponse> {
+    const now = Date.now();
+
+    // Concurrent requests share one in-flight build
+    if (!this.cached || this.cached.expiresAt <= now) {
+      const value = this.build();
+      this.cached = { value, expiresAt: now + config.supported.cacheTtlMs };
+
+      // Don't cache failures
+      value.catch(() => {
+        if (this.cached?.value === value) {
+          this.cached = null;
+        }
+      });
+    }
+
+    return this.cached.value;
+  }
+
+  private async build(): Promise<SupportedResponse> {
+    const [networks, tokens] = await Promise.all([
+      Promise.all(listNetworks().map((network) => this.getNetwork(network))),
+      this.getTokens(),
+    ]);
+
+    const kinds = listSchemeKinds();
+
+    return {
+      x402Version: 1,
+      facilitatorAddress: this.contractService.getFacilitatorAddress(),
+      schemes: [...new Set(kinds.map((kind) => kind.scheme))],
+      kinds,
+      networks,
+      tokens,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /**
+   * Describe a network and probe its RPC
+   */
+  private async getNetwork(network: NetworkConfig): Promise<SupportedNetwork> {
+    const { rpcUrls, ...info } = network;
+    const provider = getNetworkProvider(network.id);
+    const started = Date.now();
+
+    let rpcStatus: SupportedNetwork['rpcStatus'];
+    try {
+      const blockNumber = await withTimeout(
+        provider.getBlockNumber(),
+        config.supported.rpcTimeoutMs
+      );
+
+      rpcStatus = { healthy: true, blockNumber, latencyMs: Date.now() - started };
+    } catch (error) {
+      rpcStatus = { healthy: false, error: errorMessage(error) };
+    }
+
+    // RPC URLs may embed provider API keys
+    return { ...info, rpcStatus };
+  }
+
+  /**
+   * Active tokens registered in the token manager
+   */
+  private async getTokens(): Promise<SupportedToken[]> {
+    let infos: Awaited<ReturnType<ContractService['getTokenInfo']>>[];
+    try {
+      const addresses = await this.contractService.getActiveTokens();
+      infos = await Promise.all(
+        addresses.map((address) => this.contractService.getTokenInfo(address))
+      );
+    } catch (error) {
+      log.error('Token discovery error', { error });
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        'Failed to load supported tokens',
+        500,
+        error
+      );
+    }
+
+    return infos
+      .filter((info) => info.isActive)
+      .map((info) => ({
+        address: info.tokenAddress,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        network: SETTLEMENT_NETWORK,
+      }));
+  }
+}
@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ErrorCode, PaymentPayload, PaymentRequirements, VerificationResponse } from '../types';
+import { getPaymentStore } from '../store';
+import { getPaymentId } from '../utils/payment';
+import { decodePayment } from '../schemes';
+import { SchemeHandler } from '../schemes/types';
+import { publishPaymentEvent } from '../events';
+import { VerificationService } from './VerificationService';
+
+vi.mock('../contracts/ContractService', () => ({
+  ContractService: class {
+    getFacilitatorAddress = () => '0x000000000000000000000000000000000000fac1';
+    isSupportedToken = async () => true;
+  },
+}));
+vi.mock('./GasEstimationService', () => ({
+  GasEstimationService: class {
+    estimateSettlement = async () => {
+      throw new Error('no RPC in tests');
+    };
+  },
+}));
+vi.mock('./BalanceService', () => ({ BalanceService: class {} }));
+vi.mock('./RequirementRegistryService', () => ({ RequirementRegistryService: class {} }));
+vi.mock('../schemes', () => ({ decodePayment: vi.fn() }));
+vi.mock('../events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../events')>()),
+  publishPaymentEvent: vi.fn(),
+}));
+
+const MERCHANT_A = ethers.Wallet.createRandom().address;
+const MERCHANT_B = ethers.Wallet.createRandom().address;
+
+const handler = {
+  scheme: 'exact',
+  payerFunds: 'none',
+  verify: vi.fn(
+    async (): Promise<VerificationResponse> => ({
+      isValid: true,
+      invalidReason: null,
+      signatureType: 'eoa',
+    })
+  ),
+};
+
+function makePayload(to: string): PaymentPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'push-chain',
+    payload: {
+      signature: ethers.hexlify(ethers.randomBytes(65)),
+      authorization: {
+        from: ethers.Wallet.createRandom().address,
+        to,
+        value: '1000',
+        validAfter: String(now - 10),
+        validBefore: String(now + 50),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+      },
+    },
+  };
+}
+
+function makeRequirements(payTo: string): PaymentRequirements {
+  return {
+    scheme: 'exact',
+    network: 'push-chain',
+    maxAmountRequired: '1000',
+    resource: '/premium',
+    description: 'Premium',
+    mimeType: 'application/json',
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: ethers.Wallet.createRandom().address,
+  };
+}
+
+function verify(service: VerificationService, payload: PaymentPayload, payTo: string) {
+  vi.mocked(decodePayment).mockReturnValue({
+    handler: handler as unknown as SchemeHandler,
+    paymentPayload: payload,
+  });
+  return service.verifyPayment({
+    x402Version: 1,
+    paymentHeader: 'header',
+    paymentRequirements: makeRequirements(payTo),
+  });
+}
+
+describe('VerificationService', () => {
+  let service: VerificationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new VerificationService();
+  });
+
+  it('records a valid verification for its payee', async () => {
+    const payload = makePayload(MERCHANT_A);
+
+    const result = await verify(service, payload, MERCHANT_A);
+
+    expect(result.isValid).toBe(true);
+    const stored = await getPaymentStore().get(getPaymentId(payload));
+    expect(stored).toMatchObject({ status: 'verified', payee: MERCHANT_A });
+    expect(publishPaymentEvent).toHaveBeenCalledWith('payment.verified', expect.anything());
+  });
+
+  it('does not let another merchant overwrite a verified payment', async () => {
+    const payload = makePayload(MERCHANT_A);
+    await verify(service, payload, MERCHANT_A);
+    vi.mocked(publishPaymentEvent).mockClear();
+
+    const replay = await verify(service, payload, MERCHANT_B);
+
+    expect(replay).toMatchObject({ isValid: false, errorCode: ErrorCode.PAYEE_MISMATCH });
+    const stored = await getPaymentStore().get(getPaymentId(payload));
+    expect(stored).toMatchObject({ status: 'verified', payee: MERCHANT_A, error: undefined });
+    expect(publishPaymentEvent).not.toHaveBeenCalled();
+  });
+
+  it('does not record attempts that fail the binding checks', async () => {
+    const payload = makePayload(MERCHANT_A);
+
+    const result = await verify(service, payload, MERCHANT_B);
+
+    expect(result.errorCode).toBe(ErrorCode.PAYEE_MISMATCH);
+    expect(await getPaymentStore().get(getPaymentId(payload))).toBeNull();
+    expect(publishPaymentEvent).not.toHaveBeenCalled();
+  });
+
+  it('does not record attempts with an invalid signature', async () => {
+    const payload = makePayload(MERCHANT_A);
+    handler.verify.mockResolvedValueOnce({
+      isValid: false,
+      invalidReason: 'Invalid signature',
+    });
+
+    await verify(service, payload, MERCHANT_A);
+
+    expect(await getPaymentStore().get(getPaymentId(payload))).toBeNull();
+    expect(publishPaymentEvent).not.toHaveBeenCalled();
+  });
+
+  it('records signed payments that fail later checks for the payee', async () => {
+    const payload = makePayload(MERCHANT_A);
+    payload.payload.authorization.validAfter = String(Math.floor(Date.now() / 1000) + 30);
+
+    await verify(service, payload, MERCHANT_A);
+
+    const stored = await getPaymentStore().get(getPaymentId(payload));
+    expect(stored).toMatchObject({
+      status: 'failed',
+      payee: MERCHANT_A,
+      error: 'Payment not yet valid',
+    });
+  });
+
+  it('keeps a verified payment when a forged payload reuses its nonce', async () => {
+    const payload = makePayload(MERCHANT_A);
+    await verify(service, payload, MERCHANT_A);
+    vi.mocked(publishPaymentEvent).mockClear();
+
+    handler.verify.mockResolvedValueOnce({
+      isValid: false,
+      invalidReason: 'Invalid signature',
+    });
+    await verify(service, payload, MERCHANT_A);
+
+    const stored = await getPaymentStore().get(getPaymentId(payload));
+    expect(stored).toMatchObject({ status: 'verified', error: undefined });
+    expect(publishPaymentEvent).not.toHaveBeenCalled();
+  });
+
+  it('leaves payments that are being settled untouched', async () => {
+    const payload = makePayload(MERCHANT_A);
+    await verify(service, payload, MERCHANT_A);
+    await getPaymentStore().update(getPaymentId(payload), { status: 'settling' });
+
+    handler.verify.mockResolvedValueOnce({
+      isValid: false,
+      invalidReason: 'Invalid signature',
+    });
+    await verify(service, payload, MERCHANT_A);
+
+    expect((await getPaymentStore().get(getPaymentId(payload)))?.status).toBe('settling');
+  });
+
+  it('rejects a nonce reused by a different payload', async () => {
+    const payload = makePayload(MERCHANT_A);
+    await verify(service, payload, MERCHANT_A);
+
+    const resigned: PaymentPayload = {
+      ...payload,
+      payload: { ...payload.payload, signature: ethers.hexlify(ethers.randomBytes(65)) },
+    };
+    const result = await verify(service, resigned, MERCHANT_A);
+
+    expect(result).toMatchObject({ isValid: false, errorCode: ErrorCode.NONCE_USED });
+    const stored = await getPaymentStore().get(getPaymentId(payload));
+    expect(stored?.payload.payload.signature).toBe(payload.payload.signature);
+  });
+
+  it('lets only one of two concurrent payloads claim a nonce', async () => {
+    const payload = makePayload(MERCHANT_A);
+    const resigned: PaymentPayload = {
+      ...payload,
+      payload: { ...payload.payload, signature: ethers.hexlify(ethers.randomBytes(65)) },
+    };
+
+    const schemeHandler = handler as unknown as SchemeHandler;
+    vi.mocked(decodePayment)
+      .mockReturnValueOnce({ handler: schemeHandler, paymentPayload: payload })
+      .mockReturnValueOnce({ handler: schemeHandler, paymentPayload: resigned });
+    const request = {
+      x402Version: 1,
+      paymentHeader: 'header',
+      paymentRequirements: makeRequirements(MERCHANT_A),
+    };
+    const results = await Promise.all([
+      service.verifyPayment(request),
+      service.verifyPayment(request),
+    ]);
+
+    expect(results.filter((result) => result.isValid)).toHaveLength(1);
+    expect(results.filter((result) => result.errorCode === ErrorCode.NONCE_USED)).toHaveLength(1);
+  });
+});
@@ -4,18 +4,43 @@ import {
   VerificationRequest, 
   VerificationResponse, 
   PaymentPayload,
+  PaymentRequirements,
+  PaymentStatus,
   ErrorCode 
 } from '../types';
 import { AppError } from '../middleware/errorHandler';
+import { getNonceStore, getPaymentStore, NonceStore, PaymentStore, StoredPayment } from '../store';
+import { getPaymentId, getSettlementMode } from '../utils/payment';
+import { config } from '../config';
+import { publishPaymentEvent } from '../events';
+import { verificationsTotal } from '../metrics';
+import { getNetwork, SETTLEMENT_NETWORK } from '../networks';
+import { BalanceService } from './BalanceService';
+import { GasEstimationService } from './GasEstimationService';
+import { RequirementRegistryService } from './RequirementRegistryService';
+import { decodePayment, SchemeHandler } from '../schemes';
+import { logger } from '../logger';
+
+const log = logger.child({ service: 'VerificationService' });
 
 /**
  * Payment verification service
  */
 export class VerificationService {
   private contractService: ContractService;
+  private paymentStore: PaymentStore;
+  private nonceStore: NonceStore;
+  private gasEstimationService: GasEstimationService;
+  private balanceService: BalanceService;
+  private requirementRegistryService: RequirementRegistryService;
 
   constructor() {
     this.contractService = new ContractService();
+    this.gasEstimationService = new GasEstimationService();
+    this.balanceService = new BalanceService();
+    this.requirementRegistryService = new RequirementRegistryService();
+    this.paymentStore = getPaymentStore();
+    this.nonceStore = getNonceStore();
   }
 
   /**
@@ -23,180 +48,367 @@ export class VerificationService {
    */
   async verifyPayment(request: VerificationRequest): Promise<VerificationResponse> {
     try {
-      // Decode payment header
-      const paymentPayload = this.decodePaymentHeader(request.paymentHeader);
+      // Decode payment header with its scheme's handler (rejects unknown schemes and networks)
+      const { handler, paymentPayload } = decodePayment(request.paymentHeader);
+      const paymentId = getPaymentId(paymentPayload);
 
-      // Validate x402 version
-      if (paymentPayload.x402Version !== request.x402Version) {
-        return {
-          isValid: false,
-          invalidReason: 'Version mismatch',
-        };
+      // Reject networks missing from the registry
+      getNetwork(request.paymentRequirements.network);
+
+      // A payment stays with the payee it was first verified for
+      const existing = await this.paymentStore.get(paymentId);
+      let result: VerificationResponse | null =
+        existing && existing.payee.toLowerCase() !== request.paymentRequirements.payTo.toLowerCase()
+          ? {
+              isValid: false,
+              invalidReason: 'Payment is recorded for another payee',
+              errorCode: ErrorCode.PAYEE_MISMATCH,
+            }
+          : await this.checkRequest(paymentPayload, request);
+
+      // Scheme-specific checks (signature, on-chain authorization state)
+      let signed = false;
+      if (!result) {
+        const schemeCheck = await handler.verify(paymentPayload, request.paymentRequirements);
+        signed = schemeCheck.isValid;
+        result = signed
+          ? await this.checkPayment(handler, paymentPayload, request, paymentId, schemeCheck)
+          : schemeCheck;
       }
 
-      // Validate scheme
-      if (paymentPayload.scheme !== 'exact') {
-        return {
-          isValid: false,
-          invalidReason: 'Unsupported payment scheme',
-        };
+      // Persist only attempts the payer signed, so a forged payload can't overwrite their
+      // payment, and whose nonce isn't held by another payment
+      if (signed && result.errorCode !== ErrorCode.NONCE_USED) {
+        await this.recordAttempt(paymentId, paymentPayload, request.paymentRequirements, result);
       }
 
-      // Verify signature
-      const isSignatureValid = await this.verifySignature(
-        paymentPayload,
-        request.paymentRequirements
-      );
+      verificationsTotal.inc({
+        outcome: result.isValid ? 'valid' : 'invalid',
+        reason: result.errorCode ?? result.invalidReason ?? '',
+      });
+      return result.isValid ? { ...result, paymentId } : result;
+    } catch (error) {
+      log.error('Verification error', { error });
+      verificationsTotal.inc({
+        outcome: 'error',
+        reason: error instanceof AppError ? error.code : ErrorCode.INTERNAL_ERROR,
+      });
 
-      if (!isSignatureValid) {
-        return {
-          isValid: false,
-          invalidReason: 'Invalid signature',
-        };
+      if (error instanceof AppError) {
+        throw error;
       }
 
-      // Verify amount
-      const authorization = paymentPayload.payload.authorization;
-      const requiredAmount = BigInt(request.paymentRequirements.maxAmountRequired);
-      const providedAmount = BigInt(authorization.value);
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        'Verification failed',
+        500,
+        error
+      );
+    }
+  }
+
+  /**
+   * Check the request itself before the signature: version, binding to the payment
+   * requirements and the registry's requirement rules
+   */
+  private async checkRequest(
+    paymentPayload: PaymentPayload,
+    request: VerificationRequest
+  ): Promise<VerificationResponse | null> {
+    // Validate x402 version
+    if (paymentPayload.x402Version !== request.x402Version) {
+      return {
+        isValid: false,
+        invalidReason: 'Version mismatch',
+      };
+    }
+
+    // The authorization must be for exactly what the merchant asked
+    const bindingCheck = this.checkBinding(paymentPayload, request.paymentRequirements);
+    if (bindingCheck) {
+      return bindingCheck;
+    }
+
+    // Reject requirements the registry would refuse in recordPayment
+    if (request.validateRequirements ?? config.registryRequirements.validate) {
+      return this.requirementRegistryService.checkRequirements(request.paymentRequirements);
+    }
+
+    return null;
+  }
+
+  /**
+   * Run the remaining checks on a payment whose signature the scheme has verified
+   */
+  private async checkPayment(
+    handler: SchemeHandler,
+    paymentPayload: PaymentPayload,
+    request: VerificationRequest,
+    paymentId: string,
+    schemeCheck: VerificationResponse
+  ): Promise<VerificationResponse> {
+    // Verify token is supported (skip check for native tokens)
+    const isNativeToken = request.paymentRequirements.asset === '0x0000000000000000000000000000000000000000';
+    
+    if (!isNativeToken) {
+      const isTokenSupported = await this.contractService.isSupportedToken(
+        request.paymentRequirements.asset
+      );
 
-      if (providedAmount < requiredAmount) {
+      if (!isTokenSupported) {
         return {
           isValid: false,
-          invalidReason: `Insufficient amount. Required: ${requiredAmount}, Provided: ${providedAmount}`,
+          invalidReason: 'Unsupported token',
         };
       }
+    }
+    // Native tokens (address(0)) are always supported
 
-      // Verify token is supported (skip check for native tokens)
-      const isNativeToken = request.paymentRequirements.asset === '0x0000000000000000000000000000000000000000';
-      
-      if (!isNativeToken) {
-        const isTokenSupported = await this.contractService.isSupportedToken(
-          request.paymentRequirements.asset
-        );
-
-        if (!isTokenSupported) {
-          return {
-            isValid: false,
-            invalidReason: 'Unsupported token',
-          };
-        }
+    // Escrow payments are made out to the facilitator, which locks them in the
+    // Push Chain escrow contract on the merchant's behalf
+    if (getSettlementMode(request.paymentRequirements) === 'escrow') {
+      const escrowCheck = this.checkEscrowPayment(paymentPayload, request.paymentRequirements);
+      if (escrowCheck) {
+        return escrowCheck;
       }
-      // Native tokens (address(0)) are always supported
+    }
 
-      // Verify timing
-      const now = Math.floor(Date.now() / 1000);
-      const validAfter = parseInt(authorization.validAfter);
-      const validBefore = parseInt(authorization.validBefore);
+    // Verify timing
+    const { authorization } = paymentPayload.payload;
+    const now = Math.floor(Date.now() / 1000);
+    const validAfter = parseInt(authorization.validAfter);
+    const validBefore = parseInt(authorization.validBefore);
 
-      if (now < validAfter) {
-        return {
-          isValid: false,
-          invalidReason: 'Payment not yet valid',
-        };
-      }
+    if (now < validAfter) {
+      return {
+        isValid: false,
+        invalidReason: 'Payment not yet valid',
+      };
+    }
 
-      if (now > validBefore) {
-        return {
-          isValid: false,
-          invalidReason: 'Payment expired',
-        };
+    if (now > validBefore) {
+      return {
+        isValid: false,
+        invalidReason: 'Payment expired',
+      };
+    }
+
+    // The payer must be able to cover the payment when it settles
+    if (handler.payerFunds !== 'none') {
+      const fundsCheck = await this.balanceService.checkFunds({
+        network: paymentPayload.network,
+        asset: request.paymentRequirements.asset,
+        payer: authorization.from,
+        amount: BigInt(authorization.value),
+        spender:
+          handler.payerFunds === 'allowance'
+            ? this.contractService.getFacilitatorAddress()
+            : undefined,
+      });
+      if (fundsCheck) {
+        return fundsCheck;
       }
+    }
+
+    // Reject replayed authorizations
+    const nonceCheck = await this.checkNonce(paymentId, paymentPayload);
+    if (nonceCheck) {
+      return nonceCheck;
+    }
+
+    // Simulate settlement; a failed estimate doesn't invalidate the payment
+    const gasEstimate = await this.gasEstimationService
+      .estimateSettlement(request.paymentRequirements, paymentPayload)
+      .catch((error) => {
+        log.warn('Settlement gas estimate unavailable', { error });
+        return undefined;
+      });
+
+    // All checks passed
+    return {
+      isValid: true,
+      invalidReason: null,
+      signatureType: schemeCheck.signatureType,
+      estimatedGas: gasEstimate?.gasUnits,
+      gasEstimate,
+      expiresAt: validBefore,
+    };
+  }
+
+  /**
+   * Check the authorization matches the payment requirements: network, payee,
+   * validity window and amount
+   */
+  private checkBinding(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): VerificationResponse | null {
+    const { authorization } = paymentPayload.payload;
 
-      // All checks passed
+    // Networks may be named by ID or CAIP-2 ID
+    if (getNetwork(paymentPayload.network).id !== getNetwork(requirements.network).id) {
       return {
-        isValid: true,
-        invalidReason: null,
-        estimatedGas: '300000', // Estimated gas for settlement
-        expiresAt: validBefore,
+        isValid: false,
+        invalidReason: `Network mismatch. Required: ${requirements.network}, Provided: ${paymentPayload.network}`,
+        errorCode: ErrorCode.NETWORK_MISMATCH,
       };
-    } catch (error) {
-      console.error('Verification error:', error);
-      throw new AppError(
-        ErrorCode.INTERNAL_ERROR,
-        'Verification failed',
-        500,
-        error
-      );
     }
+
+    // Escrow payments are made out to the facilitator, which escrows them for payTo
+    const payee =
+      getSettlementMode(requirements) === 'escrow'
+        ? this.contractService.getFacilitatorAddress()
+        : requirements.payTo;
+    if (authorization.to.toLowerCase() !== payee.toLowerCase()) {
+      return {
+        isValid: false,
+        invalidReason: `Payee mismatch. Required: ${payee}, Provided: ${authorization.to}`,
+        errorCode: ErrorCode.PAYEE_MISMATCH,
+      };
+    }
+
+    const window = BigInt(authorization.validBefore) - BigInt(authorization.validAfter);
+    if (window > BigInt(requirements.maxTimeoutSeconds)) {
+      return {
+        isValid: false,
+        invalidReason: `Validity window too long. Maximum: ${requirements.maxTimeoutSeconds}s, Provided: ${window}s`,
+        errorCode: ErrorCode.WINDOW_TOO_LONG,
+      };
+    }
+
+    const requiredAmount = BigInt(requirements.maxAmountRequired);
+    const providedAmount = BigInt(authorization.value);
+
+    if (providedAmount < requiredAmount) {
+      return {
+        isValid: false,
+        invalidReason: `Insufficient amount. Required: ${requiredAmount}, Provided: ${providedAmount}`,
+        errorCode: ErrorCode.INSUFFICIENT_AMOUNT,
+      };
+    }
+
+    if (providedAmount > requiredAmount && !config.verification.allowOverpayment) {
+      return {
+        isValid: false,
+        invalidReason: `Amount must be exact. Required: ${requiredAmount}, Provided: ${providedAmount}`,
+        errorCode: ErrorCode.AMOUNT_NOT_EXACT,
+      };
+    }
+
+    return null;
   }
 
   /**
-   * Decode base64 payment header
+   * Check an escrow-mode payment can be escrowed by this facilitator
    */
-  private decodePaymentHeader(paymentHeader: string): PaymentPayload {
-    try {
-      const decoded = Buffer.from(paymentHeader, 'base64').toString('utf-8');
-      return JSON.parse(decoded);
-    } catch (error) {
-      throw new AppError(
-        ErrorCode.INVALID_REQUEST,
-        'Invalid payment header encoding'
-      );
+  private checkEscrowPayment(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): VerificationResponse | null {
+    if (getNetwork(paymentPayload.network).id !== SETTLEMENT_NETWORK) {
+      return {
+        isValid: false,
+        invalidReason: `Escrow settlement is only available on ${SETTLEMENT_NETWORK}`,
+      };
+    }
+
+    const timeout = requirements.extra?.escrowTimeoutSeconds;
+    if (
+      timeout !== undefined &&
+      (!Number.isInteger(timeout) || timeout <= 0 || timeout > config.escrow.maxTimeoutSeconds)
+    ) {
+      return {
+        isValid: false,
+        invalidReason: `escrowTimeoutSeconds must be between 1 and ${config.escrow.maxTimeoutSeconds}`,
+      };
     }
+
+    return null;
   }
 
   /**
-   * Get chain ID for network
+   * Check that the authorization nonce has not been used, and claim it for this payment
+   * Re-verifying the same payload is allowed until it is settled
    */
-  private getChainId(network: string): number {
-    const chainIds: Record<string, number> = {
-      'push-chain': 42101,
-      'ethereum-sepolia': 11155111,
-      'ethereum': 1,
-      'base-sepolia': 84532,
-      'base': 8453,
-      'arbitrum': 42161,
-      'optimism': 10,
-      'polygon': 137,
-    };
-    
-    return chainIds[network] || 42101; // Default to Push Chain
+  private async checkNonce(
+    paymentId: string,
+    paymentPayload: PaymentPayload
+  ): Promise<VerificationResponse | null> {
+    const { signature, authorization } = paymentPayload.payload;
+    const payloadHash = ethers.id(signature);
+    const record = await this.nonceStore.claim({
+      from: authorization.from,
+      nonce: authorization.nonce,
+      paymentId,
+      payloadHash,
+      status: 'verified',
+      expiresAt: parseInt(authorization.validBefore),
+    });
+
+    if (record.status === 'settled' || record.payloadHash !== payloadHash) {
+      return {
+        isValid: false,
+        invalidReason: 'Nonce already used',
+        errorCode: ErrorCode.NONCE_USED,
+      };
+    }
+
+    return null;
   }
 
   /**
-   * Verify EIP-712 signature
+   * Save the outcome of a verification attempt to the payment store
    */
-  private async verifySignature(
+  private async recordAttempt(
+    paymentId: string,
     paymentPayload: PaymentPayload,
-    requirements: any
-  ): Promise<boolean> {
-    try {
-      const { signature, authorization } = paymentPayload.payload;
-
-      // Build EIP-712 domain with proper chain ID mapping
-      const domain = requirements.extra?.domain || {
-        name: 'x402 Payment',
-        version: '1',
-        chainId: this.getChainId(paymentPayload.network),
-        verifyingContract: requirements.asset,
-      };
+    requirements: PaymentRequirements,
+    result: VerificationResponse
+  ): Promise<void> {
+    const existing = await this.paymentStore.get(paymentId);
 
-      // Build typed data
-      const types = {
-        Authorization: [
-          { name: 'from', type: 'address' },
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'validAfter', type: 'uint256' },
-          { name: 'validBefore', type: 'uint256' },
-          { name: 'nonce', type: 'bytes32' },
-        ],
-      };
+    // Only new payments and failed attempts are (re)recorded: a verified payment moves on
+    // through settlement or expiry, never back to failed
+    if (existing && existing.status !== 'failed') {
+      return;
+    }
 
-      // Recover signer
-      const recoveredAddress = ethers.verifyTypedData(
-        domain,
-        types,
-        authorization,
-        signature
-      );
+    const now = Math.floor(Date.now() / 1000);
+    const { authorization } = paymentPayload.payload;
 
-      // Verify signer matches 'from' address
-      return recoveredAddress.toLowerCase() === authorization.from.toLowerCase();
-    } catch (error) {
-      console.error('Signature verification error:', error);
-      return false;
+    let status: PaymentStatus['status'] = 'verified';
+    if (!result.isValid) {
+      status = result.invalidReason === 'Payment expired' ? 'expired' : 'failed';
+    }
+
+    const payment: StoredPayment = {
+      paymentId,
+      status,
+      payload: paymentPayload,
+      requirements,
+      payer: authorization.from,
+      payee: existing?.payee ?? requirements.payTo,
+      asset: requirements.asset,
+      resource: requirements.resource,
+      network: paymentPayload.network,
+      amount: authorization.value,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      expiresAt: parseInt(authorization.validBefore),
+      verifiedAt: result.isValid ? (existing?.verifiedAt ?? now) : existing?.verifiedAt,
+      error: result.invalidReason ?? undefined,
+    };
+
+    // Conditional writes: a concurrent request may have recorded or claimed it since
+    const recorded = existing
+      ? await this.paymentStore.transition(paymentId, ['failed'], payment)
+      : await this.paymentStore.create(payment);
+    if (!recorded) {
+      return;
+    }
+
+    if (existing?.status !== status) {
+      publishPaymentEvent(`payment.${status}`, payment);
     }
   }
 }
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config';
+import { PaymentEvent } from '../events';
+import { getWebhookStore } from '../store';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookService } from './WebhookService';
+
+const PUBLIC_URL = 'https://93.184.216.34/x402/webhook';
+
+function makeEvent(merchant: string): PaymentEvent {
+  return {
+    type: 'payment.settled',
+    paymentId: '0x01',
+    merchant,
+    timestamp: 1700000000,
+    data: { status: 'settled' },
+  };
+}
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let merchant: string;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    service = new WebhookService();
+    merchant = `0x${Math.random().toString(16).slice(2).padStart(40, '0')}`;
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    'https://127.0.0.1/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://10.1.2.3/hook',
+    'https://192.168.1.10/hook',
+    'https://[::1]/hook',
+    'https://[fd00::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+  ])('rejects non-public webhook URL %s', async (url) => {
+    await expect(
+      service.registerEndpoint(merchant, url, ['payment.settled'])
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+
+  it('rejects plain http outside development', async () => {
+    await expect(
+      service.registerEndpoint(merchant, 'http://93.184.216.34/hook', ['payment.settled'])
+    ).rejects.toThrow('Webhook URL must use https');
+  });
+
+  it('signs deliveries and does not follow redirects', async () => {
+    const { endpoint, secret } = await service.registerEndpoint(merchant, PUBLIC_URL, [
+      'payment.settled',
+    ]);
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+    await service.dispatch(makeEvent(merchant));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(PUBLIC_URL);
+    expect(init.redirect).toBe('manual');
+
+    const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(
+      init.headers[WEBHOOK_SIGNATURE_HEADER]
+    )!;
+    expect(signature).toBe(WebhookService.sign(secret, Number(timestamp), init.body));
+
+    const [delivery] = await service.listDeliveries(merchant, endpoint.id);
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200 });
+  });
+
+  it('only delivers events the endpoint subscribed to', async () => {
+    await service.registerEndpoint(merchant, PUBLIC_URL, ['payment.failed']);
+
+    await service.dispatch(makeEvent(merchant));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries failed deliveries with exponential backoff, then gives up', async () => {
+    const { endpoint } = await service.registerEndpoint(merchant, PUBLIC_URL, [
+      'payment.settled',
+    ]);
+    fetchMock.mockResolvedValue(new Response(null, { status: 302 }));
+
+    await service.dispatch(makeEvent(merchant));
+    let [delivery] = await service.listDeliveries(merchant, endpoint.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 302 });
+    expect(delivery.nextAttemptAt! - delivery.lastAttemptAt!).toBe(
+      config.webhooks.retryBaseDelaySeconds
+    );
+
+    delivery = await service.redeliver(merchant, endpoint.id, delivery.id);
+    expect(delivery.nextAttemptAt! - delivery.lastAttemptAt!).toBe(
+      config.webhooks.retryBaseDelaySeconds * 2
+    );
+
+    while (delivery.attempts < config.webhooks.maxAttempts) {
+      delivery = await service.redeliver(merchant, endpoint.id, delivery.id);
+    }
+    expect(delivery).toMatchObject({ status: 'failed', nextAttemptAt: undefined });
+  });
+
+  it('sends a due delivery once when retry sweeps overlap', async () => {
+    const { endpoint } = await service.registerEndpoint(merchant, PUBLIC_URL, [
+      'payment.settled',
+    ]);
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+    await service.dispatch(makeEvent(merchant));
+    const [delivery] = await service.listDeliveries(merchant, endpoint.id);
+    await getWebhookStore().saveDelivery({
+      ...delivery,
+      nextAttemptAt: Math.floor(Date.now() / 1000) - 1,
+    });
+    fetchMock.mockClear();
+
+    await Promise.all([
+      service.retryDueDeliveries(),
+      service.retryDueDeliveries(),
+      new WebhookService().retryDueDeliveries(),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [retried] = await service.listDeliveries(merchant, endpoint.id);
+    expect(retried).toMatchObject({ status: 'pending', attempts: 2 });
+  });
+
+  it('checks the host again before each delivery', async () => {
+    const { endpoint } = await service.registerEndpoint(merchant, PUBLIC_URL, [
+      'payment.settled',
+    ]);
+    const stored = (await getWebhookStore().getEndpoint(endpoint.id))!;
+    await getWebhookStore().createEndpoint({ ...stored, url: 'https://127.0.0.1/hook' });
+
+    await service.dispatch(makeEvent(merchant));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [delivery] = await service.listDeliveries(merchant, endpoint.id);
+    expect(delivery.error).toMatch(/non-public address/);
+  });
+});
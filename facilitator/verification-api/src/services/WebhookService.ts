@@ -0,0 +1,391 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { config } from '../config';
+import { ErrorCode } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { paymentEvents, PaymentEvent, PAYMENT_EVENT_TYPES } from '../events';
+import { getWebhookStore, WebhookDelivery, WebhookEndpoint, WebhookStore } from '../store';
+import { logger } from '../logger';
+import { errorMessage } from '../utils/errors';
+
+const log = logger.child({ service: 'WebhookService' });
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-X402-Signature';
+
+export type WebhookEndpointInfo = Omit<WebhookEndpoint, 'secret'>;
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback; IPv4-mapped addresses match the IPv4 ranges
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Webhook delivery service
+ * Signs payment lifecycle events with HMAC-SHA256 and retries failed deliveries with backoff
+ */
+export class WebhookService {
+  private webhookStore: WebhookStore;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retrying = false;
+
+  constructor() {
+    this.webhookStore = getWebhookStore();
+  }
+
+  /**
+   * Subscribe to payment events and start the retry worker
+   */
+  start(pollIntervalMs: number = 10000): void {
+    paymentEvents.subscribe((event) => {
+      this.dispatch(event).catch((error) => log.error('Webhook dispatch error', { error }));
+    });
+
+    this.retryTimer = setInterval(() => {
+      this.retryDueDeliveries().catch((error) => log.error('Webhook retry error', { error }));
+    }, pollIntervalMs);
+    this.retryTimer.unref();
+  }
+
+  /**
+   * Stop the retry worker
+   */
+  stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Register a webhook endpoint for a merchant
+   * The signing secret is only returned here
+   */
+  async registerEndpoint(
+    merchant: string,
+    url: string,
+    events: string[]
+  ): Promise<{ endpoint: WebhookEndpointInfo; secret: string }> {
+    await this.validateUrl(url);
+
+    const supported: readonly string[] = PAYMENT_EVENT_TYPES;
+    const unknown = events.filter((event) => !supported.includes(event));
+    if (events.length === 0 || unknown.length > 0) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid webhook events. Supported: ${PAYMENT_EVENT_TYPES.join(', ')}`,
+        400,
+        { unknown }
+      );
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: `wh_${crypto.randomBytes(8).toString('hex')}`,
+      merchant: merchant.toLowerCase(),
+      url,
+      events,
+      secret: `whsec_${crypto.randomBytes(32).toString('hex')}`,
+      active: true,
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+
+    await this.webhookStore.createEndpoint(endpoint);
+
+    return { endpoint: this.toInfo(endpoint), secret: endpoint.secret };
+  }
+
+  /**
+   * List a merchant's webhook endpoints
+   */
+  async listEndpoints(merchant: string): Promise<WebhookEndpointInfo[]> {
+    const endpoints = await this.webhookStore.listEndpoints(merchant);
+    return endpoints.map((endpoint) => this.toInfo(endpoint));
+  }
+
+  /**
+   * Remove a merchant's webhook endpoint
+   */
+  async deleteEndpoint(merchant: string, endpointId: string): Promise<void> {
+    await this.getOwnedEndpoint(merchant, endpointId);
+    await this.webhookStore.deleteEndpoint(endpointId);
+  }
+
+  /**
+   * Delivery log for an endpoint, newest first
+   */
+  async listDeliveries(
+    merchant: string,
+    endpointId: string,
+    limit: number = 50
+  ): Promise<WebhookDelivery[]> {
+    await this.getOwnedEndpoint(merchant, endpointId);
+    return this.webhookStore.listDeliveries(endpointId, limit);
+  }
+
+  /**
+   * Manually re-send a delivery, regardless of its current state
+   */
+  async redeliver(
+    merchant: string,
+    endpointId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery> {
+    const endpoint = await this.getOwnedEndpoint(merchant, endpointId);
+    const delivery = await this.webhookStore.getDelivery(deliveryId);
+
+    if (!delivery || delivery.endpointId !== endpoint.id) {
+      throw new AppError(ErrorCode.WEBHOOK_NOT_FOUND, 'Webhook delivery not found', 404);
+    }
+
+    return this.attempt({ ...delivery, status: 'pending' }, endpoint);
+  }
+
+  /**
+   * Create and send deliveries for every endpoint subscribed to an event
+   */
+  async dispatch(event: PaymentEvent): Promise<void> {
+    const endpoints = await this.webhookStore.listEndpoints(event.merchant);
+    const subscribed = endpoints.filter(
+      (endpoint) => endpoint.active && endpoint.events.includes(event.type)
+    );
+
+    for (const endpoint of subscribed) {
+      const id = `whd_${crypto.randomBytes(12).toString('hex')}`;
+      const delivery: WebhookDelivery = {
+        id,
+        endpointId: endpoint.id,
+        event: event.type,
+        paymentId: event.paymentId,
+        payload: JSON.stringify({
+          id,
+          event: event.type,
+          paymentId: event.paymentId,
+          timestamp: event.timestamp,
+          data: event.data,
+        }),
+        status: 'pending',
+        attempts: 0,
+        createdAt: Math.floor(Date.now() / 1000),
+      };
+
+      await this.webhookStore.saveDelivery(delivery);
+      await this.attempt(delivery, endpoint);
+    }
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed
+   * Each delivery is claimed first, so overlapping sweeps and other instances don't send
+   * it twice; a claim lapses after one request timeout if its attempt never finishes
+   */
+  async retryDueDeliveries(): Promise<void> {
+    if (this.retrying) {
+      return;
+    }
+
+    this.retrying = true;
+    try {
+      const claimSeconds = Math.ceil(config.webhooks.timeoutMs / 1000) + 1;
+      const due = await this.webhookStore.findDueDeliveries(Math.floor(Date.now() / 1000), 50);
+
+      for (const delivery of due) {
+        const claimUntil = Math.floor(Date.now() / 1000) + claimSeconds;
+        const claimed = await this.webhookStore.claimDelivery(
+          delivery.id,
+          delivery.nextAttemptAt ?? 0,
+          claimUntil
+        );
+        if (!claimed) {
+          continue; // Claimed by another worker
+        }
+
+        const endpoint = await this.webhookStore.getEndpoint(delivery.endpointId);
+
+        if (!endpoint || !endpoint.active) {
+          await this.webhookStore.saveDelivery({
+            ...delivery,
+            status: 'failed',
+            nextAttemptAt: undefined,
+            error: 'Webhook endpoint removed',
+          });
+          continue;
+        }
+
+        await this.attempt(delivery, endpoint);
+      }
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  /**
+   * Compute the signature for a payload
+   * Signed content is `${timestamp}.${payload}`
+   */
+  static sign(secret: string, timestamp: number, payload: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  }
+
+  /**
+   * POST a delivery to its endpoint and record the outcome
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    endpoint: WebhookEndpoint
+  ): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = WebhookService.sign(endpoint.secret, timestamp, delivery.payload);
+
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      // DNS may have changed since registration
+      await this.assertPublicHost(new URL(endpoint.url));
+
+      // Redirects are not followed: they could point anywhere, including private hosts
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-X402-Event': delivery.event,
+          'X-X402-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = errorMessage(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      lastAttemptAt: timestamp,
+      responseStatus,
+      error,
+    };
+
+    if (!error) {
+      updated.status = 'succeeded';
+      updated.nextAttemptAt = undefined;
+    } else if (attempts >= config.webhooks.maxAttempts) {
+      updated.status = 'failed';
+      updated.nextAttemptAt = undefined;
+    } else {
+      // Exponential backoff: base, 2x base, 4x base, ...
+      const delay = config.webhooks.retryBaseDelaySeconds * 2 ** (attempts - 1);
+      updated.status = 'pending';
+      updated.nextAttemptAt = timestamp + delay;
+    }
+
+    await this.webhookStore.saveDelivery(updated);
+
+    if (error) {
+      log.warn('Webhook delivery failed', {
+        deliveryId: delivery.id,
+        url: endpoint.url,
+        attempts,
+        error,
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Load an endpoint, treating endpoints of other merchants as missing
+   */
+  private async getOwnedEndpoint(merchant: string, endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.webhookStore.getEndpoint(endpointId);
+
+    if (!endpoint || endpoint.merchant.toLowerCase() !== merchant.toLowerCase()) {
+      throw new AppError(ErrorCode.WEBHOOK_NOT_FOUND, 'Webhook endpoint not found', 404);
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Webhook URLs must be absolute, HTTPS outside development, and resolve to public addresses
+   */
+  private async validateUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Invalid webhook URL');
+    }
+
+    const allowHttp = config.nodeEnv === 'development';
+    if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+      throw new AppError(ErrorCode.INVALID_REQUEST, 'Webhook URL must use https');
+    }
+
+    await this.assertPublicHost(parsed);
+  }
+
+  /**
+   * Reject hosts resolving to loopback, private or link-local addresses, so merchants
+   * can't make the facilitator call internal services (WEBHOOK_ALLOW_PRIVATE_URLS lifts this)
+   */
+  private async assertPublicHost(url: URL): Promise<void> {
+    if (config.webhooks.allowPrivateUrls) {
+      return;
+    }
+
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: { address: string; family: number }[];
+    try {
+      addresses = net.isIP(hostname)
+        ? [{ address: hostname, family: net.isIP(hostname) }]
+        : await dns.lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      throw new AppError(ErrorCode.INVALID_REQUEST, `Webhook host ${hostname} does not resolve`);
+    }
+
+    const blocked = addresses.find(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+    if (blocked || addresses.length === 0) {
+      throw new AppError(
+        ErrorCode.INVALID_REQUEST,
+        `Webhook host ${hostname} resolves to a non-public address`
+      );
+    }
+  }
+
+  private toInfo(endpoint: WebhookEndpoint): WebhookEndpointInfo {
+    const { secret: _secret, ...info } = endpoint;
+    return info;
+  }
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+import { FacilitatorSigner, SignerSource } from './types';
+import { errorMessage } from '../utils/errors';
+
+export interface KeystoreOptions {
+  paths: string[];
+  password: string;
+  passwordFile: string; // Takes precedence over password
+}
+
+/**
+ * Encrypted JSON keystores (Web3 Secret Storage), as written by `cast wallet import`
+ * Files are read and decrypted on every load, so keys rotate by replacing them
+ */
+export class KeystoreSignerSource implements SignerSource {
+  readonly type = 'keystore' as const;
+  private options: KeystoreOptions;
+
+  constructor(options: KeystoreOptions) {
+    this.options = options;
+  }
+
+  async load(provider: ethers.Provider): Promise<FacilitatorSigner[]> {
+    const password = this.options.passwordFile
+      ? (await fs.readFile(this.options.passwordFile, 'utf8')).trim()
+      : this.options.password;
+
+    // One at a time: decryption (scrypt) is CPU and memory heavy
+    const signers: FacilitatorSigner[] = [];
+    for (const path of this.options.paths) {
+      const json = await fs.readFile(path, 'utf8');
+      try {
+        const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+        signers.push(wallet.connect(provider));
+      } catch (error) {
+        throw new Error(`Failed to decrypt keystore ${path}: ${errorMessage(error)}`);
+      }
+    }
+    return signers;
+  }
+}
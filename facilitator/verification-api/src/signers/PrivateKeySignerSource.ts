@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+import { FacilitatorSigner, SignerSource } from './types';
+
+export interface PrivateKeyOptions {
+  privateKey: string; // Comma- or newline-separated keys
+  keyFile: string; // Takes precedence over privateKey
+}
+
+/**
+ * Raw private keys from FACILITATOR_PRIVATE_KEY_FILE or FACILITATOR_PRIVATE_KEY
+ * The file is read on every load, so keys rotate without a restart by replacing it
+ */
+export class PrivateKeySignerSource implements SignerSource {
+  readonly type = 'privateKey' as const;
+  private options: PrivateKeyOptions;
+
+  constructor(options: PrivateKeyOptions) {
+    this.options = options;
+  }
+
+  async load(provider: ethers.Provider): Promise<FacilitatorSigner[]> {
+    const privateKeys = this.options.keyFile
+      ? await fs.readFile(this.options.keyFile, 'utf8')
+      : this.options.privateKey;
+
+    // Comma- or newline-separated
+    return privateKeys
+      .split(/[\s,]+/)
+      .filter((privateKey) => privateKey.length > 0)
+      .map((privateKey) => new ethers.Wallet(privateKey, provider));
+  }
+}
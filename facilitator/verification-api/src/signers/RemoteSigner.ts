@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import { FacilitatorSigner, SignerSource } from './types';
+
+export interface RemoteSignerOptions {
+  url: string;
+  token: string; // Sent as a bearer token
+  timeoutMs: number;
+}
+
+/**
+ * Signer backed by an external signing service; keys never enter this process
+ *
+ * Protocol (JSON over HTTP, `Authorization: Bearer <token>`):
+ * - GET  /accounts           -> { accounts: string[] }
+ * - POST /sign/transaction   { address, unsignedTransaction } -> { signedTransaction }
+ * - POST /sign/message       { address, message } -> { signature }   (EIP-191, hex bytes)
+ * - POST /sign/typed-data    { address, typedData } -> { signature } (EIP-712 JSON payload)
+ * Every signature is checked against the address before it is used
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly address: string;
+  private options: RemoteSignerOptions;
+
+  constructor(address: string, options: RemoteSignerOptions, provider: ethers.Provider | null = null) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+    this.options = options;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.address, this.options, provider);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const to = tx.to ? await ethers.resolveAddress(tx.to, this.provider) : null;
+    if (tx.from && (await ethers.resolveAddress(tx.from, this.provider)) !== this.address) {
+      throw new Error(`Transaction from does not match signer ${this.address}`);
+    }
+
+    const unsigned = ethers.Transaction.from({
+      ...(tx as ethers.TransactionLike<string>),
+      to,
+      from: undefined,
+    });
+    const { signedTransaction } = await remoteSignerRequest<{ signedTransaction: string }>(
+      this.options,
+      'POST',
+      '/sign/transaction',
+      { address: this.address, unsignedTransaction: unsigned.unsignedSerialized }
+    );
+
+    const signed = ethers.Transaction.from(signedTransaction);
+    if (signed.unsignedHash !== unsigned.unsignedHash || signed.from !== this.address) {
+      throw new Error('Remote signer returned a transaction that does not match the request');
+    }
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const { signature } = await remoteSignerRequest<{ signature: string }>(
+      this.options,
+      'POST',
+      '/sign/message',
+      { address: this.address, message: ethers.hexlify(bytes) }
+    );
+
+    if (ethers.verifyMessage(bytes, signature) !== this.address) {
+      throw new Error('Remote signer returned a message signature from another address');
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const { signature } = await remoteSignerRequest<{ signature: string }>(
+      this.options,
+      'POST',
+      '/sign/typed-data',
+      {
+        address: this.address,
+        typedData: ethers.TypedDataEncoder.getPayload(domain, types, value),
+      }
+    );
+
+    if (ethers.verifyTypedData(domain, types, value, signature) !== this.address) {
+      throw new Error('Remote signer returned a typed data signature from another address');
+    }
+    return signature;
+  }
+}
+
+/**
+ * Remote signer accounts: REMOTE_SIGNER_ADDRESSES, or every account the service reports
+ */
+export class RemoteSignerSource implements SignerSource {
+  readonly type = 'remote' as const;
+  private options: RemoteSignerOptions;
+  private addresses: string[];
+
+  constructor(options: RemoteSignerOptions, addresses: string[]) {
+    this.options = options;
+    this.addresses = addresses;
+  }
+
+  async load(provider: ethers.Provider): Promise<FacilitatorSigner[]> {
+    const addresses =
+      this.addresses.length > 0
+        ? this.addresses
+        : (await remoteSignerRequest<{ accounts: string[] }>(this.options, 'GET', '/accounts'))
+            .accounts;
+
+    return addresses.map((address) => new RemoteSigner(address, this.options, provider));
+  }
+}
+
+async function remoteSignerRequest<T>(
+  options: RemoteSignerOptions,
+  method: 'GET' | 'POST',
+  path: string,
+  body?: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(`${options.url.replace(/\/+$/, '')}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token && { Authorization: `Bearer ${options.token}` }),
+    },
+    body: body && JSON.stringify(body),
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Remote signer ${method} ${path} failed with HTTP ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
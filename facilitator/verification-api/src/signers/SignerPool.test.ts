@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { PrivateKeySignerSource } from './PrivateKeySignerSource';
+import { SignerPool } from './SignerPool';
+
+vi.mock('../contracts/TransactionManager', () => ({
+  getTransactionManager: () => ({
+    start: async () => undefined,
+    listPending: () => [],
+  }),
+}));
+
+const provider = {} as ethers.Provider;
+
+function makeKeys(count: number): string[] {
+  return Array.from({ length: count }, () => ethers.Wallet.createRandom().privateKey);
+}
+
+function addressOf(privateKey: string): string {
+  return new ethers.Wallet(privateKey).address;
+}
+
+function fromFile(keyFile: string): PrivateKeySignerSource {
+  return new PrivateKeySignerSource({ privateKey: '', keyFile });
+}
+
+describe('SignerPool', () => {
+  let keyFile: string;
+
+  beforeEach(async () => {
+    keyFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'signers-')), 'keys');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(keyFile), { recursive: true, force: true });
+  });
+
+  it('loads configured keys in order, the first as primary', async () => {
+    const [first, second] = makeKeys(2);
+    const source = new PrivateKeySignerSource({ privateKey: `${second}, ${first}`, keyFile: '' });
+    const pool = new SignerPool(source, provider);
+
+    const signers = await pool.load();
+
+    expect(signers.map((signer) => signer.address)).toEqual([addressOf(second), addressOf(first)]);
+    expect(pool.primary().address).toBe(addressOf(second));
+  });
+
+  it('re-reads the key file on reload and retires dropped keys', async () => {
+    const [first, second] = makeKeys(2);
+    await fs.writeFile(keyFile, `${first}\n${second}\n`);
+    const pool = new SignerPool(fromFile(keyFile), provider);
+    await pool.load();
+
+    await fs.writeFile(keyFile, `${first}\n`);
+    const signers = await pool.load();
+
+    expect(signers).toEqual([
+      expect.objectContaining({ address: addressOf(first), status: 'active', primary: true }),
+      expect.objectContaining({ address: addressOf(second), status: 'retired' }),
+    ]);
+    expect(pool.get(addressOf(second))).not.toBeNull();
+  });
+
+  it('keeps the facilitator address while escrows it created are open', async () => {
+    const [first, second] = makeKeys(2);
+    await fs.writeFile(keyFile, first);
+    let escrowHolder: string | null = addressOf(first);
+    const pool = new SignerPool(
+      fromFile(keyFile),
+      provider,
+      async () => escrowHolder
+    );
+    await pool.load();
+
+    await fs.writeFile(keyFile, `${second}\n${first}`);
+    await expect(pool.load()).rejects.toThrow(
+      `Escrows created by ${addressOf(first)} are still open`
+    );
+    expect(pool.primary().address).toBe(addressOf(first));
+
+    escrowHolder = null;
+    await pool.load();
+    expect(pool.primary().address).toBe(addressOf(second));
+  });
+
+  it('refuses to start with another facilitator address while escrows are open', async () => {
+    const [first, second] = makeKeys(2);
+    await fs.writeFile(keyFile, second);
+    const pool = new SignerPool(
+      fromFile(keyFile),
+      provider,
+      async () => addressOf(first)
+    );
+
+    await expect(pool.load()).rejects.toThrow('still open');
+  });
+});
@@ -0,0 +1,189 @@
+import { ethers } from 'ethers';
+import { getTransactionManager } from '../contracts/TransactionManager';
+import { logger } from '../logger';
+import { FacilitatorSigner, SignerSource } from './types';
+
+const log = logger.child({ service: 'SignerPool' });
+
+/**
+ * A loaded signer, as reported by the admin API
+ */
+export interface SignerInfo {
+  address: string;
+  status: 'active' | 'retired';
+  primary: boolean;
+  pendingTransactions: number;
+}
+
+/**
+ * Finds an open escrow: the facilitator address that created it, undefined when
+ * not recorded, or null when no escrow is open
+ */
+export type OpenEscrowLookup = () => Promise<string | undefined | null>;
+
+/**
+ * The facilitator's signers
+ * - The primary (first) signer is the facilitator address: it is paid in escrow mode,
+ *   holds the funds and creates escrows
+ * - Gas-only transactions rotate round-robin over all active signers
+ * - Reloading swaps in the source's current keys without a restart; keys that drop out
+ *   are retired but kept, so their pending transactions complete
+ * - The facilitator address cannot change while escrows it created are open, as
+ *   refunds return to it
+ */
+export class SignerPool {
+  private source: SignerSource;
+  private provider: ethers.Provider;
+  private findOpenEscrow: OpenEscrowLookup;
+  private active: FacilitatorSigner[] = [];
+  private retired = new Map<string, FacilitatorSigner>();
+  private cursor = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private primaryListeners = new Set<() => void>();
+  private markLoaded!: () => void;
+
+  /**
+   * Resolves once signers are first loaded
+   */
+  readonly loaded: Promise<void>;
+
+  constructor(
+    source: SignerSource,
+    provider: ethers.Provider,
+    findOpenEscrow: OpenEscrowLookup = async () => null
+  ) {
+    this.source = source;
+    this.provider = provider;
+    this.findOpenEscrow = findOpenEscrow;
+    this.loaded = new Promise((resolve) => {
+      this.markLoaded = resolve;
+    });
+  }
+
+  /**
+   * Load (or reload) signers from the source and recover their pending transactions
+   * On failure the current signers stay in use
+   */
+  async load(): Promise<SignerInfo[]> {
+    const result = this.queue.then(() => this.swap());
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * The facilitator address signer
+   */
+  primary(): FacilitatorSigner {
+    if (this.active.length === 0) {
+      throw new Error('Facilitator signers are not loaded');
+    }
+    return this.active[0];
+  }
+
+  /**
+   * The next active signer, round-robin, for transactions that don't spend its funds
+   */
+  next(): FacilitatorSigner {
+    const signer = this.active[this.cursor % this.active.length] ?? this.primary();
+    this.cursor = (this.cursor + 1) % this.active.length;
+    return signer;
+  }
+
+  /**
+   * An active or retired signer by address
+   */
+  get(address: string): FacilitatorSigner | null {
+    const key = address.toLowerCase();
+    return (
+      this.active.find((signer) => signer.address.toLowerCase() === key) ??
+      this.retired.get(key) ??
+      null
+    );
+  }
+
+  /**
+   * Active signers, primary first
+   */
+  listActive(): FacilitatorSigner[] {
+    return [...this.active];
+  }
+
+  list(): SignerInfo[] {
+    const info = (signer: FacilitatorSigner, status: SignerInfo['status']): SignerInfo => ({
+      address: signer.address,
+      status,
+      primary: status === 'active' && signer === this.active[0],
+      pendingTransactions: getTransactionManager(signer).listPending().length,
+    });
+
+    return [
+      ...this.active.map((signer) => info(signer, 'active')),
+      ...[...this.retired.values()].map((signer) => info(signer, 'retired')),
+    ];
+  }
+
+  /**
+   * Run `listener` whenever a reload changes the facilitator address
+   * @returns Function that removes the listener
+   */
+  onPrimaryChanged(listener: () => void): () => void {
+    this.primaryListeners.add(listener);
+    return () => this.primaryListeners.delete(listener);
+  }
+
+  private async swap(): Promise<SignerInfo[]> {
+    const signers = await this.source.load(this.provider);
+    if (signers.length === 0) {
+      throw new Error('No facilitator signers configured');
+    }
+
+    const addresses = signers.map((signer) => signer.address.toLowerCase());
+    if (new Set(addresses).size !== addresses.length) {
+      throw new Error('Facilitator signers must have distinct addresses');
+    }
+
+    // Refunds return to the address that created the escrow; records without one
+    // predate it and were created by the current facilitator address
+    const previousPrimary = this.active[0]?.address;
+    const escrowHolder = await this.findOpenEscrow();
+    if (escrowHolder !== null) {
+      const holder = escrowHolder ?? previousPrimary;
+      if (holder && holder.toLowerCase() !== addresses[0]) {
+        throw new Error(
+          `Escrows created by ${holder} are still open; keep it as the first key until they are released or refunded`
+        );
+      }
+    }
+
+    // Pick up transactions left pending by a previous run before signing new ones
+    await Promise.all(signers.map((signer) => getTransactionManager(signer).start()));
+
+    for (const signer of this.active) {
+      if (!addresses.includes(signer.address.toLowerCase())) {
+        this.retired.set(signer.address.toLowerCase(), signer);
+      }
+    }
+    for (const address of addresses) {
+      this.retired.delete(address);
+    }
+    this.active = signers;
+    this.cursor = 0;
+    this.markLoaded();
+
+    log.info('Facilitator signers loaded', {
+      source: this.source.type,
+      primary: signers[0].address,
+      addresses: signers.map((signer) => signer.address),
+      retired: [...this.retired.values()].map((signer) => signer.address),
+    });
+
+    if (previousPrimary && previousPrimary !== signers[0].address) {
+      log.warn('Facilitator address changed', { from: previousPrimary, to: signers[0].address });
+      for (const listener of this.primaryListeners) {
+        listener();
+      }
+    }
+
+    return this.list();
+  }
+}
@@ -0,0 +1,86 @@
+import { config } from '../config';
+import { getNetworkProvider, SETTLEMENT_NETWORK } from '../networks';
+import { getPaymentStore } from '../store';
+import { PaymentStatus } from '../types';
+import { SignerPool } from './SignerPool';
+import { SignerSource } from './types';
+import { PrivateKeySignerSource } from './PrivateKeySignerSource';
+import { KeystoreSignerSource } from './KeystoreSignerSource';
+import { RemoteSignerSource } from './RemoteSigner';
+
+export type { FacilitatorSigner, SignerSource } from './types';
+export type { SignerInfo } from './SignerPool';
+export { SignerPool } from './SignerPool';
+export { RemoteSigner } from './RemoteSigner';
+
+// Payments whose escrow still holds funds
+const OPEN_ESCROW_STATUSES: PaymentStatus['status'][] = ['escrowed', 'releasing', 'refunding'];
+
+// Escrow-mode payments not yet escrowed: paid to the facilitator address, which then
+// creates their escrow
+const UNESCROWED_STATUSES: PaymentStatus['status'][] = ['verified', 'pending', 'settling'];
+
+let signerPool: SignerPool | null = null;
+
+/**
+ * Get the shared facilitator signer pool, on the settlement network
+ * Signers are available once `load()` has completed (at startup)
+ */
+export function getSignerPool(): SignerPool {
+  if (!signerPool) {
+    signerPool = new SignerPool(
+      createSignerSource(),
+      getNetworkProvider(SETTLEMENT_NETWORK),
+      findOpenEscrowHolder
+    );
+  }
+  return signerPool;
+}
+
+/**
+ * Signer source for FACILITATOR_SIGNER
+ */
+function createSignerSource(): SignerSource {
+  const { facilitator } = config;
+
+  switch (facilitator.signer) {
+    case 'keystore':
+      return new KeystoreSignerSource({
+        paths: facilitator.keystores,
+        password: facilitator.keystorePassword,
+        passwordFile: facilitator.keystorePasswordFile,
+      });
+    case 'remote':
+      return new RemoteSignerSource(
+        {
+          url: facilitator.remoteSigner.url,
+          token: facilitator.remoteSigner.token,
+          timeoutMs: facilitator.remoteSigner.timeoutMs,
+        },
+        facilitator.remoteSigner.addresses
+      );
+    default:
+      return new PrivateKeySignerSource({
+        privateKey: facilitator.privateKey,
+        keyFile: facilitator.privateKeyFile,
+      });
+  }
+}
+
+/**
+ * Facilitator address that created an open escrow, or that an escrow-mode payment
+ * awaiting settlement was paid to, if any
+ * Rotation is refused while either exists, so they all share one
+ */
+async function findOpenEscrowHolder(): Promise<string | undefined | null> {
+  const paymentStore = getPaymentStore();
+  for (const status of OPEN_ESCROW_STATUSES) {
+    const [payment] = await paymentStore.findByStatus(status, 1);
+    if (payment) {
+      return payment.escrow?.facilitator;
+    }
+  }
+
+  const unescrowed = await paymentStore.findEscrowPayment(UNESCROWED_STATUSES);
+  return unescrowed ? unescrowed.payload.payload.authorization.to : null;
+}
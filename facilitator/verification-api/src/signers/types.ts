@@ -0,0 +1,18 @@
+import { ethers } from 'ethers';
+
+/**
+ * A facilitator signer; its address is known without a round trip
+ */
+export type FacilitatorSigner = ethers.AbstractSigner & { readonly address: string };
+
+/**
+ * Where facilitator keys come from
+ */
+export interface SignerSource {
+  readonly type: 'privateKey' | 'keystore' | 'remote';
+  /**
+   * Load the signers, connected to `provider`; the first is the facilitator address
+   * Called again on every reload, so sources should re-read their key material
+   */
+  load(provider: ethers.Provider): Promise<FacilitatorSigner[]>;
+}
@@ -0,0 +1,42 @@
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+/**
+ * In-memory API key store
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    this.keys.set(record.id, { ...record });
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(id) ?? null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    for (const record of this.keys.values()) {
+      if (record.keyHash === keyHash) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  async list(merchant?: string): Promise<ApiKeyRecord[]> {
+    const records = [...this.keys.values()];
+    return merchant
+      ? records.filter((record) => record.merchant.toLowerCase() === merchant.toLowerCase())
+      : records;
+  }
+
+  async revoke(id: string, revokedAt: number): Promise<boolean> {
+    const record = this.keys.get(id);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+
+    record.revokedAt = revokedAt;
+    return true;
+  }
+}
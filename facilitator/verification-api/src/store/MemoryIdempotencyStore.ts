@@ -0,0 +1,64 @@
+import { IdempotencyRecord, IdempotencyStore } from './types';
+
+/**
+ * In-memory idempotency store
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    // Check and set without yielding so concurrent claims cannot both succeed
+    const existing = this.live(record.key);
+    if (existing) {
+      return existing;
+    }
+
+    this.records.set(record.key, { ...record });
+    return record;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    return this.live(key);
+  }
+
+  private live(key: string): IdempotencyRecord | null {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (isStale(record, Math.floor(Date.now() / 1000))) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return record;
+  }
+
+  async complete(key: string, owner: string, statusCode: number, response: string): Promise<void> {
+    const record = this.records.get(key);
+    if (record?.owner === owner) {
+      this.records.set(key, { ...record, status: 'completed', statusCode, response });
+    }
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    if (this.records.get(key)?.owner === owner) {
+      this.records.delete(key);
+    }
+  }
+
+  async renew(key: string, owner: string, lockedUntil: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record?.owner === owner && record.status === 'in_progress') {
+      this.records.set(key, { ...record, lockedUntil });
+    }
+  }
+}
+
+/**
+ * Expired records, and in-progress records whose owner stopped responding
+ */
+function isStale(record: IdempotencyRecord, now: number): boolean {
+  return record.expiresAt < now || (record.status === 'in_progress' && record.lockedUntil < now);
+}
@@ -0,0 +1,52 @@
+import { NonceRecord, NonceStore } from './types';
+
+const PRUNE_INTERVAL_SECONDS = 300;
+
+/**
+ * In-memory nonce store
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, NonceRecord>();
+  private lastPrunedAt = 0;
+
+  async claim(record: NonceRecord): Promise<NonceRecord> {
+    const now = Math.floor(Date.now() / 1000);
+    this.prune(now);
+
+    const key = this.key(record.from, record.nonce);
+    const existing = this.nonces.get(key);
+    if (existing && existing.expiresAt >= now) {
+      return existing;
+    }
+
+    this.nonces.set(key, { ...record });
+    return record;
+  }
+
+  async markSettled(from: string, nonce: string): Promise<void> {
+    const existing = this.nonces.get(this.key(from, nonce));
+    if (existing) {
+      existing.status = 'settled';
+    }
+  }
+
+  private key(from: string, nonce: string): string {
+    return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  }
+
+  /**
+   * Drop entries whose authorization has expired
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_SECONDS) {
+      return;
+    }
+
+    this.lastPrunedAt = now;
+    for (const [key, record] of this.nonces) {
+      if (record.expiresAt < now) {
+        this.nonces.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { PaymentStore, StoredPayment } from './types';
+
+/**
+ * In-memory payment store
+ * Used when no DATABASE_URL is configured; records are lost on restart
+ */
+export class MemoryPaymentStore implements PaymentStore {
+  private payments = new Map<string, StoredPayment>();
+  private transactions = new Map<string, string>(); // network:txHash → paymentId
+
+  async get(paymentId: string): Promise<StoredPayment | null> {
+    return this.payments.get(paymentId.toLowerCase()) ?? null;
+  }
+
+  async findByRegistryId(registryPaymentId: string): Promise<StoredPayment | null> {
+    const id = registryPaymentId.toLowerCase();
+    for (const payment of this.payments.values()) {
+      if (payment.registryPaymentId?.toLowerCase() === id) {
+        return payment;
+      }
+    }
+    return null;
+  }
+
+  async findByEscrowId(escrowId: string): Promise<StoredPayment | null> {
+    const id = escrowId.toLowerCase();
+    for (const payment of this.payments.values()) {
+      if (payment.escrow?.escrowId.toLowerCase() === id) {
+        return payment;
+      }
+    }
+    return null;
+  }
+
+  async findExpired(now: number, limit: number): Promise<StoredPayment[]> {
+    return [...this.payments.values()]
+      .filter((payment) => payment.status === 'verified' && payment.expiresAt < now)
+      .slice(0, limit);
+  }
+
+  async findByStatus(status: StoredPayment['status'], limit: number): Promise<StoredPayment[]> {
+    return [...this.payments.values()]
+      .filter((payment) => payment.status === status)
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, limit);
+  }
+
+  async findEscrowPayment(statuses: StoredPayment['status'][]): Promise<StoredPayment | null> {
+    for (const payment of this.payments.values()) {
+      if (
+        statuses.includes(payment.status) &&
+        payment.requirements.extra?.settlementMode === 'escrow'
+      ) {
+        return payment;
+      }
+    }
+    return null;
+  }
+
+  async save(payment: StoredPayment): Promise<void> {
+    this.payments.set(payment.paymentId.toLowerCase(), { ...payment });
+  }
+
+  async create(payment: StoredPayment): Promise<boolean> {
+    // Check and set without yielding so concurrent creates cannot both succeed
+    const id = payment.paymentId.toLowerCase();
+    if (this.payments.has(id)) {
+      return false;
+    }
+
+    this.payments.set(id, { ...payment });
+    return true;
+  }
+
+  async update(paymentId: string, changes: Partial<StoredPayment>): Promise<StoredPayment | null> {
+    const existing = await this.get(paymentId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = { ...existing, ...changes, updatedAt: Math.floor(Date.now() / 1000) };
+    await this.save(updated);
+    return updated;
+  }
+
+  async transition(
+    paymentId: string,
+    from: StoredPayment['status'][],
+    changes: Partial<StoredPayment> & Pick<StoredPayment, 'status'>
+  ): Promise<StoredPayment | null> {
+    // Check and set without yielding so concurrent transitions cannot both succeed
+    const existing = this.payments.get(paymentId.toLowerCase());
+    if (!existing || !from.includes(existing.status)) {
+      return null;
+    }
+
+    const updated = { ...existing, ...changes, updatedAt: Math.floor(Date.now() / 1000) };
+    this.payments.set(paymentId.toLowerCase(), updated);
+    return updated;
+  }
+
+  async claimTransaction(network: string, txHash: string, paymentId: string): Promise<string> {
+    // Check and set without yielding so concurrent claims cannot both succeed
+    const key = `${network}:${txHash}`.toLowerCase();
+    const owner = this.transactions.get(key);
+    if (owner) {
+      return owner;
+    }
+
+    this.transactions.set(key, paymentId.toLowerCase());
+    return paymentId.toLowerCase();
+  }
+
+  async findTransactionOwner(network: string, txHash: string): Promise<string | null> {
+    return this.transactions.get(`${network}:${txHash}`.toLowerCase()) ?? null;
+  }
+}
@@ -0,0 +1,40 @@
+import { RateLimitCounter, RateLimitStore } from './types';
+
+/**
+ * In-memory fixed-window rate limit counters
+ * Only suitable for a single facilitator instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+  private lastPrunedAt = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    this.prune(now, windowMs);
+
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+
+    counter.count++;
+    return { ...counter };
+  }
+
+  /**
+   * Drop expired windows
+   */
+  private prune(now: number, windowMs: number): void {
+    if (now - this.lastPrunedAt < windowMs) {
+      return;
+    }
+
+    this.lastPrunedAt = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
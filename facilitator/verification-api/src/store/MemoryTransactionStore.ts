@@ -0,0 +1,44 @@
+import { PendingTransaction, TransactionStore } from './types';
+
+/**
+ * In-memory pending transaction store
+ * Pending transactions are lost on restart; their nonces are picked up from the chain
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private transactions = new Map<string, PendingTransaction>();
+  private leases = new Map<string, { owner: string; leasedUntil: number }>();
+
+  async save(transaction: PendingTransaction): Promise<void> {
+    this.transactions.set(this.key(transaction.from, transaction.nonce), {
+      ...transaction,
+      hashes: [...transaction.hashes],
+    });
+  }
+
+  async listPending(from: string): Promise<PendingTransaction[]> {
+    const address = from.toLowerCase();
+    return [...this.transactions.values()]
+      .filter((transaction) => transaction.from.toLowerCase() === address)
+      .sort((a, b) => a.nonce - b.nonce)
+      .map((transaction) => ({ ...transaction, hashes: [...transaction.hashes] }));
+  }
+
+  async remove(from: string, nonce: number): Promise<void> {
+    this.transactions.delete(this.key(from, nonce));
+  }
+
+  async lease(from: string, owner: string, leasedUntil: number): Promise<string> {
+    const address = from.toLowerCase();
+    const current = this.leases.get(address);
+    const now = Math.floor(Date.now() / 1000);
+    if (!current || current.owner === owner || current.leasedUntil < now) {
+      this.leases.set(address, { owner, leasedUntil });
+      return owner;
+    }
+    return current.owner;
+  }
+
+  private key(from: string, nonce: number): string {
+    return `${from.toLowerCase()}:${nonce}`;
+  }
+}
@@ -0,0 +1,64 @@
+import { WebhookDelivery, WebhookEndpoint, WebhookStore } from './types';
+
+/**
+ * In-memory webhook store
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  private endpoints = new Map<string, WebhookEndpoint>();
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async createEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.endpoints.set(endpoint.id, { ...endpoint });
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    return this.endpoints.get(id) ?? null;
+  }
+
+  async listEndpoints(merchant: string): Promise<WebhookEndpoint[]> {
+    return [...this.endpoints.values()].filter(
+      (endpoint) => endpoint.merchant.toLowerCase() === merchant.toLowerCase()
+    );
+  }
+
+  async deleteEndpoint(id: string): Promise<boolean> {
+    return this.endpoints.delete(id);
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.deliveries.get(id) ?? null;
+  }
+
+  async listDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter((delivery) => delivery.endpointId === endpointId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  async findDueDeliveries(now: number, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(
+        (delivery) =>
+          delivery.status === 'pending' &&
+          delivery.nextAttemptAt !== undefined &&
+          delivery.nextAttemptAt <= now
+      )
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  async claimDelivery(id: string, nextAttemptAt: number, claimUntil: number): Promise<boolean> {
+    const delivery = this.deliveries.get(id);
+    if (!delivery || delivery.status !== 'pending' || delivery.nextAttemptAt !== nextAttemptAt) {
+      return false;
+    }
+
+    this.deliveries.set(id, { ...delivery, nextAttemptAt: claimUntil });
+    return true;
+  }
+}
@@ -0,0 +1,47 @@
+import Redis from 'ioredis';
+import { RateLimitCounter, RateLimitStore } from './types';
+import { logger } from '../logger';
+
+/**
+ * Redis fixed-window rate limit counters
+ * Shared across facilitator instances
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url, { maxRetriesPerRequest: 1 });
+    this.redis.on('error', (error) => logger.error('Redis error', { error }));
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const redisKey = `x402:ratelimit:${key}`;
+
+    // Start the window on first hit, keep it on subsequent hits (SET NX PX works on
+    // any Redis since 2.6.12, unlike PEXPIRE NX which needs Redis 7)
+    const results = await this.redis
+      .multi()
+      .set(redisKey, 0, 'PX', windowMs, 'NX')
+      .incr(redisKey)
+      .pttl(redisKey)
+      .exec();
+
+    if (!results) {
+      throw new Error('Redis transaction aborted');
+    }
+
+    // Commands fail individually inside a transaction
+    const failed = results.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+
+    const count = Number(results[1][1]);
+    const ttl = Number(results[2][1]);
+
+    return {
+      count,
+      resetAt: Date.now() + (ttl > 0 ? ttl : windowMs),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { SqlClient, withSchema } from './sql';
+import { ApiKeyRecord, ApiKeyStore } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    merchant TEXT NOT NULL,
+    name TEXT,
+    allowed_origins TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    revoked_at BIGINT
+  )`,
+  'CREATE INDEX IF NOT EXISTS api_keys_merchant_idx ON api_keys (merchant)',
+];
+
+/**
+ * A api_keys row
+ */
+interface ApiKeyRow {
+  id: string;
+  key_hash: string;
+  prefix: string;
+  merchant: string;
+  name: string | null;
+  allowed_origins: string;
+  created_at: number | string;
+  revoked_at: number | string | null;
+}
+
+/**
+ * SQL-backed API key store (SQLite or Postgres)
+ */
+export class SqlApiKeyStore implements ApiKeyStore {
+  private ready: Promise<SqlClient>;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    const db = await this.ready;
+    await db.run(
+      `INSERT INTO api_keys (id, key_hash, prefix, merchant, name, allowed_origins, created_at, revoked_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.keyHash,
+        record.prefix,
+        record.merchant.toLowerCase(),
+        record.name ?? null,
+        JSON.stringify(record.allowedOrigins),
+        record.createdAt,
+        record.revokedAt ?? null,
+      ]
+    );
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const db = await this.ready;
+    const rows = await db.all<ApiKeyRow>('SELECT * FROM api_keys WHERE id = ?', [id]);
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const db = await this.ready;
+    const rows = await db.all<ApiKeyRow>('SELECT * FROM api_keys WHERE key_hash = ?', [keyHash]);
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async list(merchant?: string): Promise<ApiKeyRecord[]> {
+    const db = await this.ready;
+    const rows = merchant
+      ? await db.all<ApiKeyRow>('SELECT * FROM api_keys WHERE merchant = ? ORDER BY created_at', [
+          merchant.toLowerCase(),
+        ])
+      : await db.all<ApiKeyRow>('SELECT * FROM api_keys ORDER BY created_at');
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async revoke(id: string, revokedAt: number): Promise<boolean> {
+    const db = await this.ready;
+    const changes = await db.run(
+      'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [revokedAt, id]
+    );
+    return changes > 0;
+  }
+
+  private fromRow(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      keyHash: row.key_hash,
+      prefix: row.prefix,
+      merchant: row.merchant,
+      name: row.name ?? undefined,
+      allowedOrigins: JSON.parse(row.allowed_origins),
+      createdAt: Number(row.created_at),
+      revokedAt: row.revoked_at === null ? undefined : Number(row.revoked_at),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createSqlClient, SqlClient } from './sql';
+import { IdempotencyRecord } from './types';
+import { SqlIdempotencyStore } from './SqlIdempotencyStore';
+
+function makeRecord(owner: string): IdempotencyRecord {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    key: 'merchant:key',
+    owner,
+    requestHash: 'hash',
+    status: 'in_progress',
+    createdAt: now,
+    lockedUntil: now + 60,
+    expiresAt: now + 3600,
+  };
+}
+
+describe('SqlIdempotencyStore', () => {
+  it('returns the existing claim to a second caller', async () => {
+    const store = new SqlIdempotencyStore(createSqlClient('sqlite::memory:'));
+
+    await store.claim(makeRecord('first'));
+    const record = await store.claim(makeRecord('second'));
+
+    expect(record.owner).toBe('first');
+  });
+
+  it('claims again when the owner releases the key mid-claim', async () => {
+    const client = await createSqlClient('sqlite::memory:');
+    let releaseOnRead = false;
+    const racing: SqlClient = {
+      dialect: client.dialect,
+      run: (sql, params) => client.run(sql, params),
+      all: async (sql, params) => {
+        // The owner finishes between our insert and read
+        if (releaseOnRead) {
+          releaseOnRead = false;
+          await client.run('DELETE FROM idempotency_keys');
+        }
+        return client.all(sql, params);
+      },
+      close: () => client.close(),
+    };
+    const store = new SqlIdempotencyStore(Promise.resolve(racing));
+
+    await store.claim(makeRecord('first'));
+    releaseOnRead = true;
+    const record = await store.claim(makeRecord('second'));
+
+    expect(record.owner).toBe('second');
+  });
+
+  it('extends the lock of a running request only for its owner', async () => {
+    const store = new SqlIdempotencyStore(createSqlClient('sqlite::memory:'));
+    const claim = makeRecord('first');
+    await store.claim(claim);
+
+    await store.renew(claim.key, 'other', claim.lockedUntil + 600);
+    expect((await store.get(claim.key))?.lockedUntil).toBe(claim.lockedUntil);
+
+    await store.renew(claim.key, 'first', claim.lockedUntil + 600);
+    expect((await store.get(claim.key))?.lockedUntil).toBe(claim.lockedUntil + 600);
+  });
+});
@@ -0,0 +1,144 @@
+import { SqlClient, withSchema } from './sql';
+import { IdempotencyRecord, IdempotencyStore } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS idempotency_keys (
+    key TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    status TEXT NOT NULL,
+    status_code INTEGER,
+    response TEXT,
+    created_at BIGINT NOT NULL,
+    locked_until BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at_idx ON idempotency_keys (expires_at)',
+];
+
+const PRUNE_INTERVAL_SECONDS = 300;
+
+/**
+ * A idempotency_keys row
+ */
+interface IdempotencyRow {
+  key: string;
+  owner: string;
+  request_hash: string;
+  status: IdempotencyRecord['status'];
+  status_code: number | string | null;
+  response: string | null;
+  created_at: number | string;
+  locked_until: number | string;
+  expires_at: number | string;
+}
+
+/**
+ * SQL-backed idempotency store (SQLite or Postgres)
+ */
+export class SqlIdempotencyStore implements IdempotencyStore {
+  private ready: Promise<SqlClient>;
+  private lastPrunedAt = 0;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    const db = await this.ready;
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.prune(db, now);
+
+    // The owner may release the key between our insert and read; claim it again then
+    for (;;) {
+      // Expired keys and abandoned in-progress claims can be taken over
+      await db.run(
+        `DELETE FROM idempotency_keys
+         WHERE key = ? AND (expires_at < ? OR (status = 'in_progress' AND locked_until < ?))`,
+        [record.key, now, now]
+      );
+
+      await db.run(
+        `INSERT INTO idempotency_keys
+          (key, owner, request_hash, status, created_at, locked_until, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (key) DO NOTHING`,
+        [
+          record.key,
+          record.owner,
+          record.requestHash,
+          record.status,
+          record.createdAt,
+          record.lockedUntil,
+          record.expiresAt,
+        ]
+      );
+
+      const claimed = await this.get(record.key);
+      if (claimed) {
+        return claimed;
+      }
+    }
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const db = await this.ready;
+    const now = Math.floor(Date.now() / 1000);
+    const rows = await db.all<IdempotencyRow>(
+      `SELECT * FROM idempotency_keys
+       WHERE key = ? AND expires_at >= ? AND NOT (status = 'in_progress' AND locked_until < ?)`,
+      [key, now, now]
+    );
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async complete(key: string, owner: string, statusCode: number, response: string): Promise<void> {
+    const db = await this.ready;
+    await db.run(
+      `UPDATE idempotency_keys SET status = 'completed', status_code = ?, response = ?
+       WHERE key = ? AND owner = ?`,
+      [statusCode, response, key, owner]
+    );
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    const db = await this.ready;
+    await db.run('DELETE FROM idempotency_keys WHERE key = ? AND owner = ?', [key, owner]);
+  }
+
+  async renew(key: string, owner: string, lockedUntil: number): Promise<void> {
+    const db = await this.ready;
+    await db.run(
+      `UPDATE idempotency_keys SET locked_until = ?
+       WHERE key = ? AND owner = ? AND status = 'in_progress'`,
+      [lockedUntil, key, owner]
+    );
+  }
+
+  /**
+   * Drop expired keys
+   */
+  private async prune(db: SqlClient, now: number): Promise<void> {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_SECONDS) {
+      return;
+    }
+
+    this.lastPrunedAt = now;
+    await db.run('DELETE FROM idempotency_keys WHERE expires_at < ?', [now]);
+  }
+
+  private fromRow(row: IdempotencyRow): IdempotencyRecord {
+    return {
+      key: row.key,
+      owner: row.owner,
+      requestHash: row.request_hash,
+      status: row.status,
+      statusCode: row.status_code === null ? undefined : Number(row.status_code),
+      response: row.response ?? undefined,
+      createdAt: Number(row.created_at),
+      lockedUntil: Number(row.locked_until),
+      expiresAt: Number(row.expires_at),
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { SqlClient, withSchema } from './sql';
+import { NonceRecord, NonceStore } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS nonces (
+    payer TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    payment_id TEXT NOT NULL,
+    payload_hash TEXT NOT NULL,
+    status TEXT NOT NULL,
+    expires_at BIGINT NOT NULL,
+    PRIMARY KEY (payer, nonce)
+  )`,
+  'CREATE INDEX IF NOT EXISTS nonces_expires_at_idx ON nonces (expires_at)',
+];
+
+const PRUNE_INTERVAL_SECONDS = 300;
+
+/**
+ * A nonces row
+ */
+interface NonceRow {
+  payer: string;
+  nonce: string;
+  payment_id: string;
+  payload_hash: string;
+  status: NonceRecord['status'];
+  expires_at: number | string;
+}
+
+/**
+ * SQL-backed nonce store (SQLite or Postgres)
+ */
+export class SqlNonceStore implements NonceStore {
+  private ready: Promise<SqlClient>;
+  private lastPrunedAt = 0;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async claim(record: NonceRecord): Promise<NonceRecord> {
+    const db = await this.ready;
+    const now = Math.floor(Date.now() / 1000);
+    const from = record.from.toLowerCase();
+    const nonce = record.nonce.toLowerCase();
+
+    await this.prune(db, now);
+
+    // An expired entry no longer protects anything, let the new claim replace it
+    await db.run('DELETE FROM nonces WHERE payer = ? AND nonce = ? AND expires_at < ?', [
+      from,
+      nonce,
+      now,
+    ]);
+
+    await db.run(
+      `INSERT INTO nonces (payer, nonce, payment_id, payload_hash, status, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (payer, nonce) DO NOTHING`,
+      [from, nonce, record.paymentId, record.payloadHash, record.status, record.expiresAt]
+    );
+
+    const rows = await db.all<NonceRow>('SELECT * FROM nonces WHERE payer = ? AND nonce = ?', [from, nonce]);
+    return this.fromRow(rows[0]);
+  }
+
+  async markSettled(from: string, nonce: string): Promise<void> {
+    const db = await this.ready;
+    await db.run("UPDATE nonces SET status = 'settled' WHERE payer = ? AND nonce = ?", [
+      from.toLowerCase(),
+      nonce.toLowerCase(),
+    ]);
+  }
+
+  /**
+   * Drop entries whose authorization has expired
+   */
+  private async prune(db: SqlClient, now: number): Promise<void> {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_SECONDS) {
+      return;
+    }
+
+    this.lastPrunedAt = now;
+    await db.run('DELETE FROM nonces WHERE expires_at < ?', [now]);
+  }
+
+  private fromRow(row: NonceRow): NonceRecord {
+    return {
+      from: row.payer,
+      nonce: row.nonce,
+      paymentId: row.payment_id,
+      payloadHash: row.payload_hash,
+      status: row.status,
+      expiresAt: Number(row.expires_at),
+    };
+  }
+}
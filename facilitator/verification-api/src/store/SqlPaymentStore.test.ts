@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PaymentPayload, PaymentRequirements } from '../types';
+import { createSqlClient } from './sql';
+import { SqlPaymentStore } from './SqlPaymentStore';
+import { StoredPayment } from './types';
+
+function makePayment(): StoredPayment {
+  return {
+    paymentId: '0x01',
+    status: 'verified',
+    payload: {} as PaymentPayload,
+    requirements: {} as PaymentRequirements,
+    payer: '0xpayer',
+    payee: '0xpayee',
+    asset: '0xasset',
+    resource: '/premium',
+    network: 'push-chain',
+    amount: '1000',
+    createdAt: 1700000000,
+    updatedAt: 1700000000,
+    expiresAt: 1700000060,
+  };
+}
+
+describe('SqlPaymentStore.claimTransaction', () => {
+  it('gives a transaction to the first payment that claims it', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+
+    const claims = await Promise.all([
+      store.claimTransaction('base-sepolia', '0xABC', '0x01'),
+      store.claimTransaction('base-sepolia', '0xabc', '0x02'),
+    ]);
+
+    expect(claims).toEqual(['0x01', '0x01']);
+    expect(await store.claimTransaction('base-sepolia', '0xabc', '0x01')).toBe('0x01');
+  });
+
+  it('tracks transactions per network', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+
+    await store.claimTransaction('base-sepolia', '0xabc', '0x01');
+
+    expect(await store.claimTransaction('push-chain', '0xabc', '0x02')).toBe('0x02');
+  });
+});
+
+describe('SqlPaymentStore writes', () => {
+  it('creates a payment only once', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+
+    expect(await store.create(makePayment())).toBe(true);
+    expect(await store.create({ ...makePayment(), status: 'failed' })).toBe(false);
+    expect((await store.get('0x01'))?.status).toBe('verified');
+  });
+
+  it('lets one of two concurrent transitions win', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+    await store.create(makePayment());
+
+    const results = await Promise.all([
+      store.transition('0x01', ['verified'], { status: 'settling' }),
+      store.transition('0x01', ['verified'], { status: 'expired' }),
+    ]);
+
+    expect(results.filter((result) => result !== null)).toHaveLength(1);
+  });
+
+  it('does not overwrite a status changed after the update read it', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+    await store.create(makePayment());
+    const get = store.get.bind(store);
+    vi.spyOn(store, 'get').mockImplementationOnce(async (paymentId) => {
+      const read = await get(paymentId);
+      await store.transition(paymentId, ['verified'], { status: 'settling' });
+      return read;
+    });
+
+    const updated = await store.update('0x01', { error: 'Gas estimate unavailable' });
+
+    expect(updated).toMatchObject({ status: 'settling', error: 'Gas estimate unavailable' });
+    expect(await store.get('0x01')).toMatchObject({ status: 'settling' });
+  });
+});
+
+describe('SqlPaymentStore.findEscrowPayment', () => {
+  it('finds escrow-mode payments in the given statuses only', async () => {
+    const store = new SqlPaymentStore(createSqlClient('sqlite::memory:'));
+    const escrowRequirements = { extra: { settlementMode: 'escrow' } } as PaymentRequirements;
+    await store.create(makePayment());
+    await store.create({ ...makePayment(), paymentId: '0x02', requirements: escrowRequirements });
+
+    expect((await store.findEscrowPayment(['verified', 'pending']))?.paymentId).toBe('0x02');
+    expect(await store.findEscrowPayment(['settling'])).toBeNull();
+  });
+});
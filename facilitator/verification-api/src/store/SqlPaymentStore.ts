@@ -0,0 +1,304 @@
+import { SqlClient, withSchema } from './sql';
+import { PaymentStore, StoredPayment } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS payments (
+    payment_id TEXT PRIMARY KEY,
+    registry_payment_id TEXT,
+    escrow_id TEXT,
+    status TEXT NOT NULL,
+    payer TEXT NOT NULL,
+    payee TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    resource TEXT NOT NULL,
+    network TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    requirements TEXT NOT NULL,
+    tx_hash TEXT,
+    settlement_tx_hash TEXT,
+    escrow TEXT,
+    error TEXT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL,
+    verified_at BIGINT,
+    settled_at BIGINT
+  )`,
+  'CREATE INDEX IF NOT EXISTS payments_registry_payment_id_idx ON payments (registry_payment_id)',
+  'CREATE INDEX IF NOT EXISTS payments_escrow_id_idx ON payments (escrow_id)',
+  'CREATE INDEX IF NOT EXISTS payments_payee_idx ON payments (payee)',
+  'CREATE INDEX IF NOT EXISTS payments_status_expires_at_idx ON payments (status, expires_at)',
+  `CREATE TABLE IF NOT EXISTS payment_transactions (
+    network TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    payment_id TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    PRIMARY KEY (network, tx_hash)
+  )`,
+];
+
+const COLUMNS = [
+  'payment_id',
+  'registry_payment_id',
+  'escrow_id',
+  'status',
+  'payer',
+  'payee',
+  'asset',
+  'resource',
+  'network',
+  'amount',
+  'payload',
+  'requirements',
+  'tx_hash',
+  'settlement_tx_hash',
+  'escrow',
+  'error',
+  'created_at',
+  'updated_at',
+  'expires_at',
+  'verified_at',
+  'settled_at',
+];
+
+/**
+ * A payments row
+ */
+interface PaymentRow {
+  payment_id: string;
+  registry_payment_id: string | null;
+  status: StoredPayment['status'];
+  payer: string;
+  payee: string;
+  asset: string;
+  resource: string;
+  network: string;
+  amount: string;
+  payload: string;
+  requirements: string;
+  tx_hash: string | null;
+  settlement_tx_hash: string | null;
+  escrow: string | null;
+  error: string | null;
+  created_at: number | string;
+  updated_at: number | string;
+  expires_at: number | string;
+  verified_at: number | string | null;
+  settled_at: number | string | null;
+}
+
+/**
+ * SQL-backed payment store (SQLite or Postgres)
+ */
+export class SqlPaymentStore implements PaymentStore {
+  private ready: Promise<SqlClient>;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async get(paymentId: string): Promise<StoredPayment | null> {
+    const db = await this.ready;
+    const rows = await db.all<PaymentRow>('SELECT * FROM payments WHERE payment_id = ?', [
+      paymentId.toLowerCase(),
+    ]);
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async findByRegistryId(registryPaymentId: string): Promise<StoredPayment | null> {
+    const db = await this.ready;
+    const rows = await db.all<PaymentRow>('SELECT * FROM payments WHERE registry_payment_id = ?', [
+      registryPaymentId.toLowerCase(),
+    ]);
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async findByEscrowId(escrowId: string): Promise<StoredPayment | null> {
+    const db = await this.ready;
+    const rows = await db.all<PaymentRow>('SELECT * FROM payments WHERE escrow_id = ?', [
+      escrowId.toLowerCase(),
+    ]);
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async findExpired(now: number, limit: number): Promise<StoredPayment[]> {
+    const db = await this.ready;
+    const rows = await db.all<PaymentRow>(
+      "SELECT * FROM payments WHERE status = 'verified' AND expires_at < ? ORDER BY expires_at LIMIT ?",
+      [now, limit]
+    );
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async findByStatus(status: StoredPayment['status'], limit: number): Promise<StoredPayment[]> {
+    const db = await this.ready;
+    const rows = await db.all<PaymentRow>(
+      'SELECT * FROM payments WHERE status = ? ORDER BY updated_at LIMIT ?',
+      [status, limit]
+    );
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async findEscrowPayment(statuses: StoredPayment['status'][]): Promise<StoredPayment | null> {
+    const db = await this.ready;
+    // Requirements are stored as JSON.stringify output, so the mode appears without spaces
+    const rows = await db.all<PaymentRow>(
+      `SELECT * FROM payments WHERE status IN (${statuses.map(() => '?').join(', ')})
+       AND requirements LIKE ? LIMIT 1`,
+      [...statuses, '%"settlementMode":"escrow"%']
+    );
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  async save(payment: StoredPayment): Promise<void> {
+    const db = await this.ready;
+    const updates = COLUMNS.slice(1)
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+
+    await db.run(
+      `INSERT INTO payments (${COLUMNS.join(', ')})
+       VALUES (${COLUMNS.map(() => '?').join(', ')})
+       ON CONFLICT (payment_id) DO UPDATE SET ${updates}`,
+      this.toRow(payment)
+    );
+  }
+
+  async create(payment: StoredPayment): Promise<boolean> {
+    const db = await this.ready;
+    const created = await db.run(
+      `INSERT INTO payments (${COLUMNS.join(', ')})
+       VALUES (${COLUMNS.map(() => '?').join(', ')})
+       ON CONFLICT (payment_id) DO NOTHING`,
+      this.toRow(payment)
+    );
+    return created > 0;
+  }
+
+  async update(paymentId: string, changes: Partial<StoredPayment>): Promise<StoredPayment | null> {
+    return this.write(paymentId, null, changes);
+  }
+
+  async transition(
+    paymentId: string,
+    from: StoredPayment['status'][],
+    changes: Partial<StoredPayment> & Pick<StoredPayment, 'status'>
+  ): Promise<StoredPayment | null> {
+    return this.write(paymentId, from, changes);
+  }
+
+  async claimTransaction(network: string, txHash: string, paymentId: string): Promise<string> {
+    const db = await this.ready;
+    const params = [network.toLowerCase(), txHash.toLowerCase()];
+
+    await db.run(
+      `INSERT INTO payment_transactions (network, tx_hash, payment_id, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (network, tx_hash) DO NOTHING`,
+      [...params, paymentId.toLowerCase(), Math.floor(Date.now() / 1000)]
+    );
+
+    const rows = await db.all<{ payment_id: string }>(
+      'SELECT payment_id FROM payment_transactions WHERE network = ? AND tx_hash = ?',
+      params
+    );
+    return rows[0].payment_id;
+  }
+
+  async findTransactionOwner(network: string, txHash: string): Promise<string | null> {
+    const db = await this.ready;
+    const rows = await db.all<{ payment_id: string }>(
+      'SELECT payment_id FROM payment_transactions WHERE network = ? AND tx_hash = ?',
+      [network.toLowerCase(), txHash.toLowerCase()]
+    );
+    return rows[0]?.payment_id ?? null;
+  }
+
+  /**
+   * Apply changes to a payment in one of `from` (any status if null)
+   * Reads, merges and writes back only if the status is still the one read, so a
+   * concurrent status change is never overwritten; re-reads and retries if it was
+   */
+  private async write(
+    paymentId: string,
+    from: StoredPayment['status'][] | null,
+    changes: Partial<StoredPayment>
+  ): Promise<StoredPayment | null> {
+    const db = await this.ready;
+    const updates = COLUMNS.slice(1)
+      .map((column) => `${column} = ?`)
+      .join(', ');
+
+    for (;;) {
+      const existing = await this.get(paymentId);
+      if (!existing || (from && !from.includes(existing.status))) {
+        return null;
+      }
+
+      const updated = { ...existing, ...changes, updatedAt: Math.floor(Date.now() / 1000) };
+      const [id, ...values] = this.toRow(updated);
+      const written = await db.run(
+        `UPDATE payments SET ${updates} WHERE payment_id = ? AND status = ?`,
+        [...values, id, existing.status]
+      );
+      if (written > 0) {
+        return updated;
+      }
+    }
+  }
+
+  private toRow(payment: StoredPayment): unknown[] {
+    return [
+      payment.paymentId.toLowerCase(),
+      payment.registryPaymentId?.toLowerCase() ?? null,
+      payment.escrow?.escrowId.toLowerCase() ?? null,
+      payment.status,
+      payment.payer,
+      payment.payee,
+      payment.asset,
+      payment.resource,
+      payment.network,
+      payment.amount,
+      JSON.stringify(payment.payload),
+      JSON.stringify(payment.requirements),
+      payment.txHash ?? null,
+      payment.settlementTxHash ?? null,
+      payment.escrow ? JSON.stringify(payment.escrow) : null,
+      payment.error ?? null,
+      payment.createdAt,
+      payment.updatedAt,
+      payment.expiresAt,
+      payment.verifiedAt ?? null,
+      payment.settledAt ?? null,
+    ];
+  }
+
+  private fromRow(row: PaymentRow): StoredPayment {
+    // Postgres returns BIGINT columns as strings
+    const toNumber = (value: unknown) => (value === null ? undefined : Number(value));
+
+    return {
+      paymentId: row.payment_id,
+      registryPaymentId: row.registry_payment_id ?? undefined,
+      status: row.status,
+      payer: row.payer,
+      payee: row.payee,
+      asset: row.asset,
+      resource: row.resource,
+      network: row.network,
+      amount: row.amount,
+      payload: JSON.parse(row.payload),
+      requirements: JSON.parse(row.requirements),
+      txHash: row.tx_hash ?? undefined,
+      settlementTxHash: row.settlement_tx_hash ?? undefined,
+      escrow: row.escrow ? JSON.parse(row.escrow) : undefined,
+      error: row.error ?? undefined,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+      expiresAt: Number(row.expires_at),
+      verifiedAt: toNumber(row.verified_at),
+      settledAt: toNumber(row.settled_at),
+    };
+  }
+}
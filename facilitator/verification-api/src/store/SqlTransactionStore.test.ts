@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createSqlClient } from './sql';
+import { SqlTransactionStore } from './SqlTransactionStore';
+
+describe('SqlTransactionStore.lease', () => {
+  it('leases a signer to one owner at a time', async () => {
+    const store = new SqlTransactionStore(createSqlClient('sqlite::memory:'));
+    const leasedUntil = Math.floor(Date.now() / 1000) + 60;
+
+    const holders = await Promise.all([
+      store.lease('0xABC', 'first', leasedUntil),
+      store.lease('0xabc', 'second', leasedUntil),
+    ]);
+
+    expect(holders).toEqual(['first', 'first']);
+    expect(await store.lease('0xabc', 'first', leasedUntil + 60)).toBe('first');
+  });
+
+  it('hands over a lapsed lease', async () => {
+    const store = new SqlTransactionStore(createSqlClient('sqlite::memory:'));
+    const now = Math.floor(Date.now() / 1000);
+
+    await store.lease('0xabc', 'first', now - 1);
+
+    expect(await store.lease('0xabc', 'second', now + 60)).toBe('second');
+  });
+});
@@ -0,0 +1,170 @@
+import { SqlClient, withSchema } from './sql';
+import { PendingTransaction, TransactionStore } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS pending_transactions (
+    from_address TEXT NOT NULL,
+    nonce BIGINT NOT NULL,
+    method TEXT NOT NULL,
+    chain_id TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    data TEXT NOT NULL,
+    value TEXT NOT NULL,
+    gas_limit TEXT NOT NULL,
+    max_fee_per_gas TEXT,
+    max_priority_fee_per_gas TEXT,
+    gas_price TEXT,
+    hashes TEXT NOT NULL,
+    replacements INTEGER NOT NULL,
+    created_at BIGINT NOT NULL,
+    sent_at BIGINT NOT NULL,
+    PRIMARY KEY (from_address, nonce)
+  )`,
+  `CREATE TABLE IF NOT EXISTS signer_leases (
+    address TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    leased_until BIGINT NOT NULL
+  )`,
+];
+
+const COLUMNS = [
+  'from_address',
+  'nonce',
+  'method',
+  'chain_id',
+  'to_address',
+  'data',
+  'value',
+  'gas_limit',
+  'max_fee_per_gas',
+  'max_priority_fee_per_gas',
+  'gas_price',
+  'hashes',
+  'replacements',
+  'created_at',
+  'sent_at',
+];
+
+/**
+ * A pending_transactions row
+ */
+interface TransactionRow {
+  from_address: string;
+  nonce: number | string;
+  method: string;
+  chain_id: string;
+  to_address: string;
+  data: string;
+  value: string;
+  gas_limit: string;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  gas_price: string | null;
+  hashes: string;
+  replacements: number | string;
+  created_at: number | string;
+  sent_at: number | string;
+}
+
+/**
+ * SQL-backed pending transaction store (SQLite or Postgres)
+ */
+export class SqlTransactionStore implements TransactionStore {
+  private ready: Promise<SqlClient>;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async save(transaction: PendingTransaction): Promise<void> {
+    const db = await this.ready;
+    const updates = COLUMNS.filter((column) => column !== 'from_address' && column !== 'nonce')
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+
+    await db.run(
+      `INSERT INTO pending_transactions (${COLUMNS.join(', ')})
+       VALUES (${COLUMNS.map(() => '?').join(', ')})
+       ON CONFLICT (from_address, nonce) DO UPDATE SET ${updates}`,
+      this.toRow(transaction)
+    );
+  }
+
+  async listPending(from: string): Promise<PendingTransaction[]> {
+    const db = await this.ready;
+    const rows = await db.all<TransactionRow>(
+      'SELECT * FROM pending_transactions WHERE from_address = ? ORDER BY nonce ASC',
+      [from.toLowerCase()]
+    );
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async remove(from: string, nonce: number): Promise<void> {
+    const db = await this.ready;
+    await db.run('DELETE FROM pending_transactions WHERE from_address = ? AND nonce = ?', [
+      from.toLowerCase(),
+      nonce,
+    ]);
+  }
+
+  async lease(from: string, owner: string, leasedUntil: number): Promise<string> {
+    const db = await this.ready;
+    const address = from.toLowerCase();
+    const now = Math.floor(Date.now() / 1000);
+
+    // Extend our own lease or take over a lapsed one, then claim an unleased signer
+    await db.run(
+      `UPDATE signer_leases SET owner = ?, leased_until = ?
+       WHERE address = ? AND (owner = ? OR leased_until < ?)`,
+      [owner, leasedUntil, address, owner, now]
+    );
+    await db.run(
+      `INSERT INTO signer_leases (address, owner, leased_until) VALUES (?, ?, ?)
+       ON CONFLICT (address) DO NOTHING`,
+      [address, owner, leasedUntil]
+    );
+
+    const rows = await db.all<{ owner: string }>('SELECT owner FROM signer_leases WHERE address = ?', [address]);
+    return rows[0].owner;
+  }
+
+  private toRow(transaction: PendingTransaction): unknown[] {
+    return [
+      transaction.from.toLowerCase(),
+      transaction.nonce,
+      transaction.method,
+      transaction.chainId,
+      transaction.to,
+      transaction.data,
+      transaction.value,
+      transaction.gasLimit,
+      transaction.maxFeePerGas ?? null,
+      transaction.maxPriorityFeePerGas ?? null,
+      transaction.gasPrice ?? null,
+      JSON.stringify(transaction.hashes),
+      transaction.replacements,
+      transaction.createdAt,
+      transaction.sentAt,
+    ];
+  }
+
+  private fromRow(row: TransactionRow): PendingTransaction {
+    return {
+      from: row.from_address,
+      nonce: Number(row.nonce),
+      method: row.method,
+      chainId: row.chain_id,
+      to: row.to_address,
+      data: row.data,
+      value: row.value,
+      gasLimit: row.gas_limit,
+      maxFeePerGas: row.max_fee_per_gas ?? undefined,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas ?? undefined,
+      gasPrice: row.gas_price ?? undefined,
+      hashes: JSON.parse(row.hashes),
+      replacements: Number(row.replacements),
+      createdAt: Number(row.created_at),
+      sentAt: Number(row.sent_at),
+    };
+  }
+}
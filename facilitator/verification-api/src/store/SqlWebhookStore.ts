@@ -0,0 +1,209 @@
+import { SqlClient, withSchema } from './sql';
+import { WebhookDelivery, WebhookEndpoint, WebhookStore } from './types';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id TEXT PRIMARY KEY,
+    merchant TEXT NOT NULL,
+    url TEXT NOT NULL,
+    events TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    active INTEGER NOT NULL,
+    created_at BIGINT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS webhook_endpoints_merchant_idx ON webhook_endpoints (merchant)',
+  `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    endpoint_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    payment_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    created_at BIGINT NOT NULL,
+    last_attempt_at BIGINT,
+    next_attempt_at BIGINT,
+    response_status INTEGER,
+    error TEXT
+  )`,
+  'CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_idx ON webhook_deliveries (endpoint_id, created_at)',
+  'CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at)',
+];
+
+/**
+ * A webhook_endpoints row
+ */
+interface EndpointRow {
+  id: string;
+  merchant: string;
+  url: string;
+  events: string;
+  secret: string;
+  active: number | string | boolean;
+  created_at: number | string;
+}
+
+/**
+ * A webhook_deliveries row
+ */
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event: WebhookDelivery['event'];
+  payment_id: string;
+  payload: string;
+  status: WebhookDelivery['status'];
+  attempts: number | string;
+  created_at: number | string;
+  last_attempt_at: number | string | null;
+  next_attempt_at: number | string | null;
+  response_status: number | string | null;
+  error: string | null;
+}
+
+/**
+ * SQL-backed webhook store (SQLite or Postgres)
+ */
+export class SqlWebhookStore implements WebhookStore {
+  private ready: Promise<SqlClient>;
+
+  constructor(client: Promise<SqlClient>) {
+    this.ready = withSchema(client, SCHEMA);
+  }
+
+  async createEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    const db = await this.ready;
+    await db.run(
+      `INSERT INTO webhook_endpoints (id, merchant, url, events, secret, active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        endpoint.id,
+        endpoint.merchant.toLowerCase(),
+        endpoint.url,
+        JSON.stringify(endpoint.events),
+        endpoint.secret,
+        endpoint.active ? 1 : 0,
+        endpoint.createdAt,
+      ]
+    );
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    const db = await this.ready;
+    const rows = await db.all<EndpointRow>('SELECT * FROM webhook_endpoints WHERE id = ?', [id]);
+    return rows.length > 0 ? this.endpointFromRow(rows[0]) : null;
+  }
+
+  async listEndpoints(merchant: string): Promise<WebhookEndpoint[]> {
+    const db = await this.ready;
+    const rows = await db.all<EndpointRow>(
+      'SELECT * FROM webhook_endpoints WHERE merchant = ? ORDER BY created_at',
+      [merchant.toLowerCase()]
+    );
+    return rows.map((row) => this.endpointFromRow(row));
+  }
+
+  async deleteEndpoint(id: string): Promise<boolean> {
+    const db = await this.ready;
+    return (await db.run('DELETE FROM webhook_endpoints WHERE id = ?', [id])) > 0;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const db = await this.ready;
+    await db.run(
+      `INSERT INTO webhook_deliveries
+        (id, endpoint_id, event, payment_id, payload, status, attempts, created_at,
+         last_attempt_at, next_attempt_at, response_status, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         status = excluded.status,
+         attempts = excluded.attempts,
+         last_attempt_at = excluded.last_attempt_at,
+         next_attempt_at = excluded.next_attempt_at,
+         response_status = excluded.response_status,
+         error = excluded.error`,
+      [
+        delivery.id,
+        delivery.endpointId,
+        delivery.event,
+        delivery.paymentId,
+        delivery.payload,
+        delivery.status,
+        delivery.attempts,
+        delivery.createdAt,
+        delivery.lastAttemptAt ?? null,
+        delivery.nextAttemptAt ?? null,
+        delivery.responseStatus ?? null,
+        delivery.error ?? null,
+      ]
+    );
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const db = await this.ready;
+    const rows = await db.all<DeliveryRow>('SELECT * FROM webhook_deliveries WHERE id = ?', [id]);
+    return rows.length > 0 ? this.deliveryFromRow(rows[0]) : null;
+  }
+
+  async listDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]> {
+    const db = await this.ready;
+    const rows = await db.all<DeliveryRow>(
+      'SELECT * FROM webhook_deliveries WHERE endpoint_id = ? ORDER BY created_at DESC LIMIT ?',
+      [endpointId, limit]
+    );
+    return rows.map((row) => this.deliveryFromRow(row));
+  }
+
+  async findDueDeliveries(now: number, limit: number): Promise<WebhookDelivery[]> {
+    const db = await this.ready;
+    const rows = await db.all<DeliveryRow>(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT ?`,
+      [now, limit]
+    );
+    return rows.map((row) => this.deliveryFromRow(row));
+  }
+
+  async claimDelivery(id: string, nextAttemptAt: number, claimUntil: number): Promise<boolean> {
+    const db = await this.ready;
+    const changes = await db.run(
+      `UPDATE webhook_deliveries SET next_attempt_at = ?
+       WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`,
+      [claimUntil, id, nextAttemptAt]
+    );
+    return changes > 0;
+  }
+
+  private endpointFromRow(row: EndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      merchant: row.merchant,
+      url: row.url,
+      events: JSON.parse(row.events),
+      secret: row.secret,
+      active: Number(row.active) === 1,
+      createdAt: Number(row.created_at),
+    };
+  }
+
+  private deliveryFromRow(row: DeliveryRow): WebhookDelivery {
+    // Postgres returns BIGINT columns as strings
+    const toNumber = (value: unknown) => (value === null ? undefined : Number(value));
+
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      event: row.event,
+      paymentId: row.payment_id,
+      payload: row.payload,
+      status: row.status,
+      attempts: Number(row.attempts),
+      createdAt: Number(row.created_at),
+      lastAttemptAt: toNumber(row.last_attempt_at),
+      nextAttemptAt: toNumber(row.next_attempt_at),
+      responseStatus: toNumber(row.response_status),
+      error: row.error ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { config } from '../config';
+import { createSqlClient, SqlClient } from './sql';
+import { MemoryPaymentStore } from './MemoryPaymentStore';
+import { SqlPaymentStore } from './SqlPaymentStore';
+import { MemoryNonceStore } from './MemoryNonceStore';
+import { SqlNonceStore } from './SqlNonceStore';
+import { MemoryApiKeyStore } from './MemoryApiKeyStore';
+import { SqlApiKeyStore } from './SqlApiKeyStore';
+import { MemoryRateLimitStore } from './MemoryRateLimitStore';
+import { RedisRateLimitStore } from './RedisRateLimitStore';
+import { MemoryWebhookStore } from './MemoryWebhookStore';
+import { SqlWebhookStore } from './SqlWebhookStore';
+import { MemoryIdempotencyStore } from './MemoryIdempotencyStore';
+import { SqlIdempotencyStore } from './SqlIdempotencyStore';
+import { MemoryTransactionStore } from './MemoryTransactionStore';
+import { SqlTransactionStore } from './SqlTransactionStore';
+import {
+  ApiKeyStore,
+  IdempotencyStore,
+  NonceStore,
+  PaymentStore,
+  RateLimitStore,
+  TransactionStore,
+  WebhookStore,
+} from './types';
+
+export type {
+  PaymentStore,
+  StoredPayment,
+  NonceStore,
+  NonceRecord,
+  ApiKeyStore,
+  ApiKeyRecord,
+  RateLimitStore,
+  RateLimitCounter,
+  WebhookStore,
+  WebhookEndpoint,
+  WebhookDelivery,
+  IdempotencyStore,
+  IdempotencyRecord,
+  TransactionStore,
+  PendingTransaction,
+} from './types';
+
+let sqlClient: Promise<SqlClient> | null = null;
+let paymentStore: PaymentStore | null = null;
+let nonceStore: NonceStore | null = null;
+let apiKeyStore: ApiKeyStore | null = null;
+let rateLimitStore: RateLimitStore | null = null;
+let webhookStore: WebhookStore | null = null;
+let idempotencyStore: IdempotencyStore | null = null;
+let transactionStore: TransactionStore | null = null;
+
+/**
+ * Shared SQL connection for DATABASE_URL
+ */
+function getSqlClient(url: string): Promise<SqlClient> {
+  if (!sqlClient) {
+    sqlClient = createSqlClient(url);
+  }
+  return sqlClient;
+}
+
+/**
+ * Get the shared payment store
+ * Falls back to an in-memory store when DATABASE_URL is not set
+ */
+export function getPaymentStore(): PaymentStore {
+  if (!paymentStore) {
+    paymentStore = config.database.url
+      ? new SqlPaymentStore(getSqlClient(config.database.url))
+      : new MemoryPaymentStore();
+  }
+  return paymentStore;
+}
+
+/**
+ * Get the shared nonce store used for replay protection
+ */
+export function getNonceStore(): NonceStore {
+  if (!nonceStore) {
+    nonceStore = config.database.url
+      ? new SqlNonceStore(getSqlClient(config.database.url))
+      : new MemoryNonceStore();
+  }
+  return nonceStore;
+}
+
+/**
+ * Get the shared API key store
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  if (!apiKeyStore) {
+    apiKeyStore = config.database.url
+      ? new SqlApiKeyStore(getSqlClient(config.database.url))
+      : new MemoryApiKeyStore();
+  }
+  return apiKeyStore;
+}
+
+/**
+ * Get the shared rate limit store
+ * Uses Redis when REDIS_URL is set so limits apply across instances
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = config.redis.url
+      ? new RedisRateLimitStore(config.redis.url)
+      : new MemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Get the shared webhook store
+ */
+export function getWebhookStore(): WebhookStore {
+  if (!webhookStore) {
+    webhookStore = config.database.url
+      ? new SqlWebhookStore(getSqlClient(config.database.url))
+      : new MemoryWebhookStore();
+  }
+  return webhookStore;
+}
+
+/**
+ * Get the shared idempotency key store
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!idempotencyStore) {
+    idempotencyStore = config.database.url
+      ? new SqlIdempotencyStore(getSqlClient(config.database.url))
+      : new MemoryIdempotencyStore();
+  }
+  return idempotencyStore;
+}
+
+/**
+ * Get the shared store of pending facilitator transactions
+ */
+export function getTransactionStore(): TransactionStore {
+  if (!transactionStore) {
+    transactionStore = config.database.url
+      ? new SqlTransactionStore(getSqlClient(config.database.url))
+      : new MemoryTransactionStore();
+  }
+  return transactionStore;
+}
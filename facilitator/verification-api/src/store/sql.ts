@@ -0,0 +1,98 @@
+/**
+ * Minimal SQL client abstraction over SQLite and Postgres
+ * Queries are written with `?` placeholders and translated per dialect
+ */
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface SqlClient {
+  readonly dialect: SqlDialect;
+  run(sql: string, params?: unknown[]): Promise<number>;
+  all<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Create a SQL client from a DATABASE_URL
+ * - postgres://... or postgresql://... -> Postgres
+ * - sqlite:<path> or file:<path>        -> SQLite
+ */
+export async function createSqlClient(url: string): Promise<SqlClient> {
+  if (url.startsWith('postgres://') || url.startsWith('postgresql://')) {
+    return createPostgresClient(url);
+  }
+
+  if (url.startsWith('sqlite:') || url.startsWith('file:')) {
+    return createSqliteClient(url.replace(/^(sqlite|file):(\/\/)?/, ''));
+  }
+
+  throw new Error(`Unsupported DATABASE_URL scheme: ${url.split(':')[0]}`);
+}
+
+/**
+ * Run schema statements once the client is connected
+ */
+export function withSchema(client: Promise<SqlClient>, statements: string[]): Promise<SqlClient> {
+  const ready = client.then(async (db) => {
+    for (const statement of statements) {
+      await db.run(statement);
+    }
+    return db;
+  });
+
+  // Surface connection errors on first use rather than as an unhandled rejection
+  ready.catch(() => undefined);
+  return ready;
+}
+
+async function createSqliteClient(path: string): Promise<SqlClient> {
+  const { default: Database } = await import('better-sqlite3');
+  const { mkdirSync } = await import('fs');
+  const { dirname } = await import('path');
+
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+
+  return {
+    dialect: 'sqlite',
+    async run(sql, params = []) {
+      return db.prepare(sql).run(...params).changes;
+    },
+    async all<T>(sql: string, params: unknown[] = []) {
+      return db.prepare(sql).all(...params) as T[];
+    },
+    async close() {
+      db.close();
+    },
+  };
+}
+
+async function createPostgresClient(url: string): Promise<SqlClient> {
+  const { Pool } = await import('pg');
+  const pool = new Pool({ connectionString: url });
+
+  // Translate `?` placeholders to `$1, $2, ...`
+  const translate = (sql: string) => {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  };
+
+  return {
+    dialect: 'postgres',
+    async run(sql, params = []) {
+      const result = await pool.query(translate(sql), params);
+      return result.rowCount ?? 0;
+    },
+    async all(sql, params = []) {
+      const result = await pool.query(translate(sql), params);
+      return result.rows;
+    },
+    async close() {
+      await pool.end();
+    },
+  };
+}
@@ -0,0 +1,238 @@
+import { EscrowInfo, PaymentPayload, PaymentRequirements, PaymentStatus } from '../types';
+
+/**
+ * Payment record persisted by the facilitator for every verify/settle attempt
+ * Timestamps are Unix seconds, matching the on-chain registry
+ */
+export interface StoredPayment {
+  paymentId: string;
+  status: PaymentStatus['status'];
+  payload: PaymentPayload;
+  requirements: PaymentRequirements;
+  payer: string;
+  payee: string;
+  asset: string;
+  resource: string;
+  network: string;
+  amount: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number; // Authorization validBefore
+  verifiedAt?: number;
+  settledAt?: number;
+  txHash?: string; // Source-chain payment transaction
+  settlementTxHash?: string; // Registry markPaymentSettled transaction
+  registryPaymentId?: string; // paymentId assigned by X402PaymentRegistry
+  escrow?: EscrowInfo; // Escrow-mode settlements only
+  error?: string;
+}
+
+/**
+ * Pluggable payment storage backend
+ */
+export interface PaymentStore {
+  get(paymentId: string): Promise<StoredPayment | null>;
+  findByRegistryId(registryPaymentId: string): Promise<StoredPayment | null>;
+  findByEscrowId(escrowId: string): Promise<StoredPayment | null>;
+  save(payment: StoredPayment): Promise<void>;
+  create(payment: StoredPayment): Promise<boolean>; // False if the payment already exists
+  update(paymentId: string, changes: Partial<StoredPayment>): Promise<StoredPayment | null>;
+  /**
+   * Atomically move a payment to a new status if it is currently in one of `from`
+   * Returns null when the payment is missing or in another status
+   */
+  transition(
+    paymentId: string,
+    from: PaymentStatus['status'][],
+    changes: Partial<StoredPayment> & Pick<StoredPayment, 'status'>
+  ): Promise<StoredPayment | null>;
+  findExpired(now: number, limit: number): Promise<StoredPayment[]>; // Verified but never settled
+  findByStatus(status: PaymentStatus['status'], limit: number): Promise<StoredPayment[]>; // Oldest update first
+  findEscrowPayment(statuses: PaymentStatus['status'][]): Promise<StoredPayment | null>; // Any escrow-mode payment
+  /**
+   * Atomically record that a source transaction pays for a payment
+   * Returns the paymentId that holds the transaction (the first one to claim it)
+   */
+  claimTransaction(network: string, txHash: string, paymentId: string): Promise<string>;
+  findTransactionOwner(network: string, txHash: string): Promise<string | null>; // Claiming paymentId
+}
+
+/**
+ * Tracked (from, nonce) pair for replay protection
+ * Entries expire with the authorization's validBefore
+ */
+export interface NonceRecord {
+  from: string;
+  nonce: string;
+  paymentId: string;
+  payloadHash: string; // Hash of the signature, distinguishes payloads sharing a nonce
+  status: 'verified' | 'settled';
+  expiresAt: number;
+}
+
+/**
+ * Pluggable nonce storage backend
+ */
+export interface NonceStore {
+  /**
+   * Claim a nonce, returning the live record that owns it
+   * (the existing one if already claimed, otherwise the given record)
+   */
+  claim(record: NonceRecord): Promise<NonceRecord>;
+  markSettled(from: string, nonce: string): Promise<void>;
+}
+
+/**
+ * Facilitator transaction that has been signed but not yet mined
+ * Kept with everything needed to re-sign it at a higher fee after a restart
+ */
+export interface PendingTransaction {
+  from: string;
+  nonce: number;
+  method: string; // Contract method or operation, for logs and metrics
+  chainId: string;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string; // Networks without EIP-1559 fees
+  hashes: string[]; // Every broadcast of this nonce, latest last
+  replacements: number;
+  createdAt: number;
+  sentAt: number; // Latest broadcast
+}
+
+/**
+ * Pluggable pending transaction storage backend
+ */
+export interface TransactionStore {
+  save(transaction: PendingTransaction): Promise<void>; // Insert or replace by (from, nonce)
+  listPending(from: string): Promise<PendingTransaction[]>; // Lowest nonce first
+  remove(from: string, nonce: number): Promise<void>;
+  // Take or extend the lease on a signer unless another owner holds it; returns the holder
+  lease(from: string, owner: string, leasedUntil: number): Promise<string>;
+}
+
+/**
+ * Stored outcome of an idempotent request
+ * In-progress records are locked to the instance running the request until lockedUntil
+ */
+export interface IdempotencyRecord {
+  key: string; // Scoped by merchant
+  owner: string; // Random token of the request that claimed the key
+  requestHash: string; // Hash of the request body, to detect key reuse
+  status: 'in_progress' | 'completed';
+  statusCode?: number;
+  response?: string; // JSON response body
+  createdAt: number;
+  lockedUntil: number;
+  expiresAt: number;
+}
+
+/**
+ * Pluggable idempotency key storage backend
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key, returning the live record that owns it
+   * (the existing one if already claimed, otherwise the given record)
+   */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord>;
+  get(key: string): Promise<IdempotencyRecord | null>;
+  complete(key: string, owner: string, statusCode: number, response: string): Promise<void>;
+  release(key: string, owner: string): Promise<void>; // Let the request be retried
+  renew(key: string, owner: string, lockedUntil: number): Promise<void>; // Request still running
+}
+
+/**
+ * API key issued to a merchant
+ * Only the SHA-256 hash of the key is stored
+ */
+export interface ApiKeyRecord {
+  id: string;
+  keyHash: string;
+  prefix: string; // First characters of the key, for identification
+  merchant: string; // Merchant address the key may settle to
+  name?: string;
+  allowedOrigins: string[]; // Empty means any origin
+  createdAt: number;
+  revokedAt?: number;
+}
+
+/**
+ * Pluggable API key storage backend
+ */
+export interface ApiKeyStore {
+  create(record: ApiKeyRecord): Promise<void>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  list(merchant?: string): Promise<ApiKeyRecord[]>;
+  revoke(id: string, revokedAt: number): Promise<boolean>;
+}
+
+/**
+ * Fixed-window counter state for a rate limit key
+ */
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number; // Unix milliseconds
+}
+
+/**
+ * Pluggable rate limit backend
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+}
+
+/**
+ * Merchant webhook registration
+ */
+export interface WebhookEndpoint {
+  id: string;
+  merchant: string;
+  url: string;
+  events: string[];
+  secret: string; // HMAC signing secret
+  active: boolean;
+  createdAt: number;
+}
+
+/**
+ * A single webhook delivery and its retry state
+ */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: string;
+  paymentId: string;
+  payload: string; // Exact JSON body that is signed and sent
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number; // Unset once delivered or out of retries
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * Pluggable webhook storage backend
+ */
+export interface WebhookStore {
+  createEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | null>;
+  listEndpoints(merchant: string): Promise<WebhookEndpoint[]>;
+  deleteEndpoint(id: string): Promise<boolean>;
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  listDeliveries(endpointId: string, limit: number): Promise<WebhookDelivery[]>;
+  findDueDeliveries(now: number, limit: number): Promise<WebhookDelivery[]>;
+  /**
+   * Atomically move a due delivery's next attempt from `nextAttemptAt` to `claimUntil`
+   * Returns false when another worker claimed or delivered it first
+   */
+  claimDelivery(id: string, nextAttemptAt: number, claimUntil: number): Promise<boolean>;
+}
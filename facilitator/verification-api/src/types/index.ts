@@ -3,8 +3,10 @@
  * Based on Coinbase x402 specification with Push Chain extensions
  */
 
+import type { ethers } from 'ethers';
+
 export interface PaymentRequirements {
-  scheme: 'exact';
+  scheme: string; // Payment scheme, e.g. "exact" (see /api/v1/supported)
   network: string; // "base-sepolia", "ethereum-sepolia", "solana-devnet", etc.
   maxAmountRequired: string; // Amount in atomic units
   resource: string;
@@ -13,7 +15,39 @@ export interface PaymentRequirements {
   payTo: string;
   maxTimeoutSeconds: number;
   asset: string; // Token contract address
-  extra?: Record<string, any>; // EIP-712 domain for signature verification
+  extra?: PaymentRequirementsExtra;
+}
+
+/**
+ * Optional requirement fields; unknown fields are passed through
+ */
+export interface PaymentRequirementsExtra {
+  domain?: ethers.TypedDataDomain; // Only compared against the token's own EIP-712 domain
+  settlementMode?: SettlementMode;
+  escrowTimeoutSeconds?: number; // Escrow mode only
+  [field: string]: unknown;
+}
+
+/**
+ * How settled funds reach the merchant, selected by `extra.settlementMode`
+ * - direct: the payer transfers to payTo
+ * - escrow: the payer transfers to the facilitator, which locks the funds in
+ *   X402PaymentEscrow until the merchant releases (or refunds) them
+ */
+export type SettlementMode = 'direct' | 'escrow';
+
+export type EscrowStatus = 'active' | 'released' | 'refunded' | 'disputed';
+
+export interface EscrowInfo {
+  escrowId: string;
+  status: EscrowStatus;
+  createdAt: number;
+  expiresAt: number; // After this anyone can refund the escrow to the facilitator
+  txHash?: string; // createEscrow transaction
+  facilitator?: string; // Escrow payer on-chain: the facilitator address that created it
+  releaseTxHash?: string; // releaseEscrow or refundEscrow transaction
+  refundTxHash?: string; // Transfer of refunded funds back to the payer
+  refundStartedAt?: number; // Set before that transfer is sent; it is never sent twice
 }
 
 export interface Authorization {
@@ -25,14 +59,20 @@ export interface Authorization {
   nonce: string;
 }
 
+/**
+ * Signed authorization carried by every scheme
+ * - exact: an EIP-3009 TransferWithAuthorization the facilitator executes
+ * - tx-proof: an x402 Authorization for a transfer the agent already sent (`txHash`)
+ */
 export interface ExactPaymentPayload {
   signature: string;
   authorization: Authorization;
+  txHash?: string; // Transfer already executed by the agent on the source chain
 }
 
 export interface PaymentPayload {
   x402Version: number;
-  scheme: 'exact';
+  scheme: string;
   network: string;
   payload: ExactPaymentPayload;
 }
@@ -41,21 +81,56 @@ export interface VerificationRequest {
   x402Version: number;
   paymentHeader: string; // Base64 encoded PaymentPayload
   paymentRequirements: PaymentRequirements;
+  validateRequirements?: boolean; // Check against the on-chain registry (default: VALIDATE_REGISTRY_REQUIREMENTS)
 }
 
+/**
+ * How the payer's signature was verified
+ * - eoa: ECDSA recovery
+ * - eip1271: isValidSignature on the deployed payer contract (e.g. a UEA)
+ * - erc6492: counterfactual contract, checked by simulating its deployment
+ */
+export type SignatureType = 'eoa' | 'eip1271' | 'erc6492';
+
 export interface VerificationResponse {
   isValid: boolean;
   invalidReason: string | null;
+  errorCode?: ErrorCode;
+  signatureType?: SignatureType;
   paymentId?: string;
   estimatedGas?: string;
+  gasEstimate?: GasEstimate;
   expiresAt?: number;
 }
 
+export interface GasEstimateStep {
+  method: string; // Contract call, e.g. "recordPayment"
+  gasUnits: string;
+  simulated: boolean; // false when the call reverted and a default was used
+}
+
+export interface GasEstimate {
+  network: string; // Network the settlement transactions are sent on
+  scheme: string;
+  settlementPath: 'registry' | 'eip3009';
+  steps: GasEstimateStep[];
+  gasUnits: string; // Sum of all steps
+  fees: {
+    gasPrice: string | null; // wei
+    maxFeePerGas: string | null;
+    maxPriorityFeePerGas: string | null;
+  };
+  estimatedCost: string; // wei
+  estimatedCostFormatted: string; // In native token units
+  nativeSymbol: string;
+}
+
 export interface SettlementRequest {
   x402Version: number;
   paymentHeader: string;
   paymentRequirements: PaymentRequirements;
   paymentId: string;
+  validateRequirements?: boolean; // See VerificationRequest
 }
 
 export interface SettlementResponse {
@@ -66,11 +141,27 @@ export interface SettlementResponse {
   timestamp: number;
   gasUsed?: string;
   registryTxHash?: string;
+  escrowId?: string; // Escrow holding the funds (escrow mode)
+  paymentId?: string; // Facilitator payment ID, for /status polling
+  // `pending` for async settlements, `pending_confirmation` while the source
+  // transaction lacks confirmations (retry after `retryAfter` seconds)
+  status?: PaymentStatus['status'] | 'pending_confirmation';
+  retryAfter?: number;
 }
 
 export interface PaymentStatus {
   paymentId: string;
-  status: 'pending' | 'verified' | 'settling' | 'settled' | 'failed' | 'expired';
+  status:
+    | 'pending'
+    | 'verified'
+    | 'settling'
+    | 'escrowed' // Funds held in escrow until the merchant releases them
+    | 'releasing' // Escrow release underway
+    | 'refunding' // Escrow refund underway
+    | 'settled'
+    | 'refunded'
+    | 'failed'
+    | 'expired';
   amount: string;
   asset: string;
   payer: string;
@@ -83,12 +174,137 @@ export interface PaymentStatus {
   txHash?: string;
   error?: string;
   originChain?: string;
+  registryPaymentId?: string; // paymentId assigned by X402PaymentRegistry
+  settlementTxHash?: string;
+  onChainVerified?: boolean; // Registry record matches payer and amount
+  settlementMode?: SettlementMode;
+  escrow?: EscrowInfo;
+}
+
+export interface PaymentHistoryQuery {
+  page: number;
+  limit: number;
+  status?: PaymentStatus['status'];
+  resource?: string;
+  payer?: string;
+  from?: number; // Unix seconds, inclusive
+  to?: number; // Unix seconds, inclusive
+}
+
+export interface PaymentHistoryResponse {
+  payments: PaymentStatus[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  // Totals for the payments on this page
+  summary: {
+    totalAmount: string;
+    totalPayments: number;
+    settledCount: number;
+    pendingCount: number;
+  };
+}
+
+/**
+ * Network registry entry (see config/networks.ts)
+ */
+export interface NetworkConfig {
+  id: string; // "push-chain", "base-sepolia", ...
+  name: string;
+  chainId: number;
+  caip2: string; // "eip155:<chainId>"
+  type: 'testnet' | 'mainnet';
+  rpcUrls: string[]; // Tried in order
+  confirmations: number; // Blocks required before a source-chain payment is final
+  blockTimeSeconds: number;
+  nativeCurrency: {
+    symbol: string;
+    decimals: number;
+  };
+}
+
+/**
+ * EIP-712 domain of a token that doesn't expose one on-chain (see config/domains.ts)
+ * The domain's chainId and verifyingContract come from the network and asset
+ */
+export interface TokenDomainConfig {
+  network: string; // Network ID or CAIP-2 ID
+  asset: string;
+  name: string;
+  version: string;
+}
+
+export interface SupportedNetwork
+  extends Pick<
+    NetworkConfig,
+    'id' | 'name' | 'chainId' | 'caip2' | 'type' | 'confirmations' | 'blockTimeSeconds' | 'nativeCurrency'
+  > {
+  rpcStatus: {
+    healthy: boolean;
+    blockNumber?: number;
+    latencyMs?: number;
+    error?: string;
+  };
+}
+
+export interface SupportedToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  network: string; // Network the token manager lives on
+}
+
+export interface SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+}
+
+export interface SupportedResponse {
+  x402Version: number;
+  facilitatorAddress: string; // Deposit address for escrow-mode payments
+  schemes: string[];
+  kinds: SupportedKind[]; // Registered scheme handlers, one entry per network
+  networks: SupportedNetwork[];
+  tokens: SupportedToken[];
+  updatedAt: number;
+}
+
+/**
+ * One readiness check
+ * A failing critical check makes the facilitator unready; others only degrade it
+ */
+export interface HealthCheck {
+  name: string; // e.g. "rpc:push-chain", "contracts", "facilitatorRole"
+  status: 'pass' | 'warn' | 'fail';
+  critical: boolean;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded' | 'unavailable';
+  timestamp: number;
+  checks: HealthCheck[];
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  prefix: string;
+  merchant: string;
+  name?: string;
+  allowedOrigins: string[];
+  createdAt: number;
+  revokedAt?: number;
 }
 
 export interface ApiError {
   code: string;
   message: string;
-  details?: any;
+  details?: unknown;
   timestamp: number;
 }
 
@@ -97,8 +313,10 @@ export enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   INVALID_SIGNATURE = 'INVALID_SIGNATURE',
   INSUFFICIENT_AMOUNT = 'INSUFFICIENT_AMOUNT',
+  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
   EXPIRED_PAYMENT = 'EXPIRED_PAYMENT',
   NONCE_USED = 'NONCE_USED',
+  TRANSACTION_ALREADY_USED = 'TRANSACTION_ALREADY_USED',
   UNSUPPORTED_NETWORK = 'UNSUPPORTED_NETWORK',
   UNSUPPORTED_TOKEN = 'UNSUPPORTED_TOKEN',
   SETTLEMENT_FAILED = 'SETTLEMENT_FAILED',
@@ -106,5 +324,21 @@ export enum ErrorCode {
   ALREADY_SETTLED = 'ALREADY_SETTLED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  WEBHOOK_NOT_FOUND = 'WEBHOOK_NOT_FOUND',
+  ESCROW_NOT_FOUND = 'ESCROW_NOT_FOUND',
+  INVALID_ESCROW_STATE = 'INVALID_ESCROW_STATE',
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+  REQUEST_IN_PROGRESS = 'REQUEST_IN_PROGRESS',
+  UNSUPPORTED_SCHEME = 'UNSUPPORTED_SCHEME',
+  PAYEE_MISMATCH = 'PAYEE_MISMATCH',
+  NETWORK_MISMATCH = 'NETWORK_MISMATCH',
+  WINDOW_TOO_LONG = 'WINDOW_TOO_LONG',
+  AMOUNT_NOT_EXACT = 'AMOUNT_NOT_EXACT',
+  DOMAIN_MISMATCH = 'DOMAIN_MISMATCH',
+  REQUIREMENT_INACTIVE = 'REQUIREMENT_INACTIVE',
+  REQUIREMENT_MISMATCH = 'REQUIREMENT_MISMATCH',
+  SIGNER_RELOAD_FAILED = 'SIGNER_RELOAD_FAILED',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
@@ -0,0 +1,10 @@
+/**
+ * Message of a thrown value; ethers errors give their short message, without calldata
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    const { shortMessage } = error as Error & { shortMessage?: string };
+    return shortMessage ?? error.message;
+  }
+  return String(error);
+}
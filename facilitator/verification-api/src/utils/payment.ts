@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import {
+  ErrorCode,
+  PaymentPayload,
+  PaymentRequirements,
+  PaymentStatus,
+  SettlementMode,
+} from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { StoredPayment } from '../store';
+
+/**
+ * Decode a base64 X-PAYMENT header
+ */
+export function decodePaymentHeader(paymentHeader: string): PaymentPayload {
+  try {
+    const decoded = Buffer.from(paymentHeader, 'base64').toString('utf-8');
+    const paymentPayload = JSON.parse(decoded);
+    if (typeof paymentPayload !== 'object' || paymentPayload === null) {
+      throw new Error('Payment header is not an object');
+    }
+    return paymentPayload;
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.INVALID_REQUEST,
+      'Invalid payment header encoding'
+    );
+  }
+}
+
+/**
+ * Check the signed authorization every scheme carries is well-formed
+ */
+export function validateAuthorizationPayload(paymentPayload: PaymentPayload): void {
+  const invalid = (field: string) =>
+    new AppError(ErrorCode.INVALID_REQUEST, `Invalid payment payload: ${field}`);
+
+  if (typeof paymentPayload?.network !== 'string') {
+    throw invalid('network');
+  }
+
+  const signature = paymentPayload.payload?.signature;
+  const authorization = paymentPayload.payload?.authorization;
+  if (!ethers.isHexString(signature)) {
+    throw invalid('signature');
+  }
+  if (!authorization) {
+    throw invalid('authorization');
+  }
+  for (const field of ['from', 'to'] as const) {
+    if (!ethers.isAddress(authorization[field])) {
+      throw invalid(`authorization.${field}`);
+    }
+  }
+  for (const field of ['value', 'validAfter', 'validBefore'] as const) {
+    if (!/^\d+$/.test(String(authorization[field]))) {
+      throw invalid(`authorization.${field}`);
+    }
+  }
+  if (!ethers.isHexString(authorization.nonce, 32)) {
+    throw invalid('authorization.nonce');
+  }
+}
+
+/**
+ * Derive the facilitator payment ID for a payment payload
+ * Stable per authorization, so verify and settle resolve to the same record
+ */
+export function getPaymentId(paymentPayload: PaymentPayload): string {
+  const { from, nonce } = paymentPayload.payload.authorization;
+  return ethers.id(`${paymentPayload.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`);
+}
+
+/**
+ * Settlement mode requested by the merchant (`extra.settlementMode`)
+ */
+export function getSettlementMode(requirements: PaymentRequirements): SettlementMode {
+  return requirements.extra?.settlementMode === 'escrow' ? 'escrow' : 'direct';
+}
+
+/**
+ * Convert a stored payment to its public status representation
+ */
+export function toPaymentStatus(payment: StoredPayment): PaymentStatus {
+  return {
+    paymentId: payment.paymentId,
+    status: payment.status,
+    amount: payment.amount,
+    asset: payment.asset,
+    payer: payment.payer,
+    payee: payment.payee,
+    network: payment.network,
+    resource: payment.resource,
+    createdAt: payment.createdAt,
+    verifiedAt: payment.verifiedAt,
+    settledAt: payment.settledAt,
+    txHash: payment.txHash,
+    error: payment.error,
+    registryPaymentId: payment.registryPaymentId,
+    settlementTxHash: payment.settlementTxHash,
+    settlementMode: getSettlementMode(payment.requirements),
+    escrow: payment.escrow,
+  };
+}
@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../contracts/abis';
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * ERC20 Transfer events emitted by `asset` in a transaction, in log order
+ */
+export function parseTransferLogs(
+  receipt: ethers.TransactionReceipt,
+  asset: string
+): TokenTransfer[] {
+  const transfers: TokenTransfer[] = [];
+
+  for (const log of receipt.logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.address.toLowerCase() !== asset.toLowerCase()) {
+      continue;
+    }
+
+    // ERC721 also emits Transfer(address,address,uint256), with the token ID indexed
+    const parsed =
+      log.topics.length === 3
+        ? erc20Interface.parseLog({ topics: [...log.topics], data: log.data })
+        : null;
+    if (parsed) {
+      transfers.push({ from: parsed.args[0], to: parsed.args[1], amount: BigInt(parsed.args[2]) });
+    }
+  }
+
+  return transfers;
+}
+
+/**
+ * Total transferred from `from` to `to` across a transaction's Transfer events
+ */
+export function sumTransfers(transfers: TokenTransfer[], from: string, to: string): bigint {
+  return transfers
+    .filter(
+      (transfer) =>
+        transfer.from.toLowerCase() === from.toLowerCase() &&
+        transfer.to.toLowerCase() === to.toLowerCase()
+    )
+    .reduce((total, transfer) => total + transfer.amount, 0n);
+}
@@ -4,6 +4,9 @@
 
 const API_URL = 'http://localhost:3001';
 
+// Merchant API key, needed unless the facilitator runs with REQUIRE_API_KEY=false
+const API_KEY_HEADERS = process.env.API_KEY ? { 'X-API-Key': process.env.API_KEY } : {};
+
 async function testHealthCheck() {
   console.log('\n1️⃣  Testing Health Check...');
   const response = await fetch(`${API_URL}/health`);
@@ -52,7 +55,7 @@ async function testVerification() {
 
   const response = await fetch(`${API_URL}/api/v1/verify`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...API_KEY_HEADERS },
     body: JSON.stringify(request),
   });
 
@@ -102,7 +105,7 @@ async function testSettlement() {
 
   const response = await fetch(`${API_URL}/api/v1/settle`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...API_KEY_HEADERS },
     body: JSON.stringify(request),
   });
 
@@ -129,7 +132,9 @@ async function testStatus(paymentId) {
   console.log('\n4️⃣  Testing Payment Status...');
   console.log('Payment ID:', paymentId);
 
-  const response = await fetch(`${API_URL}/api/v1/status/${paymentId}`);
+  const response = await fetch(`${API_URL}/api/v1/status/${paymentId}`, {
+    headers: API_KEY_HEADERS,
+  });
   const data = await response.json();
   console.log('Status:', data);
   return data;
@@ -4,6 +4,13 @@
 
 API_URL="http://localhost:3001"
 
+# Merchant API key, needed unless the facilitator runs with REQUIRE_API_KEY=false
+API_KEY="${API_KEY:-}"
+AUTH_HEADER=()
+if [ -n "$API_KEY" ]; then
+  AUTH_HEADER=(-H "X-API-Key: ${API_KEY}")
+fi
+
 echo "=========================================="
 echo "Testing x402 Verification API"
 echo "=========================================="
@@ -58,6 +65,7 @@ VERIFY_REQUEST='{
 
 curl -s -X POST "${API_URL}/api/v1/verify" \
   -H "Content-Type: application/json" \
+  "${AUTH_HEADER[@]}" \
   -d "$VERIFY_REQUEST" | jq
 echo ""
 echo ""
@@ -84,6 +92,7 @@ SETTLE_REQUEST='{
 
 curl -s -X POST "${API_URL}/api/v1/settle" \
   -H "Content-Type: application/json" \
+  "${AUTH_HEADER[@]}" \
   -d "$SETTLE_REQUEST" | jq
 echo ""
 echo ""
@@ -4,6 +4,13 @@
 
 API_URL="http://localhost:3001"
 
+# Merchant API key, needed unless the facilitator runs with REQUIRE_API_KEY=false
+API_KEY="${API_KEY:-}"
+AUTH_HEADER=()
+if [ -n "$API_KEY" ]; then
+  AUTH_HEADER=(-H "X-API-Key: ${API_KEY}")
+fi
+
 echo "=========================================="
 echo "Testing Real Payment Settlement"
 echo "=========================================="
@@ -60,6 +67,7 @@ SETTLE_REQUEST='{
 echo "Attempting settlement..."
 RESPONSE=$(curl -s -X POST "${API_URL}/api/v1/settle" \
   -H "Content-Type: application/json" \
+  "${AUTH_HEADER[@]}" \
   -d "$SETTLE_REQUEST")
 
 echo "$RESPONSE" | jq
@@ -76,7 +84,7 @@ if echo "$RESPONSE" | jq -e '.success' > /dev/null 2>&1; then
   if [ "$PAYMENT_ID" != "null" ] && [ ! -z "$PAYMENT_ID" ]; then
     echo "Checking payment status..."
     sleep 2
-    curl -s "${API_URL}/api/v1/status/${PAYMENT_ID}" | jq
+    curl -s "${AUTH_HEADER[@]}" "${API_URL}/api/v1/status/${PAYMENT_ID}" | jq
   fi
 else
   echo ""
@@ -6,8 +6,19 @@ import {
   PaymentOptions,
   PaymentResult,
   ClientConfig,
+  SupportedInfo,
 } from './types';
 
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+];
+
+// Versions tried against DOMAIN_SEPARATOR when the token has no version()
+const CANDIDATE_VERSIONS = ['1', '2'];
+
 /**
  * X402 Client - Handles HTTP 402 responses and payment creation
  */
@@ -19,6 +30,7 @@ export class X402Client {
       facilitatorUrl: config.facilitatorUrl || 'http://localhost:3001',
       autoRetry: config.autoRetry ?? true,
       defaultValidFor: config.defaultValidFor || 3600,
+      tokenDomains: config.tokenDomains || [],
     };
   }
 
@@ -134,6 +146,14 @@ export class X402Client {
     return response.data;
   }
 
+  /**
+   * Get schemes, networks and tokens supported by the facilitator
+   */
+  async getSupported(): Promise<SupportedInfo> {
+    const response = await axios.get(`${this.config.facilitatorUrl}/api/v1/supported`);
+    return response.data;
+  }
+
   /**
    * Verify payment with facilitator
    */
@@ -169,11 +189,21 @@ export class X402Client {
   ) {
     const signerAddress = await options.signer.getAddress();
     const now = Math.floor(Date.now() / 1000);
-    const validFor = options.validFor || this.config.defaultValidFor || 3600;
+    // Facilitators reject authorizations valid for longer than maxTimeoutSeconds
+    const validFor = Math.min(
+      options.validFor || this.config.defaultValidFor || 3600,
+      requirements.maxTimeoutSeconds
+    );
+
+    // Escrow payments are made out to the facilitator, which escrows them for payTo
+    const escrow = requirements.extra?.settlementMode === 'escrow';
+    if (escrow && !requirements.extra?.depositAddress) {
+      throw new Error('Invalid escrow payment requirements: missing extra.depositAddress');
+    }
 
     return {
       from: signerAddress,
-      to: requirements.payTo,
+      to: escrow ? requirements.extra!.depositAddress : requirements.payTo,
       value: options.amount || requirements.maxAmountRequired,
       validAfter: now.toString(),
       validBefore: (now + validFor).toString(),
@@ -194,17 +224,19 @@ export class X402Client {
     const network = await provider.getNetwork();
     const chainId = Number(network.chainId);
 
-    // Build EIP-712 domain
-    const domain = requirements.extra?.domain || {
-      name: 'x402 Payment',
-      version: '1',
-      chainId,
-      verifyingContract: requirements.asset,
-    };
+    // Sign against the token's own domain; the requirements' domain is only checked
+    const domain = await this.resolveDomain(requirements, provider, chainId);
+    if (
+      requirements.extra?.domain &&
+      ethers.TypedDataEncoder.hashDomain(requirements.extra.domain) !==
+        ethers.TypedDataEncoder.hashDomain(domain)
+    ) {
+      throw new Error('Payment requirements EIP-712 domain does not match the token');
+    }
 
-    // Build types
+    // EIP-3009 authorization, executed by the facilitator (`exact` scheme)
     const types = {
-      Authorization: [
+      TransferWithAuthorization: [
         { name: 'from', type: 'address' },
         { name: 'to', type: 'address' },
         { name: 'value', type: 'uint256' },
@@ -217,6 +249,61 @@ export class X402Client {
     // Sign
     return await signer.signTypedData(domain, types, authorization);
   }
+
+  /**
+   * Resolve the EIP-712 domain the token verifies authorizations against:
+   * configured tokenDomains first, then eip712Domain(), then name()/version()
+   * checked against DOMAIN_SEPARATOR()
+   */
+  private async resolveDomain(
+    requirements: X402PaymentRequirements,
+    provider: ethers.Provider,
+    chainId: number
+  ): Promise<ethers.TypedDataDomain> {
+    const asset = requirements.asset;
+    const configured = this.config.tokenDomains!.find(
+      (entry) =>
+        entry.network === requirements.network && entry.asset.toLowerCase() === asset.toLowerCase()
+    );
+    if (configured) {
+      return { name: configured.name, version: configured.version, chainId, verifyingContract: asset };
+    }
+
+    const token = new ethers.Contract(asset, EIP712_DOMAIN_ABI, provider);
+    const optional = <T>(call: () => Promise<T>) => call().catch((): null => null);
+
+    const eip5267 = await optional(() => token.eip712Domain());
+    if (eip5267) {
+      const fields = Number(eip5267.fields);
+      const domain: ethers.TypedDataDomain = {};
+      if (fields & 0x01) domain.name = eip5267.name;
+      if (fields & 0x02) domain.version = eip5267.version;
+      if (fields & 0x04) domain.chainId = eip5267.chainId;
+      if (fields & 0x08) domain.verifyingContract = eip5267.verifyingContract;
+      if (fields & 0x10) domain.salt = eip5267.salt;
+      return domain;
+    }
+
+    const [name, version, separator] = await Promise.all([
+      optional<string>(() => token.name()),
+      optional<string>(() => token.version()),
+      optional<string>(() => token.DOMAIN_SEPARATOR()),
+    ]);
+
+    if (name !== null) {
+      const versions = version === null ? CANDIDATE_VERSIONS : [version];
+      for (const candidate of versions) {
+        const domain = { name, version: candidate, chainId, verifyingContract: asset };
+        if (!separator ? version !== null : ethers.TypedDataEncoder.hashDomain(domain) === separator) {
+          return domain;
+        }
+      }
+    }
+
+    throw new Error(
+      `Cannot resolve the EIP-712 domain of ${asset}; add it to the tokenDomains option`
+    );
+  }
 }
 
 /**
@@ -3,7 +3,7 @@
  */
 
 export interface X402PaymentRequirements {
-  scheme: 'exact';
+  scheme: string;
   network: string;
   maxAmountRequired: string;
   resource: string;
@@ -47,4 +47,48 @@ export interface ClientConfig {
   facilitatorUrl?: string;
   autoRetry?: boolean;
   defaultValidFor?: number;
+  tokenDomains?: TokenDomain[]; // For tokens that don't expose their EIP-712 domain
+}
+
+/**
+ * EIP-712 name and version of a token, for tokens without eip712Domain() or version()
+ */
+export interface TokenDomain {
+  network: string;
+  asset: string;
+  name: string;
+  version: string;
+}
+
+/**
+ * Facilitator discovery response (GET /api/v1/supported)
+ */
+export interface SupportedInfo {
+  x402Version: number;
+  facilitatorAddress: string;
+  schemes: string[];
+  kinds: Array<{ x402Version: number; scheme: string; network: string }>;
+  networks: Array<{
+    id: string;
+    name: string;
+    chainId: number;
+    caip2: string;
+    type: 'testnet' | 'mainnet';
+    confirmations: number;
+    blockTimeSeconds: number;
+    nativeCurrency: { symbol: string; decimals: number };
+    rpcStatus: {
+      healthy: boolean;
+      blockNumber?: number;
+      latencyMs?: number;
+      error?: string;
+    };
+  }>;
+  tokens: Array<{
+    address: string;
+    symbol: string;
+    decimals: number;
+    network: string;
+  }>;
+  updatedAt: number;
 }
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { X402Server, PaymentRequirement } from '@push-x402/server';
 
@@ -6,6 +7,8 @@ import { X402Server, PaymentRequirement } from '@push-x402/server';
  */
 export interface X402MiddlewareConfig {
   facilitatorUrl?: string;
+  apiKey?: string;
+  apiKeyHeader?: string;
   payTo: string;
   asset: string;
   network?: string;
@@ -20,6 +23,8 @@ export interface X402MiddlewareConfig {
 export function x402Middleware(config: X402MiddlewareConfig) {
   const server = new X402Server({
     facilitatorUrl: config.facilitatorUrl,
+    apiKey: config.apiKey,
+    apiKeyHeader: config.apiKeyHeader,
     defaultNetwork: config.network || 'push-chain',
   });
 
@@ -33,6 +38,11 @@ export function x402Middleware(config: X402MiddlewareConfig) {
         return send402Response(req, res, config, server);
       }
 
+      // One ID for the request's verify and settle calls, so they can be traced
+      // in the facilitator's logs
+      const requestId = req.get('X-Request-Id') || randomUUID();
+      res.set('X-Request-Id', requestId);
+
       // Verify payment
       const price = config.getPriceForResource
         ? await config.getPriceForResource(req.path)
@@ -49,7 +59,7 @@ export function x402Middleware(config: X402MiddlewareConfig) {
         payTo: config.payTo,
       };
 
-      const verification = await server.verifyPayment(paymentHeader, requirement);
+      const verification = await server.verifyPayment(paymentHeader, requirement, { requestId });
 
       if (!verification.isValid) {
         return res.status(402).json({
@@ -59,7 +69,9 @@ export function x402Middleware(config: X402MiddlewareConfig) {
       }
 
       // Settle payment
-      const settlement = await server.settlePayment(paymentHeader, requirement);
+      const settlement = await server.settlePayment(paymentHeader, requirement, undefined, {
+        requestId,
+      });
 
       if (!settlement.success) {
         return res.status(500).json({
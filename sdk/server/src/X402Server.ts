@@ -12,6 +12,10 @@ export interface PaymentRequirement {
   mimeType?: string;
   payTo: string;
   timeoutSeconds?: number;
+  settlementMode?: 'direct' | 'escrow'; // Escrow holds funds until releaseEscrow()
+  // After this anyone can refund the escrow on-chain, but the funds return to the
+  // facilitator; the payer is repaid when the merchant calls the refund endpoint
+  escrowTimeoutSeconds?: number;
 }
 
 /**
@@ -19,11 +23,21 @@ export interface PaymentRequirement {
  */
 export interface ServerConfig {
   facilitatorUrl?: string;
+  apiKey?: string; // Facilitator API key bound to the merchant's payTo address
+  apiKeyHeader?: string;
+  facilitatorAddress?: string; // Receives escrow-mode payments (see GET /api/v1/supported)
   registryAddress?: string;
   defaultNetwork?: string;
   defaultTimeout?: number;
 }
 
+/**
+ * Per-call options for facilitator requests
+ */
+export interface RequestOptions {
+  requestId?: string; // Sent as X-Request-Id to correlate facilitator logs with yours
+}
+
 /**
  * X402 Server - Creates payment requirements and handles verification
  */
@@ -33,6 +47,9 @@ export class X402Server {
   constructor(config: ServerConfig = {}) {
     this.config = {
       facilitatorUrl: config.facilitatorUrl || 'http://localhost:3001',
+      apiKey: config.apiKey,
+      apiKeyHeader: config.apiKeyHeader || 'X-API-Key',
+      facilitatorAddress: config.facilitatorAddress,
       registryAddress: config.registryAddress || '0xE1ED01e0623BBae51df78341297F16eE75a0009B',
       defaultNetwork: config.defaultNetwork || 'push-chain',
       defaultTimeout: config.defaultTimeout || 3600,
@@ -43,17 +60,7 @@ export class X402Server {
    * Create a 402 response
    */
   create402Response(requirement: PaymentRequirement): X402Response {
-    const paymentRequirements = {
-      scheme: 'exact' as const,
-      network: requirement.network || this.config.defaultNetwork!,
-      maxAmountRequired: requirement.amount,
-      resource: requirement.resource,
-      description: requirement.description,
-      mimeType: requirement.mimeType || 'application/json',
-      payTo: requirement.payTo,
-      maxTimeoutSeconds: requirement.timeoutSeconds || this.config.defaultTimeout!,
-      asset: requirement.asset,
-    };
+    const paymentRequirements = this.toPaymentRequirements(requirement);
 
     // Encode as base64
     const encoded = Buffer.from(JSON.stringify(paymentRequirements)).toString('base64');
@@ -77,31 +84,27 @@ export class X402Server {
    */
   async verifyPayment(
     paymentHeader: string,
-    requirement: PaymentRequirement
+    requirement: PaymentRequirement,
+    options: RequestOptions = {}
   ): Promise<VerificationResult> {
-    const paymentRequirements = {
-      scheme: 'exact' as const,
-      network: requirement.network || this.config.defaultNetwork!,
-      maxAmountRequired: requirement.amount,
-      resource: requirement.resource,
-      description: requirement.description,
-      mimeType: requirement.mimeType || 'application/json',
-      payTo: requirement.payTo,
-      maxTimeoutSeconds: requirement.timeoutSeconds || this.config.defaultTimeout!,
-      asset: requirement.asset,
-    };
+    const paymentRequirements = this.toPaymentRequirements(requirement);
 
     try {
       const response = await axios.post(`${this.config.facilitatorUrl}/api/v1/verify`, {
         x402Version: 1,
         paymentHeader,
         paymentRequirements,
+      }, {
+        headers: this.getHeaders(options),
       });
 
       return {
         isValid: response.data.isValid,
         invalidReason: response.data.invalidReason,
+        errorCode: response.data.errorCode,
+        signatureType: response.data.signatureType,
         estimatedGas: response.data.estimatedGas,
+        gasEstimate: response.data.gasEstimate,
         expiresAt: response.data.expiresAt,
       };
     } catch (error: any) {
@@ -114,35 +117,84 @@ export class X402Server {
 
   /**
    * Settle payment
+   * `paymentId` is the facilitator payment ID, as from settlePaymentAsync();
+   * the registry's ID is `registryPaymentId`
+   * Retries with the same idempotency key return the original result
+   * (the facilitator defaults the key to a hash of the payment header)
    */
   async settlePayment(
     paymentHeader: string,
-    requirement: PaymentRequirement
+    requirement: PaymentRequirement,
+    idempotencyKey?: string,
+    options: RequestOptions = {}
   ): Promise<SettlementResult> {
-    const paymentRequirements = {
-      scheme: 'exact' as const,
-      network: requirement.network || this.config.defaultNetwork!,
-      maxAmountRequired: requirement.amount,
-      resource: requirement.resource,
-      description: requirement.description,
-      mimeType: requirement.mimeType || 'application/json',
-      payTo: requirement.payTo,
-      maxTimeoutSeconds: requirement.timeoutSeconds || this.config.defaultTimeout!,
-      asset: requirement.asset,
-    };
+    const paymentRequirements = this.toPaymentRequirements(requirement);
+
+    try {
+      const response = await axios.post(`${this.config.facilitatorUrl}/api/v1/settle`, {
+        x402Version: 1,
+        paymentHeader,
+        paymentRequirements,
+      }, {
+        headers: {
+          ...this.getHeaders(options),
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
+      });
+
+      return {
+        success: response.data.success,
+        error: response.data.error,
+        txHash: response.data.txHash,
+        paymentId: response.data.paymentId ?? null,
+        registryPaymentId: response.data.registryTxHash,
+        escrowId: response.data.escrowId,
+        status: response.data.status,
+        retryAfter: response.data.retryAfter,
+        timestamp: response.data.timestamp,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message,
+        txHash: null,
+        paymentId: null,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Queue a payment for settlement and return as soon as it is verified
+   * `paymentId` is the facilitator payment ID; follow it with waitForSettlement()
+   */
+  async settlePaymentAsync(
+    paymentHeader: string,
+    requirement: PaymentRequirement,
+    idempotencyKey?: string,
+    options: RequestOptions = {}
+  ): Promise<SettlementResult> {
+    const paymentRequirements = this.toPaymentRequirements(requirement);
 
     try {
       const response = await axios.post(`${this.config.facilitatorUrl}/api/v1/settle`, {
         x402Version: 1,
         paymentHeader,
         paymentRequirements,
+        async: true,
+      }, {
+        headers: {
+          ...this.getHeaders(options),
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
       });
 
       return {
         success: response.data.success,
         error: response.data.error,
         txHash: response.data.txHash,
-        paymentId: response.data.registryTxHash,
+        paymentId: response.data.paymentId,
+        status: response.data.status,
         timestamp: response.data.timestamp,
       };
     } catch (error: any) {
@@ -156,19 +208,178 @@ export class X402Server {
     }
   }
 
+  /**
+   * Poll a payment until settlement finishes (settled, escrowed, refunded, failed or expired)
+   * Throws if it is still in progress after `timeoutMs`
+   */
+  async waitForSettlement(
+    paymentId: string,
+    timeoutMs: number = 60000,
+    pollIntervalMs: number = 2000
+  ): Promise<PaymentStatus> {
+    const inProgress: PaymentStatus['status'][] = ['pending', 'verified', 'settling'];
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const status = await this.getPaymentStatus(paymentId);
+      if (status && !inProgress.includes(status.status)) {
+        return status;
+      }
+
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(
+          `Payment ${paymentId} not settled after ${timeoutMs}ms (status: ${status?.status ?? 'unknown'})`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Estimate the facilitator's gas cost to settle a payment
+   * Pass the payment header to simulate a specific authorization
+   */
+  async estimateSettlement(
+    requirement: PaymentRequirement,
+    paymentHeader?: string
+  ): Promise<GasEstimate> {
+    const paymentRequirements = this.toPaymentRequirements(requirement);
+
+    const response = await axios.post(`${this.config.facilitatorUrl}/api/v1/estimate`, {
+      paymentHeader,
+      paymentRequirements,
+    }, {
+      headers: this.getHeaders(),
+    });
+    return response.data;
+  }
+
   /**
    * Check payment status
    */
   async getPaymentStatus(paymentId: string): Promise<PaymentStatus | null> {
     try {
       const response = await axios.get(
-        `${this.config.facilitatorUrl}/api/v1/status/${paymentId}`
+        `${this.config.facilitatorUrl}/api/v1/status/${paymentId}`,
+        { headers: this.getHeaders() }
       );
       return response.data;
     } catch (error) {
       return null;
     }
   }
+
+  /**
+   * List payments recorded for a merchant, newest first
+   * Use for revenue reconciliation; the API key must belong to the merchant
+   */
+  async listPayments(
+    merchantAddress: string,
+    query: PaymentHistoryQuery = {}
+  ): Promise<PaymentHistory> {
+    const response = await axios.get(
+      `${this.config.facilitatorUrl}/api/v1/merchants/${merchantAddress}/payments`,
+      { headers: this.getHeaders(), params: query }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get schemes, networks and tokens supported by the facilitator
+   */
+  async getSupported(): Promise<SupportedInfo> {
+    const response = await axios.get(`${this.config.facilitatorUrl}/api/v1/supported`);
+    return response.data;
+  }
+
+  /**
+   * Check a payment requirement against the facilitator's supported networks and tokens
+   * Returns a list of problems; empty when the requirement can be served
+   */
+  async validateRequirement(requirement: PaymentRequirement): Promise<string[]> {
+    const supported = await this.getSupported();
+    const network = requirement.network || this.config.defaultNetwork!;
+    const problems: string[] = [];
+
+    if (!supported.networks.some((candidate) => candidate.id === network)) {
+      problems.push(`Unsupported network: ${network}`);
+    }
+
+    const token = supported.tokens.find(
+      (candidate) => candidate.address.toLowerCase() === requirement.asset.toLowerCase()
+    );
+    if (!token) {
+      problems.push(`Unsupported token: ${requirement.asset}`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Release an escrowed payment to the merchant after delivery
+   * Accepts the escrow ID or payment ID
+   */
+  async releaseEscrow(id: string): Promise<PaymentStatus> {
+    const response = await axios.post(
+      `${this.config.facilitatorUrl}/api/v1/escrow/${id}/release`,
+      {},
+      { headers: this.getHeaders() }
+    );
+    return response.data;
+  }
+
+  /**
+   * Refund an escrowed payment to the payer
+   */
+  async refundEscrow(id: string): Promise<PaymentStatus> {
+    const response = await axios.post(
+      `${this.config.facilitatorUrl}/api/v1/escrow/${id}/refund`,
+      {},
+      { headers: this.getHeaders() }
+    );
+    return response.data;
+  }
+
+  /**
+   * Build x402 payment requirements from a requirement config
+   */
+  private toPaymentRequirements(requirement: PaymentRequirement) {
+    if (requirement.settlementMode === 'escrow' && !this.config.facilitatorAddress) {
+      throw new Error('facilitatorAddress is required for escrow settlement');
+    }
+
+    const extra =
+      requirement.settlementMode === 'escrow'
+        ? {
+            settlementMode: 'escrow',
+            depositAddress: this.config.facilitatorAddress,
+            escrowTimeoutSeconds: requirement.escrowTimeoutSeconds,
+          }
+        : undefined;
+
+    return {
+      scheme: 'exact' as const,
+      network: requirement.network || this.config.defaultNetwork!,
+      maxAmountRequired: requirement.amount,
+      resource: requirement.resource,
+      description: requirement.description,
+      mimeType: requirement.mimeType || 'application/json',
+      payTo: requirement.payTo,
+      maxTimeoutSeconds: requirement.timeoutSeconds || this.config.defaultTimeout!,
+      asset: requirement.asset,
+      ...(extra && { extra }),
+    };
+  }
+
+  /**
+   * Headers sent to the facilitator
+   */
+  private getHeaders(options: RequestOptions = {}): Record<string, string> {
+    return {
+      ...(this.config.apiKey ? { [this.config.apiKeyHeader!]: this.config.apiKey } : {}),
+      ...(options.requestId ? { 'X-Request-Id': options.requestId } : {}),
+    };
+  }
 }
 
 /**
@@ -189,10 +400,32 @@ export interface X402Response {
 export interface VerificationResult {
   isValid: boolean;
   invalidReason: string | null;
+  errorCode?: string; // e.g. "PAYEE_MISMATCH", "AMOUNT_NOT_EXACT"
+  signatureType?: 'eoa' | 'eip1271' | 'erc6492'; // Smart accounts use EIP-1271 / ERC-6492
   estimatedGas?: string;
+  gasEstimate?: GasEstimate;
   expiresAt?: number;
 }
 
+/**
+ * Settlement gas estimate
+ */
+export interface GasEstimate {
+  network: string;
+  scheme: string;
+  settlementPath: 'registry' | 'eip3009';
+  steps: Array<{ method: string; gasUnits: string; simulated: boolean }>;
+  gasUnits: string;
+  fees: {
+    gasPrice: string | null;
+    maxFeePerGas: string | null;
+    maxPriorityFeePerGas: string | null;
+  };
+  estimatedCost: string; // wei
+  estimatedCostFormatted: string;
+  nativeSymbol: string;
+}
+
 /**
  * Settlement result
  */
@@ -200,7 +433,13 @@ export interface SettlementResult {
   success: boolean;
   error: string | null;
   txHash: string | null;
-  paymentId: string | null;
+  paymentId: string | null; // Facilitator payment ID, from both settlePayment() and settlePaymentAsync()
+  registryPaymentId?: string; // X402PaymentRegistry paymentId, once recorded
+  escrowId?: string;
+  // `pending` for settlePaymentAsync(); `pending_confirmation` when the source
+  // transaction needs more confirmations (retry after `retryAfter` seconds)
+  status?: PaymentStatus['status'] | 'pending_confirmation';
+  retryAfter?: number;
   timestamp: number;
 }
 
@@ -209,12 +448,108 @@ export interface SettlementResult {
  */
 export interface PaymentStatus {
   paymentId: string;
-  status: 'pending' | 'verified' | 'settling' | 'settled' | 'failed' | 'expired';
+  status:
+    | 'pending'
+    | 'verified'
+    | 'settling'
+    | 'escrowed'
+    | 'releasing'
+    | 'refunding'
+    | 'settled'
+    | 'refunded'
+    | 'failed'
+    | 'expired';
   amount: string;
+  asset: string;
   payer: string;
+  payee: string;
   network: string;
   resource: string;
   createdAt: number;
+  verifiedAt?: number;
   settledAt?: number;
   txHash?: string;
+  error?: string;
+  originChain?: string;
+  registryPaymentId?: string;
+  settlementTxHash?: string;
+  onChainVerified?: boolean;
+  settlementMode?: 'direct' | 'escrow';
+  escrow?: {
+    escrowId: string;
+    status: 'active' | 'released' | 'refunded' | 'disputed';
+    createdAt: number;
+    expiresAt: number;
+    txHash?: string;
+    facilitator?: string; // Facilitator address that created the escrow
+    releaseTxHash?: string;
+    refundTxHash?: string;
+    refundStartedAt?: number; // Refund forwarding began; it is never sent twice
+  };
+}
+
+/**
+ * Merchant payment history filters
+ */
+export interface PaymentHistoryQuery {
+  page?: number;
+  limit?: number; // Max 100
+  status?: PaymentStatus['status'];
+  resource?: string;
+  payer?: string;
+  from?: number; // Unix seconds
+  to?: number; // Unix seconds
+}
+
+/**
+ * Merchant payment history page
+ */
+export interface PaymentHistory {
+  payments: PaymentStatus[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  // Totals for the payments on this page
+  summary: {
+    totalAmount: string;
+    totalPayments: number;
+    settledCount: number;
+    pendingCount: number;
+  };
+}
+
+/**
+ * Facilitator discovery response (GET /api/v1/supported)
+ */
+export interface SupportedInfo {
+  x402Version: number;
+  facilitatorAddress: string;
+  schemes: string[];
+  kinds: Array<{ x402Version: number; scheme: string; network: string }>;
+  networks: Array<{
+    id: string;
+    name: string;
+    chainId: number;
+    caip2: string;
+    type: 'testnet' | 'mainnet';
+    confirmations: number;
+    blockTimeSeconds: number;
+    nativeCurrency: { symbol: string; decimals: number };
+    rpcStatus: {
+      healthy: boolean;
+      blockNumber?: number;
+      latencyMs?: number;
+      error?: string;
+    };
+  }>;
+  tokens: Array<{
+    address: string;
+    symbol: string;
+    decimals: number;
+    network: string;
+  }>;
+  updatedAt: number;
 }
@@ -7,8 +7,20 @@ export { X402Server } from './X402Server';
 export type {
   PaymentRequirement,
   ServerConfig,
+  RequestOptions,
   X402Response,
   VerificationResult,
   SettlementResult,
   PaymentStatus,
+  PaymentHistoryQuery,
+  PaymentHistory,
+  SupportedInfo,
+  GasEstimate,
 } from './X402Server';
+
+export {
+  verifyWebhookSignature,
+  constructWebhookEvent,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks';
+export type { WebhookEvent, WebhookEventType } from './webhooks';
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+
+/**
+ * Header carrying the facilitator's webhook signature
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-x402-signature';
+
+export type WebhookEventType =
+  | 'payment.verified'
+  | 'payment.settled'
+  | 'payment.failed'
+  | 'payment.expired'
+  | 'escrow.created'
+  | 'escrow.released'
+  | 'escrow.refunded';
+
+export interface WebhookEvent {
+  id: string; // Delivery ID
+  event: WebhookEventType;
+  paymentId: string;
+  timestamp: number;
+  data: Record<string, any>;
+}
+
+/**
+ * Verify a webhook signature header (`t=<timestamp>,v1=<hex>`)
+ * Pass the raw request body, not a re-serialized object
+ */
+export function verifyWebhookSignature(
+  payload: string | Buffer,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds: number = 300
+): boolean {
+  if (!signatureHeader) {
+    return false;
+  }
+
+  const parts = new Map(
+    signatureHeader.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as [string, string];
+    })
+  );
+
+  const timestamp = parseInt(parts.get('t') ?? '', 10);
+  const signature = parts.get('v1');
+
+  if (!Number.isFinite(timestamp) || !signature) {
+    return false;
+  }
+
+  // Reject stale deliveries to limit replay
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload.toString()}`)
+    .digest();
+  const provided = Buffer.from(signature, 'hex');
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Verify and parse a webhook delivery
+ * Throws if the signature is invalid
+ */
+export function constructWebhookEvent(
+  payload: string | Buffer,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds?: number
+): WebhookEvent {
+  if (!verifyWebhookSignature(payload, signatureHeader, secret, toleranceSeconds)) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  return JSON.parse(payload.toString()) as WebhookEvent;
+}